@@ -0,0 +1,106 @@
+import { ConfigManager } from '../config/environment.js';
+import { TokenManager } from '../auth/token-manager.js';
+import { KiteClient } from '../api/kite-client.js';
+import { RequestScheduler } from '../api/request-scheduler.js';
+import { PaperTradingClient } from '../paper/paper-trading-client.js';
+import { RiskManager } from '../risk/risk-manager.js';
+import { PortfolioAnalyzer } from '../portfolio/portfolio-analyzer.js';
+
+/**
+ * Per-account services a tool call is routed to
+ */
+export interface AccountContext {
+  // Kite user ID, or null when no account has been authenticated yet
+  account: string | null;
+  kiteClient: KiteClient;
+  riskManager: RiskManager;
+  portfolioAnalyzer: PortfolioAnalyzer;
+}
+
+export interface AccountSummary {
+  account: string;
+  user_name: string | null;
+  default: boolean;
+  authenticated: boolean;
+  token_generated_at: string | null;
+  token_expires_at: string | null;
+  trading_mode: 'live' | 'paper';
+}
+
+/**
+ * Builds a Kite client, risk manager and portfolio analyzer for each account in the token
+ * store on first use. Accounts added with `bun run auth --add` are picked up without a restart.
+ */
+export class AccountManager {
+  private readonly config: ConfigManager;
+  private readonly tokenManager: TokenManager;
+  private readonly contexts = new Map<string, AccountContext>();
+  // Kite rate limits apply per API key, so all accounts share one scheduler
+  private readonly scheduler: RequestScheduler;
+
+  constructor(config: ConfigManager, tokenManager: TokenManager) {
+    this.config = config;
+    this.tokenManager = tokenManager;
+    this.scheduler = new RequestScheduler(config);
+  }
+
+  /**
+   * User IDs of all stored accounts
+   */
+  getAccountIds(): string[] {
+    return this.tokenManager.getAccountIds();
+  }
+
+  getDefaultAccountId(): string | null {
+    return this.tokenManager.getDefaultAccountId();
+  }
+
+  /**
+   * Services for an account, or for the default account when none is given
+   */
+  get(account?: string): AccountContext {
+    const requested = account?.trim().toUpperCase();
+    const id = requested || this.getDefaultAccountId();
+
+    if (requested && !this.getAccountIds().includes(requested)) {
+      const known = this.getAccountIds();
+      throw new Error(`Unknown account "${account}". ${known.length > 0 ? `Authenticated accounts: ${known.join(', ')}` : 'No accounts have been authenticated yet.'}`);
+    }
+
+    // Without any account the client stays unauthenticated, as before the first login
+    const key = id ?? '';
+    let context = this.contexts.get(key);
+    if (!context) {
+      const kiteClient = this.config.getTradingMode() === 'paper'
+        ? new PaperTradingClient(this.config, this.tokenManager, id ?? undefined, this.scheduler)
+        : new KiteClient(this.config, this.tokenManager, id ?? undefined, this.scheduler);
+      context = {
+        account: id,
+        kiteClient,
+        riskManager: new RiskManager(this.config, kiteClient),
+        portfolioAnalyzer: new PortfolioAnalyzer(this.config, kiteClient)
+      };
+      this.contexts.set(key, context);
+    }
+    return context;
+  }
+
+  /**
+   * Authentication status of every stored account
+   */
+  listAccounts(): AccountSummary[] {
+    const defaultId = this.getDefaultAccountId();
+    return this.getAccountIds().map(account => {
+      const tokenData = this.tokenManager.loadToken(account);
+      return {
+        account,
+        user_name: tokenData?.user_name ?? null,
+        default: account === defaultId,
+        authenticated: this.tokenManager.isTokenValid(account),
+        token_generated_at: tokenData?.generated_at ?? null,
+        token_expires_at: tokenData ? this.tokenManager.getTokenExpiry(tokenData).toISOString() : null,
+        trading_mode: this.config.getTradingMode()
+      };
+    });
+  }
+}
@@ -0,0 +1,439 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../config/environment.js';
+import { KiteClient } from '../api/kite-client.js';
+import { TickerManager, type TickRecord } from '../streaming/ticker-manager.js';
+
+export type AlertConditionType =
+  | 'price_above'
+  | 'price_below'
+  | 'change_pct_above'
+  | 'change_pct_below'
+  | 'volume_spike';
+
+export interface AlertCondition {
+  type: AlertConditionType;
+  /**
+   * Price level, day change in percent, or volume multiple, depending on the type
+   */
+  value: number;
+  /**
+   * Sessions averaged for the volume_spike baseline
+   */
+  lookback_days?: number;
+}
+
+export interface Alert {
+  id: string;
+  instrument: string;
+  instrument_token: number;
+  condition: AlertCondition;
+  note?: string;
+  status: 'active' | 'triggered';
+  created_at: string;
+  triggered_at?: string;
+}
+
+export interface AlertEvent {
+  alert_id: string;
+  instrument: string;
+  condition: AlertCondition;
+  note?: string;
+  message: string;
+  observed: PriceSnapshot & { change_pct: number | null; average_volume?: number };
+  source: 'stream' | 'poll';
+  triggered_at: string;
+}
+
+export type AlertListener = (event: AlertEvent) => void;
+
+interface PriceSnapshot {
+  last_price: number;
+  close: number | null;
+  volume: number | null;
+}
+
+interface AlertState {
+  sequence: number;
+  alerts: Alert[];
+  history: AlertEvent[];
+}
+
+export const ALERT_CONDITION_TYPES: AlertConditionType[] = [
+  'price_above',
+  'price_below',
+  'change_pct_above',
+  'change_pct_below',
+  'volume_spike'
+];
+
+export const DEFAULT_VOLUME_LOOKBACK_DAYS = 10;
+export const MAX_VOLUME_LOOKBACK_DAYS = 60;
+
+// Oldest events are dropped beyond this many
+const MAX_HISTORY = 500;
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Persistent price alerts. Alerts on instruments the ticker is streaming are evaluated on
+ * every tick; the rest are polled with quotes. An alert fires once, is recorded in the
+ * history and is passed to the registered listeners.
+ */
+export class AlertEngine {
+  private readonly kiteClient: KiteClient;
+  private readonly tickerManager: TickerManager;
+  private readonly stateFile: string;
+  private readonly pollIntervalMs: number;
+  private readonly listeners = new Set<AlertListener>();
+  // Keyed by instrument token and lookback, as alerts on one instrument may average over different periods
+  private readonly averageVolumes = new Map<string, { day: string; average: number | null }>();
+  private readonly averageVolumeRequests = new Set<string>();
+  private state: AlertState;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(config: ConfigManager, kiteClient: KiteClient, tickerManager: TickerManager) {
+    this.kiteClient = kiteClient;
+    this.tickerManager = tickerManager;
+    this.stateFile = config.getAlertsFile();
+    this.pollIntervalMs = config.getAlertPollIntervalSeconds() * 1000;
+    this.state = this.loadState();
+
+    this.tickerManager.onTicks(records => this.handleTicks(records));
+  }
+
+  private loadState(): AlertState {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const state = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8')) as AlertState;
+        console.error(`Alerts loaded from: ${this.stateFile} (${state.alerts.filter(a => a.status === 'active').length} active)`);
+        return state;
+      }
+    } catch (error) {
+      throw new Error(`Failed to load alerts from ${this.stateFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return { sequence: 0, alerts: [], history: [] };
+  }
+
+  private saveState(): void {
+    try {
+      const stateDir = path.dirname(this.stateFile);
+      if (!fs.existsSync(stateDir)) {
+        fs.mkdirSync(stateDir, { recursive: true });
+      }
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      throw new Error(`Failed to save alerts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Start polling prices for alerts on instruments that are not being streamed
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    this.pollTimer = setInterval(() => {
+      this.poll().catch(error => {
+        console.error(`Alert polling failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }, this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Register a listener for triggered alerts. Returns a function that removes it.
+   */
+  onTrigger(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Create an alert and check it against the current price straight away, so a condition
+   * that already holds fires immediately
+   */
+  async create(params: { instrument: string; instrument_token: number; condition: AlertCondition; note?: string }): Promise<Alert> {
+    const condition = validateCondition(params.condition);
+
+    this.state.sequence += 1;
+    const alert: Alert = {
+      id: `ALERT-${Date.now()}-${this.state.sequence}`,
+      instrument: params.instrument,
+      instrument_token: params.instrument_token,
+      condition,
+      ...(params.note ? { note: params.note } : {}),
+      status: 'active',
+      created_at: new Date().toISOString()
+    };
+    this.state.alerts.push(alert);
+    this.saveState();
+
+    try {
+      await this.check([alert]);
+    } catch (error) {
+      console.error(`Initial check of ${alert.id} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return alert;
+  }
+
+  /**
+   * List alerts, optionally filtered by status
+   */
+  list(status?: Alert['status']): Alert[] {
+    return this.state.alerts.filter(alert => !status || alert.status === status);
+  }
+
+  /**
+   * Delete an alert
+   */
+  delete(alertId: string): Alert {
+    const index = this.state.alerts.findIndex(alert => alert.id === alertId);
+    if (index === -1) {
+      throw new Error(`Alert ${alertId} not found`);
+    }
+
+    const [alert] = this.state.alerts.splice(index, 1);
+    this.saveState();
+    return alert!;
+  }
+
+  /**
+   * Triggered alert events, newest first
+   */
+  getHistory(limit?: number): AlertEvent[] {
+    const history = [...this.state.history].reverse();
+    return limit ? history.slice(0, limit) : history;
+  }
+
+  private handleTicks(records: TickRecord[]): void {
+    for (const record of records) {
+      const alerts = this.activeAlertsFor(record.instrument_token);
+      if (alerts.length === 0) {
+        continue;
+      }
+
+      const snapshot = {
+        last_price: record.tick.last_price,
+        close: record.tick.ohlc?.close ?? null,
+        volume: record.tick.volume_traded ?? null
+      };
+      for (const alert of alerts) {
+        this.evaluate(alert, snapshot, 'stream');
+      }
+    }
+  }
+
+  private async poll(): Promise<void> {
+    // Skip a round rather than overlap a slow one
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.check(this.list('active'));
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Fetch quotes for alerts whose instruments have no recent tick, and evaluate them
+   */
+  private async check(alerts: Alert[]): Promise<void> {
+    if (!this.kiteClient.isReady()) {
+      return;
+    }
+
+    const staleBefore = Date.now() - this.pollIntervalMs;
+    const due = alerts.filter(alert => {
+      const tick = this.tickerManager.getLastTick(alert.instrument_token);
+      // ltp mode ticks carry no close or volume, so only price alerts can use them
+      const streamedInLtpMode = this.tickerManager.getSubscription(alert.instrument_token)?.mode === 'ltp';
+      const needsQuote = streamedInLtpMode && alert.condition.type !== 'price_above' && alert.condition.type !== 'price_below';
+      return !tick || needsQuote || new Date(tick.received_at).getTime() < staleBefore;
+    });
+    const instruments = [...new Set(due.map(alert => alert.instrument))];
+    if (instruments.length === 0) {
+      return;
+    }
+
+    const quotes = await this.kiteClient.getQuote(instruments) || {};
+    for (const alert of due) {
+      const quote = quotes[alert.instrument];
+      if (!quote || alert.status !== 'active') {
+        continue;
+      }
+      this.evaluate(alert, {
+        last_price: quote.last_price,
+        close: quote.ohlc?.close ?? null,
+        volume: quote.volume ?? null
+      }, 'poll');
+    }
+  }
+
+  private evaluate(alert: Alert, snapshot: PriceSnapshot, source: AlertEvent['source']): void {
+    const { type, value } = alert.condition;
+    const changePct = snapshot.close ? (snapshot.last_price - snapshot.close) / snapshot.close * 100 : null;
+    let averageVolume: number | undefined;
+    let message: string | null = null;
+
+    switch (type) {
+      case 'price_above':
+        if (snapshot.last_price >= value) {
+          message = `${alert.instrument} at ${snapshot.last_price}, at or above ${value}`;
+        }
+        break;
+      case 'price_below':
+        if (snapshot.last_price <= value) {
+          message = `${alert.instrument} at ${snapshot.last_price}, at or below ${value}`;
+        }
+        break;
+      case 'change_pct_above':
+        if (changePct !== null && changePct >= value) {
+          message = `${alert.instrument} ${formatPct(changePct)} on the day, at or above ${formatPct(value)}`;
+        }
+        break;
+      case 'change_pct_below':
+        if (changePct !== null && changePct <= value) {
+          message = `${alert.instrument} ${formatPct(changePct)} on the day, at or below ${formatPct(value)}`;
+        }
+        break;
+      case 'volume_spike': {
+        const average = this.getAverageVolume(alert);
+        if (average && snapshot.volume !== null && snapshot.volume >= value * average) {
+          averageVolume = average;
+          message = `${alert.instrument} volume ${snapshot.volume} is ${(snapshot.volume / average).toFixed(1)}x its ${alert.condition.lookback_days}-day average of ${Math.round(average)}`;
+        }
+        break;
+      }
+    }
+
+    if (message) {
+      this.trigger(alert, {
+        ...snapshot,
+        change_pct: changePct !== null ? Math.round(changePct * 100) / 100 : null,
+        ...(averageVolume !== undefined ? { average_volume: Math.round(averageVolume) } : {})
+      }, message, source);
+    }
+  }
+
+  private trigger(alert: Alert, observed: AlertEvent['observed'], message: string, source: AlertEvent['source']): void {
+    const triggeredAt = new Date().toISOString();
+    alert.status = 'triggered';
+    alert.triggered_at = triggeredAt;
+
+    const event: AlertEvent = {
+      alert_id: alert.id,
+      instrument: alert.instrument,
+      condition: alert.condition,
+      ...(alert.note ? { note: alert.note } : {}),
+      message,
+      observed,
+      source,
+      triggered_at: triggeredAt
+    };
+    this.state.history.push(event);
+    if (this.state.history.length > MAX_HISTORY) {
+      this.state.history.splice(0, this.state.history.length - MAX_HISTORY);
+    }
+    this.saveState();
+
+    console.error(`Alert triggered: ${message}`);
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Alert listener failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private activeAlertsFor(instrumentToken: number): Alert[] {
+    return this.state.alerts.filter(alert => alert.status === 'active' && alert.instrument_token === instrumentToken);
+  }
+
+  /**
+   * Average daily volume over the lookback, from daily candles fetched once per IST day.
+   * Returns undefined while the candles are being fetched.
+   */
+  private getAverageVolume(alert: Alert): number | null | undefined {
+    const today = istDate(new Date());
+    const lookbackDays = alert.condition.lookback_days ?? DEFAULT_VOLUME_LOOKBACK_DAYS;
+    const key = `${alert.instrument_token}:${lookbackDays}`;
+    const cached = this.averageVolumes.get(key);
+    if (cached?.day === today) {
+      return cached.average;
+    }
+
+    if (!this.averageVolumeRequests.has(key)) {
+      this.averageVolumeRequests.add(key);
+      this.fetchAverageVolume(alert.instrument_token, lookbackDays, today)
+        .then(average => this.averageVolumes.set(key, { day: today, average }))
+        .catch(error => console.error(`Failed to fetch average volume for ${alert.instrument}: ${error instanceof Error ? error.message : String(error)}`))
+        .finally(() => this.averageVolumeRequests.delete(key));
+    }
+    return undefined;
+  }
+
+  private async fetchAverageVolume(instrumentToken: number, lookbackDays: number, today: string): Promise<number | null> {
+    // Historical dates carry IST wall-clock time in their UTC fields; see KiteClient.getHistoricalData
+    const from = new Date(`${today}T00:00:00Z`);
+    // Calendar days, with room for weekends and holidays
+    from.setUTCDate(from.getUTCDate() - Math.ceil(lookbackDays * 1.6) - 7);
+    const to = new Date(`${today}T00:00:00Z`);
+    to.setUTCSeconds(-1);
+
+    const candles = await this.kiteClient.getHistoricalData({ instrumentToken, interval: 'day', from, to });
+    const volumes = candles.slice(-lookbackDays).map(candle => candle.volume).filter(v => typeof v === 'number');
+    return volumes.length > 0 ? volumes.reduce((a, b) => a + b, 0) / volumes.length : null;
+  }
+}
+
+function validateCondition(condition: AlertCondition): AlertCondition {
+  const { type, value } = condition;
+  if (!ALERT_CONDITION_TYPES.includes(type)) {
+    throw new Error(`Invalid alert condition "${type}". Use one of: ${ALERT_CONDITION_TYPES.join(', ')}`);
+  }
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new Error('Alert value must be a number');
+  }
+  if ((type === 'price_above' || type === 'price_below') && value <= 0) {
+    throw new Error('Price alert value must be positive');
+  }
+
+  if (type !== 'volume_spike') {
+    return { type, value };
+  }
+
+  if (value <= 1) {
+    throw new Error('volume_spike value is a multiple of average volume and must be greater than 1');
+  }
+  const lookbackDays = condition.lookback_days ?? DEFAULT_VOLUME_LOOKBACK_DAYS;
+  if (!Number.isInteger(lookbackDays) || lookbackDays < 1 || lookbackDays > MAX_VOLUME_LOOKBACK_DAYS) {
+    throw new Error(`lookback_days must be an integer between 1 and ${MAX_VOLUME_LOOKBACK_DAYS}`);
+  }
+  return { type, value, lookback_days: lookbackDays };
+}
+
+function formatPct(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+/**
+ * Calendar date in IST as YYYY-MM-DD
+ */
+function istDate(date: Date): string {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
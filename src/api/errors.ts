@@ -0,0 +1,211 @@
+/**
+ * Kite API failures, classified by Kite's error_type. kiteconnect rejects with a plain
+ * { message, error_type } object and drops the HTTP response, so status is the code Kite
+ * uses for the error type rather than the one on the wire.
+ */
+export abstract class KiteApiError extends Error {
+  // error_type as reported by Kite, e.g. HoldingException for a failure classed as OrderException
+  readonly errorType: string;
+  readonly status: number;
+  // Whether the same request may succeed if sent again unchanged
+  readonly retryable: boolean;
+  // KiteClient method that failed
+  readonly operation: string;
+  // What the caller can do about it
+  readonly hint: string | undefined;
+
+  constructor(message: string, details: { errorType: string; status: number; retryable: boolean; operation: string; hint?: string }) {
+    super(message);
+    this.errorType = details.errorType;
+    this.status = details.status;
+    this.retryable = details.retryable;
+    this.operation = details.operation;
+    this.hint = details.hint;
+  }
+
+  /**
+   * Fields reported to MCP clients
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      error: this.message,
+      error_type: this.name,
+      kite_error_type: this.errorType,
+      status: this.status,
+      retryable: this.retryable,
+      ...(this.hint ? { hint: this.hint } : {})
+    };
+  }
+}
+
+type KiteErrorDetails = ConstructorParameters<typeof KiteApiError>[1];
+
+/** Session expired or invalidated */
+export class TokenException extends KiteApiError {
+  constructor(message: string, details: KiteErrorDetails) {
+    super(message, details);
+    this.name = 'TokenException';
+  }
+}
+
+/** Missing or invalid request parameters */
+export class InputException extends KiteApiError {
+  constructor(message: string, details: KiteErrorDetails) {
+    super(message, details);
+    this.name = 'InputException';
+  }
+}
+
+/** Order placement, modification or cancellation rejected */
+export class OrderException extends KiteApiError {
+  constructor(message: string, details: KiteErrorDetails) {
+    super(message, details);
+    this.name = 'OrderException';
+  }
+}
+
+/** Not enough funds or margin for the order */
+export class MarginException extends KiteApiError {
+  constructor(message: string, details: KiteErrorDetails) {
+    super(message, details);
+    this.name = 'MarginException';
+  }
+}
+
+/** Throttled, or Kite could not be reached */
+export class NetworkException extends KiteApiError {
+  constructor(message: string, details: KiteErrorDetails) {
+    super(message, details);
+    this.name = 'NetworkException';
+  }
+}
+
+/** Kite's order management system returned a bad or unexpected response */
+export class DataException extends KiteApiError {
+  constructor(message: string, details: KiteErrorDetails) {
+    super(message, details);
+    this.name = 'DataException';
+  }
+}
+
+/** Any other failure on Kite's side, including calls the account is not permitted to make */
+export class GeneralException extends KiteApiError {
+  constructor(message: string, details: KiteErrorDetails) {
+    super(message, details);
+    this.name = 'GeneralException';
+  }
+}
+
+type KiteErrorClass = new (message: string, details: KiteErrorDetails) => KiteApiError;
+
+/**
+ * Class, HTTP status, retryability and hint for each error_type Kite documents. Holdings errors
+ * (selling shares not in the demat account) are order rejections.
+ */
+const ERROR_TYPES: Record<string, { errorClass: KiteErrorClass; status: number; retryable: boolean; hint: string }> = {
+  TokenException: {
+    errorClass: TokenException, status: 403, retryable: false,
+    hint: 'The Kite session has expired or was invalidated. Log in again with the login tool.'
+  },
+  UserException: {
+    errorClass: GeneralException, status: 403, retryable: false,
+    hint: 'Kite refused the request for this account. Check the account status on Kite.'
+  },
+  PermissionException: {
+    errorClass: GeneralException, status: 403, retryable: false,
+    hint: 'The account or API app is not permitted to make this call, e.g. the segment is not activated or the API add-on is missing.'
+  },
+  InputException: {
+    errorClass: InputException, status: 400, retryable: false,
+    hint: 'Check the arguments against the tool schema and try again.'
+  },
+  OrderException: {
+    errorClass: OrderException, status: 400, retryable: false,
+    hint: 'Check the order book with get_orders for the rejection reason before trying again.'
+  },
+  HoldingException: {
+    errorClass: OrderException, status: 400, retryable: false,
+    hint: 'Check sellable quantity with get_holdings.'
+  },
+  MarginException: {
+    errorClass: MarginException, status: 400, retryable: false,
+    hint: 'Check available funds with get_margins, then reduce quantity or add funds.'
+  },
+  NetworkException: {
+    errorClass: NetworkException, status: 503, retryable: true,
+    hint: 'Kite could not be reached. Try again shortly; for order changes, check get_orders first since the request may have gone through.'
+  },
+  DataException: {
+    errorClass: DataException, status: 502, retryable: true,
+    hint: 'Kite returned an unexpected response. Try again shortly.'
+  },
+  GeneralException: {
+    errorClass: GeneralException, status: 500, retryable: false,
+    hint: 'Try again later, or check Kite status if the error persists.'
+  }
+};
+
+// kiteconnect reports non-JSON HTTP errors as NetworkException with the status text as message
+const NETWORK_STATUS: [RegExp, number][] = [
+  [/too many requests/i, 429],
+  [/bad gateway/i, 502],
+  [/service unavailable/i, 503],
+  [/gateway timeout/i, 504]
+];
+
+// Messages Kite uses for rejections that are margin shortfalls whatever their error_type
+const MARGIN_MESSAGE = /insufficient (funds|margin)|margin (shortfall|exceeds)|required margin/i;
+
+// Hints for well-known rejection messages, checked before the per-class hint
+const MESSAGE_HINTS: [RegExp, string][] = [
+  [MARGIN_MESSAGE, 'Check available funds with get_margins and the required margin with get_order_margins, then reduce quantity or add funds.'],
+  [/insufficient holdings?|holding.*(not|in)sufficient|no holdings/i, 'Check sellable quantity with get_holdings, or use MIS/NRML to sell short intraday.'],
+  [/market.*(closed|not open)|outside market hours|after market/i, 'The market is closed. Place the order with variety amo, or try again during market hours.'],
+  [/circuit|price band|price range|outside.*(limit|range)/i, 'The price is outside the circuit limits. Check lower_circuit_limit and upper_circuit_limit with get_quote.'],
+  [/tick size/i, 'Round the price to the instrument tick size (see search_instruments).'],
+  [/lot size|multiple of/i, 'Use a quantity that is a whole number of lots (see search_instruments for lot_size).'],
+  [/too many requests/i, 'Kite is throttling requests. Wait a few seconds before trying again.']
+];
+
+/**
+ * Whether a raw kiteconnect rejection is worth retrying unchanged
+ */
+export function isRetryableKiteError(error: any): boolean {
+  const errorType = typeof error?.error_type === 'string' ? error.error_type : undefined;
+  return (errorType !== undefined && ERROR_TYPES[errorType]?.retryable === true)
+    || /too many requests/i.test(error?.message ?? '');
+}
+
+/**
+ * Classify a kiteconnect rejection. Returns undefined for errors that did not come from the
+ * Kite API, such as a failure in this server's own code.
+ */
+export function classifyKiteError(error: any, operation: string): KiteApiError | undefined {
+  if (error instanceof KiteApiError) {
+    return error;
+  }
+  if (!error || typeof error !== 'object' || typeof error.error_type !== 'string') {
+    return undefined;
+  }
+
+  const message = typeof error.message === 'string' && error.message ? error.message : `${operation} failed`;
+  const known = ERROR_TYPES[error.error_type] ?? ERROR_TYPES.GeneralException!;
+  let { errorClass, status } = known;
+
+  if (errorClass === NetworkException) {
+    const match = NETWORK_STATUS.find(([pattern]) => pattern.test(message));
+    if (match) {
+      status = match[1];
+    }
+  } else if ((errorClass === OrderException || errorClass === InputException) && MARGIN_MESSAGE.test(message)) {
+    errorClass = MarginException;
+  }
+
+  return new errorClass(`${operation} failed: ${message}`, {
+    errorType: error.error_type,
+    status,
+    retryable: known.retryable,
+    operation,
+    hint: MESSAGE_HINTS.find(([pattern]) => pattern.test(message))?.[1] ?? known.hint
+  });
+}
@@ -1,6 +1,37 @@
 import { KiteConnect } from 'kiteconnect';
-import { ConfigManager } from '../config/environment.js';
+import { ConfigManager, type TradingMode } from '../config/environment.js';
 import { TokenManager } from '../auth/token-manager.js';
+import { assertValidOrderParams, validateOrderParams } from './order-validation.js';
+import { RequestScheduler } from './request-scheduler.js';
+import { classifyKiteError, TokenException } from './errors.js';
+import { checkModel, type JsonSchema } from './schema.js';
+import {
+  CANDLE_SCHEMA,
+  HOLDING_SCHEMA,
+  INSTRUMENT_SCHEMA,
+  LTP_QUOTE_SCHEMA,
+  MARGINS_SCHEMA,
+  OHLC_QUOTE_SCHEMA,
+  ORDER_SCHEMA,
+  POSITIONS_SCHEMA,
+  PROFILE_SCHEMA,
+  QUOTE_SCHEMA,
+  TRADE_SCHEMA,
+  quoteMapSchema,
+  type Candle,
+  type Holding,
+  type Instrument,
+  type LTPQuote,
+  type Margins,
+  type OHLCQuote,
+  type Order,
+  type Positions,
+  type Profile,
+  type Quote,
+  type Trade
+} from './models.js';
+
+export type OrderVariety = 'regular' | 'amo' | 'co' | 'iceberg' | 'auction';
 
 export interface OrderParams {
   exchange: string;
@@ -11,36 +42,127 @@ export interface OrderParams {
   price?: number;
   trigger_price?: number;
   product: 'NRML' | 'MIS' | 'CNC';
-  validity?: 'DAY' | 'IOC';
+  validity?: 'DAY' | 'IOC' | 'TTL';
+  validity_ttl?: number;
+  disclosed_quantity?: number;
+  iceberg_legs?: number;
+  iceberg_quantity?: number;
+  auction_number?: string;
+  tag?: string;
+}
+
+export type GTTTriggerType = 'single' | 'two-leg';
+
+export interface GTTOrderLeg {
+  transaction_type: OrderParams['transaction_type'];
+  quantity: number;
+  product: OrderParams['product'];
+  order_type: 'LIMIT';
+  price: number;
 }
 
+export interface GTTParams {
+  trigger_type: GTTTriggerType;
+  exchange: string;
+  tradingsymbol: string;
+  trigger_values: number[];
+  last_price: number;
+  orders: GTTOrderLeg[];
+}
+
+export type HistoricalInterval =
+  | 'minute'
+  | '3minute'
+  | '5minute'
+  | '10minute'
+  | '15minute'
+  | '30minute'
+  | '60minute'
+  | 'day';
+
+export interface HistoricalDataParams {
+  instrumentToken: number | string;
+  interval: HistoricalInterval;
+  from: Date;
+  to: Date;
+  continuous?: boolean;
+  oi?: boolean;
+}
+
+// Maximum number of days Kite returns in a single historical data request, per interval
+export const HISTORICAL_MAX_DAYS: Record<HistoricalInterval, number> = {
+  'minute': 60,
+  '3minute': 100,
+  '5minute': 100,
+  '10minute': 100,
+  '15minute': 200,
+  '30minute': 200,
+  '60minute': 400,
+  'day': 2000
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The instrument dump has tens of thousands of rows of one shape; checking the first few is enough
+const INSTRUMENT_CHECK_SAMPLE = 100;
+
+// Most instruments Kite accepts in one quote, OHLC or LTP request
+export const QUOTE_BATCH_LIMITS = {
+  quote: 500,
+  ohlc: 1000,
+  ltp: 1000
+};
+
 export class KiteClient {
   private readonly kiteConnect: any;
   private readonly tokenManager: TokenManager;
-  private isAuthenticated: boolean = false;
+  // Paces requests and retries reads; shared by every account's client
+  private readonly scheduler: RequestScheduler;
+  // Kite user ID whose token this client uses; the default account when undefined
+  private readonly accountId?: string;
+  // Token currently set on the Kite connection
+  private accessToken: string | null = null;
+  // Token Kite rejected; the client stays unauthenticated until a different token is stored
+  private rejectedToken: string | null = null;
 
-  constructor(config: ConfigManager, tokenManager: TokenManager) {
+  constructor(config: ConfigManager, tokenManager: TokenManager, accountId?: string, scheduler?: RequestScheduler) {
     this.kiteConnect = new KiteConnect({ api_key: config.getApiKey() });
     this.tokenManager = tokenManager;
-    this.initializeAuthentication();
+    this.scheduler = scheduler ?? new RequestScheduler(config);
+    this.accountId = accountId;
+    this.syncAccessToken();
   }
 
   /**
-   * Initialize authentication with stored token
+   * Pick up the stored token, so a login, logout or `bun run auth` takes effect without a restart
    */
-  private initializeAuthentication(): void {
-    const token = this.tokenManager.getValidToken();
-    if (token) {
-      this.kiteConnect.setAccessToken(token);
-      this.isAuthenticated = true;
+  private syncAccessToken(): string | null {
+    const token = this.tokenManager.getValidToken(this.accountId);
+    if (token !== this.accessToken) {
+      if (token) {
+        this.kiteConnect.setAccessToken(token);
+        if (this.accessToken) {
+          console.error(`Reloaded access token${this.accountId ? ` for ${this.accountId}` : ''}`);
+        }
+      }
+      this.accessToken = token;
     }
+    return token;
   }
 
   /**
    * Check if client is authenticated and ready
    */
   isReady(): boolean {
-    return this.isAuthenticated && this.tokenManager.isTokenValid();
+    const token = this.syncAccessToken();
+    return token !== null && token !== this.rejectedToken;
+  }
+
+  /**
+   * Whether orders and portfolio data are simulated (paper trading) rather than live
+   */
+  isSimulated(): boolean {
+    return false;
   }
 
   /**
@@ -55,10 +177,10 @@ export class KiteClient {
   /**
    * Get user profile
    */
-  async getProfile(): Promise<any> {
+  async getProfile(): Promise<Profile> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getProfile();
+      return checkModel<Profile>('profile', PROFILE_SCHEMA, await this.scheduler.read('default', () => this.kiteConnect.getProfile()));
     } catch (error) {
       throw this.handleApiError(error, 'getProfile');
     }
@@ -67,10 +189,10 @@ export class KiteClient {
   /**
    * Get positions
    */
-  async getPositions(): Promise<any> {
+  async getPositions(): Promise<Positions> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getPositions();
+      return checkModel<Positions>('positions', POSITIONS_SCHEMA, await this.scheduler.read('default', () => this.kiteConnect.getPositions()));
     } catch (error) {
       throw this.handleApiError(error, 'getPositions');
     }
@@ -79,10 +201,10 @@ export class KiteClient {
   /**
    * Get holdings
    */
-  async getHoldings(): Promise<any> {
+  async getHoldings(): Promise<Holding[]> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getHoldings();
+      return checkModel<Holding[]>('holdings', listOf(HOLDING_SCHEMA), await this.scheduler.read('default', () => this.kiteConnect.getHoldings()));
     } catch (error) {
       throw this.handleApiError(error, 'getHoldings');
     }
@@ -91,10 +213,10 @@ export class KiteClient {
   /**
    * Get orders
    */
-  async getOrders(): Promise<any> {
+  async getOrders(): Promise<Order[]> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getOrders();
+      return checkModel<Order[]>('orders', listOf(ORDER_SCHEMA), await this.scheduler.read('default', () => this.kiteConnect.getOrders()));
     } catch (error) {
       throw this.handleApiError(error, 'getOrders');
     }
@@ -103,22 +225,48 @@ export class KiteClient {
   /**
    * Get order history for a specific order
    */
-  async getOrderHistory(orderId: string): Promise<any> {
+  async getOrderHistory(orderId: string): Promise<Order[]> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getOrderHistory(orderId);
+      return checkModel<Order[]>('order history', listOf(ORDER_SCHEMA), await this.scheduler.read('default', () => this.kiteConnect.getOrderHistory(orderId)));
     } catch (error) {
       throw this.handleApiError(error, 'getOrderHistory');
     }
   }
 
+  /**
+   * Get trades executed during the day
+   */
+  async getTrades(): Promise<Trade[]> {
+    this.ensureAuthenticated();
+    try {
+      return checkModel<Trade[]>('trades', listOf(TRADE_SCHEMA), await this.scheduler.read('default', () => this.kiteConnect.getTrades()));
+    } catch (error) {
+      throw this.handleApiError(error, 'getTrades');
+    }
+  }
+
+  /**
+   * Get trades (fills) for a specific order
+   */
+  async getOrderTrades(orderId: string): Promise<Trade[]> {
+    this.ensureAuthenticated();
+    try {
+      return checkModel<Trade[]>('order trades', listOf(TRADE_SCHEMA), await this.scheduler.read('default', () => this.kiteConnect.getOrderTrades(orderId)));
+    } catch (error) {
+      throw this.handleApiError(error, 'getOrderTrades');
+    }
+  }
+
   /**
    * Get instruments for an exchange
    */
-  async getInstruments(exchange?: string): Promise<any> {
+  async getInstruments(exchange?: string): Promise<Instrument[]> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getInstruments(exchange);
+      const instruments: Instrument[] = await this.scheduler.read('default', () => this.kiteConnect.getInstruments(exchange));
+      checkModel('instruments', listOf(INSTRUMENT_SCHEMA), instruments.slice(0, INSTRUMENT_CHECK_SAMPLE));
+      return instruments;
     } catch (error) {
       throw this.handleApiError(error, 'getInstruments');
     }
@@ -127,10 +275,12 @@ export class KiteClient {
   /**
    * Get Last Traded Price (LTP) for instruments
    */
-  async getLTP(instruments: string[]): Promise<any> {
+  async getLTP(instruments: string[]): Promise<Record<string, LTPQuote>> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getLTP(instruments);
+      return checkModel<Record<string, LTPQuote>>('LTP', quoteMapSchema(LTP_QUOTE_SCHEMA), await this.batchedQuoteRequest(
+        instruments, QUOTE_BATCH_LIMITS.ltp, batch => this.kiteConnect.getLTP(batch)
+      ));
     } catch (error) {
       throw this.handleApiError(error, 'getLTP');
     }
@@ -139,10 +289,12 @@ export class KiteClient {
   /**
    * Get OHLC data for instruments
    */
-  async getOHLC(instruments: string[]): Promise<any> {
+  async getOHLC(instruments: string[]): Promise<Record<string, OHLCQuote>> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getOHLC(instruments);
+      return checkModel<Record<string, OHLCQuote>>('OHLC', quoteMapSchema(OHLC_QUOTE_SCHEMA), await this.batchedQuoteRequest(
+        instruments, QUOTE_BATCH_LIMITS.ohlc, batch => this.kiteConnect.getOHLC(batch)
+      ));
     } catch (error) {
       throw this.handleApiError(error, 'getOHLC');
     }
@@ -151,22 +303,85 @@ export class KiteClient {
   /**
    * Get market quote for instruments
    */
-  async getQuote(instruments: string[]): Promise<any> {
+  async getQuote(instruments: string[]): Promise<Record<string, Quote>> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getQuote(instruments);
+      return checkModel<Record<string, Quote>>('quote', quoteMapSchema(QUOTE_SCHEMA), await this.batchedQuoteRequest(
+        instruments, QUOTE_BATCH_LIMITS.quote, batch => this.kiteConnect.getQuote(batch)
+      ));
     } catch (error) {
       throw this.handleApiError(error, 'getQuote');
     }
   }
 
+  /**
+   * Split an instrument list into requests Kite accepts and merge the per-instrument results
+   */
+  private async batchedQuoteRequest(
+    instruments: string[],
+    batchSize: number,
+    call: (batch: string[]) => Promise<Record<string, any>>
+  ): Promise<Record<string, any>> {
+    const unique = [...new Set(instruments)];
+    const result: Record<string, any> = {};
+    for (let i = 0; i < unique.length; i += batchSize) {
+      const batch = unique.slice(i, i + batchSize);
+      Object.assign(result, await this.scheduler.read('quote', () => call(batch)));
+    }
+    return result;
+  }
+
+  /**
+   * Get historical candles, splitting the range into chunks Kite accepts for the interval
+   */
+  async getHistoricalData(params: HistoricalDataParams): Promise<Candle[]> {
+    this.ensureAuthenticated();
+
+    const { instrumentToken, interval, from, to, continuous = false, oi = false } = params;
+    if (from.getTime() > to.getTime()) {
+      throw new Error('getHistoricalData failed: from date must be before to date');
+    }
+
+    const chunkMs = HISTORICAL_MAX_DAYS[interval] * DAY_MS;
+    const candles: Candle[] = [];
+    const seen = new Set<number>();
+
+    let chunkStart = from;
+    while (chunkStart.getTime() <= to.getTime()) {
+      const chunkEnd = new Date(Math.min(chunkStart.getTime() + chunkMs - 1000, to.getTime()));
+
+      let chunk: Candle[];
+      try {
+        chunk = checkModel<Candle[]>('historical', listOf(CANDLE_SCHEMA), await this.scheduler.read('historical', () => this.kiteConnect.getHistoricalData(
+          instrumentToken, interval, chunkStart, chunkEnd, continuous, oi
+        )));
+      } catch (error) {
+        throw this.handleApiError(error, 'getHistoricalData');
+      }
+
+      // Chunk boundaries are inclusive on both ends, so drop any candle already collected
+      for (const candle of chunk || []) {
+        const time = new Date(candle.date).getTime();
+        if (!seen.has(time)) {
+          seen.add(time);
+          candles.push(candle);
+        }
+      }
+
+      chunkStart = new Date(chunkEnd.getTime() + 1000);
+    }
+
+    return candles;
+  }
+
   /**
    * Place a new order
    */
-  async placeOrder(orderParams: OrderParams): Promise<any> {
+  async placeOrder(orderParams: OrderParams, variety: OrderVariety = 'regular'): Promise<any> {
     this.ensureAuthenticated();
+    assertValidOrderParams(orderParams, { variety });
     try {
-      return await this.kiteConnect.placeOrder('regular', orderParams);
+      return await this.scheduler.write('order', () => this.kiteConnect.placeOrder(variety, orderParams));
     } catch (error) {
       throw this.handleApiError(error, 'placeOrder');
     }
@@ -175,10 +390,15 @@ export class KiteClient {
   /**
    * Modify an existing order
    */
-  async modifyOrder(orderId: string, orderParams: Partial<OrderParams>): Promise<any> {
+  async modifyOrder(
+    orderId: string,
+    orderParams: Partial<OrderParams> & { parent_order_id?: string },
+    variety: OrderVariety = 'regular'
+  ): Promise<any> {
     this.ensureAuthenticated();
+    assertValidOrderParams(orderParams, { partial: true, variety });
     try {
-      return await this.kiteConnect.modifyOrder('regular', orderId, orderParams);
+      return await this.scheduler.write('order', () => this.kiteConnect.modifyOrder(variety, orderId, orderParams));
     } catch (error) {
       throw this.handleApiError(error, 'modifyOrder');
     }
@@ -187,56 +407,248 @@ export class KiteClient {
   /**
    * Cancel an order
    */
-  async cancelOrder(orderId: string): Promise<any> {
+  async cancelOrder(orderId: string, variety: OrderVariety = 'regular', parentOrderId?: string): Promise<any> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.cancelOrder('regular', orderId);
+      const params = parentOrderId ? { parent_order_id: parentOrderId } : undefined;
+      return await this.scheduler.write('order', () => this.kiteConnect.cancelOrder(variety, orderId, params));
     } catch (error) {
       throw this.handleApiError(error, 'cancelOrder');
     }
   }
 
+  /**
+   * Get all GTT triggers
+   */
+  async getGTTs(): Promise<any> {
+    this.ensureAuthenticated();
+    try {
+      return await this.scheduler.read('default', () => this.kiteConnect.getGTTs());
+    } catch (error) {
+      throw this.handleApiError(error, 'getGTTs');
+    }
+  }
+
+  /**
+   * Get a single GTT trigger
+   */
+  async getGTT(triggerId: string | number): Promise<any> {
+    this.ensureAuthenticated();
+    try {
+      return await this.scheduler.read('default', () => this.kiteConnect.getGTT(triggerId));
+    } catch (error) {
+      throw this.handleApiError(error, 'getGTT');
+    }
+  }
+
+  /**
+   * Place a GTT trigger (single or two-leg OCO)
+   */
+  async placeGTT(gttParams: GTTParams): Promise<any> {
+    this.ensureAuthenticated();
+    this.validateGTTParams(gttParams);
+    try {
+      return await this.scheduler.write('default', () => this.kiteConnect.placeGTT(gttParams));
+    } catch (error) {
+      throw this.handleApiError(error, 'placeGTT');
+    }
+  }
+
+  /**
+   * Modify an existing GTT trigger. Kite replaces the trigger, so full parameters are required.
+   */
+  async modifyGTT(triggerId: string | number, gttParams: GTTParams): Promise<any> {
+    this.ensureAuthenticated();
+    this.validateGTTParams(gttParams);
+    try {
+      return await this.scheduler.write('default', () => this.kiteConnect.modifyGTT(triggerId, gttParams));
+    } catch (error) {
+      throw this.handleApiError(error, 'modifyGTT');
+    }
+  }
+
+  /**
+   * Delete a GTT trigger
+   */
+  async deleteGTT(triggerId: string | number): Promise<any> {
+    this.ensureAuthenticated();
+    try {
+      return await this.scheduler.write('default', () => this.kiteConnect.deleteGTT(triggerId));
+    } catch (error) {
+      throw this.handleApiError(error, 'deleteGTT');
+    }
+  }
+
+  /**
+   * Validate GTT parameters, checking each leg with the regular order rules
+   */
+  private validateGTTParams(gttParams: GTTParams): void {
+    const errors: string[] = [];
+    const { trigger_type, trigger_values, orders, last_price } = gttParams;
+    const expectedLegs = trigger_type === 'two-leg' ? 2 : 1;
+
+    if (trigger_type !== 'single' && trigger_type !== 'two-leg') {
+      errors.push(`trigger_type must be single or two-leg (got ${trigger_type})`);
+    }
+
+    if (!Array.isArray(trigger_values) || trigger_values.length !== expectedLegs) {
+      errors.push(`${trigger_type} GTT requires exactly ${expectedLegs} trigger value(s)`);
+    } else if (trigger_values.some(v => typeof v !== 'number' || v <= 0)) {
+      errors.push('trigger_values must be positive numbers');
+    } else if (trigger_type === 'two-leg') {
+      const [lower, upper] = trigger_values as [number, number];
+      if (!(lower < last_price && last_price < upper)) {
+        errors.push(`two-leg trigger values must straddle the last price (${lower} < ${last_price} < ${upper})`);
+      }
+    } else if (trigger_values[0] === last_price) {
+      errors.push('single trigger value must differ from the last price');
+    }
+
+    if (!Array.isArray(orders) || orders.length !== expectedLegs) {
+      errors.push(`${trigger_type} GTT requires exactly ${expectedLegs} order leg(s)`);
+    } else {
+      orders.forEach((leg, index) => {
+        if (leg.order_type !== 'LIMIT') {
+          errors.push(`orders[${index}].order_type must be LIMIT`);
+        }
+        const legErrors = validateOrderParams({
+          ...leg,
+          exchange: gttParams.exchange,
+          tradingsymbol: gttParams.tradingsymbol
+        });
+        errors.push(...legErrors.map(e => `orders[${index}].${e}`));
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid GTT parameters: ${errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Get margin required and charges for a list of orders. Regular mode is requested because
+   * compact mode returns only the totals, without the charges breakdown.
+   */
+  async getOrderMargins(orders: Array<OrderParams & { variety?: OrderVariety }>): Promise<any> {
+    this.ensureAuthenticated();
+    this.validateMarginOrders(orders);
+    try {
+      return await this.scheduler.read('default', () => this.kiteConnect.orderMargins(
+        orders.map(order => ({ variety: 'regular', ...order })),
+        'regular'
+      ));
+    } catch (error) {
+      throw this.handleApiError(error, 'getOrderMargins');
+    }
+  }
+
+  /**
+   * Get combined margin for a basket of orders, including the benefit from hedged legs. Regular
+   * mode returns the initial and final margin breakdowns the benefit is computed from.
+   */
+  async getBasketMargins(
+    orders: Array<OrderParams & { variety?: OrderVariety }>,
+    considerPositions: boolean = true
+  ): Promise<any> {
+    this.ensureAuthenticated();
+    this.validateMarginOrders(orders);
+    try {
+      return await this.scheduler.read('default', () => this.kiteConnect.orderBasketMargins(
+        orders.map(order => ({ variety: 'regular', ...order })),
+        considerPositions,
+        'regular'
+      ));
+    } catch (error) {
+      throw this.handleApiError(error, 'getBasketMargins');
+    }
+  }
+
+  /**
+   * Validate each order of a margin request with the regular order rules
+   */
+  private validateMarginOrders(orders: Array<OrderParams & { variety?: OrderVariety }>): void {
+    if (!Array.isArray(orders) || orders.length === 0) {
+      throw new Error('At least one order is required');
+    }
+
+    const errors = orders.flatMap(({ variety, ...order }, index) =>
+      // Margin estimates are hypothetical, so market-hours restrictions do not apply
+      validateOrderParams(order, { variety: variety ?? 'regular', checkMarketHours: false })
+        .map(e => `orders[${index}].${e}`)
+    );
+    if (errors.length > 0) {
+      throw new Error(`Invalid order parameters: ${errors.join('; ')}`);
+    }
+  }
+
   /**
    * Get margins
    */
-  async getMargins(): Promise<any> {
+  async getMargins(): Promise<Margins> {
     this.ensureAuthenticated();
     try {
-      return await this.kiteConnect.getMargins();
+      return checkModel<Margins>('margins', MARGINS_SCHEMA, await this.scheduler.read('default', () => this.kiteConnect.getMargins()));
     } catch (error) {
       throw this.handleApiError(error, 'getMargins');
     }
   }
 
   /**
-   * Handle API errors consistently
+   * Handle API errors consistently. Kite rejections become typed KiteApiErrors; an expired
+   * or invalidated token also marks the client as needing a new login.
    */
   private handleApiError(error: any, operation: string): Error {
-    if (error && typeof error === 'object') {
-      // Handle specific Kite API errors
-      if (error.status === 403) {
-        this.isAuthenticated = false;
-        return new Error(`Authentication failed during ${operation}. Token may be expired.`);
-      }
-
-      if (error.message) {
-        return new Error(`${operation} failed: ${error.message}`);
+    const kiteError = classifyKiteError(error, operation);
+    if (kiteError) {
+      if (kiteError instanceof TokenException) {
+        this.rejectedToken = this.accessToken;
       }
+      return kiteError;
     }
 
-    return new Error(`${operation} failed: ${error instanceof Error ? error.message : String(error)}`);
+    return new Error(`${operation} failed: ${error instanceof Error ? error.message : error?.message ?? String(error)}`);
+  }
+
+  /**
+   * Invalidate the access token on Kite's side, ending the session
+   */
+  async invalidateSession(): Promise<void> {
+    this.ensureAuthenticated();
+    try {
+      await this.scheduler.write('default', () => this.kiteConnect.invalidateAccessToken(this.accessToken));
+    } catch (error) {
+      throw this.handleApiError(error, 'invalidateSession');
+    }
+    this.rejectedToken = this.accessToken;
   }
 
   /**
    * Get current authentication status
    */
-  getAuthenticationStatus(): { authenticated: boolean; user?: string; tokenExpiry?: string } {
-    const tokenData = this.tokenManager.getValidTokenData();
+  getAuthenticationStatus(): {
+    account?: string;
+    authenticated: boolean;
+    user?: string;
+    tokenGeneratedAt?: string;
+    tokenExpiry?: string;
+    expiresInMinutes?: number;
+    tradingMode: TradingMode;
+  } {
+    const tokenData = this.tokenManager.loadToken(this.accountId);
+    const expiry = tokenData ? this.tokenManager.getTokenExpiry(tokenData) : null;
 
     return {
+      account: tokenData?.user_id ?? this.accountId,
       authenticated: this.isReady(),
       user: tokenData?.user_name || tokenData?.user_id,
-      tokenExpiry: tokenData?.generated_at
+      tokenGeneratedAt: tokenData?.generated_at,
+      tokenExpiry: expiry?.toISOString(),
+      expiresInMinutes: expiry ? Math.max(0, Math.floor((expiry.getTime() - Date.now()) / 60000)) : undefined,
+      tradingMode: this.isSimulated() ? 'paper' : 'live'
     };
   }
 }
+
+function listOf(schema: JsonSchema): JsonSchema {
+  return { type: 'array', items: schema };
+}
@@ -0,0 +1,550 @@
+import type { JsonSchema } from './schema.js';
+
+/**
+ * Kite Connect response models. Each interface has a matching JSON Schema: KiteClient checks
+ * responses against it, and tools use it to describe their structured output. Required
+ * fields are the ones this server relies on; the rest are optional because Kite omits some
+ * of them for some instruments, segments or order types.
+ */
+
+const STRING: JsonSchema = { type: 'string' };
+const NUMBER: JsonSchema = { type: 'number' };
+const BOOLEAN: JsonSchema = { type: 'boolean' };
+const NULLABLE_STRING: JsonSchema = { type: ['string', 'null'] };
+const STRING_LIST: JsonSchema = { type: 'array', items: STRING };
+
+export interface Profile {
+  user_id: string;
+  user_name: string;
+  user_shortname?: string;
+  user_type?: string;
+  email?: string;
+  broker?: string;
+  exchanges?: string[];
+  products?: string[];
+  order_types?: string[];
+  avatar_url?: string | null;
+  meta?: Record<string, unknown>;
+}
+
+export const PROFILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    user_id: STRING,
+    user_name: STRING,
+    user_shortname: STRING,
+    user_type: STRING,
+    email: STRING,
+    broker: STRING,
+    exchanges: STRING_LIST,
+    products: STRING_LIST,
+    order_types: STRING_LIST,
+    avatar_url: NULLABLE_STRING,
+    meta: { type: 'object' }
+  },
+  required: ['user_id', 'user_name']
+};
+
+export interface Holding {
+  tradingsymbol: string;
+  exchange: string;
+  instrument_token?: number;
+  isin?: string;
+  product?: string;
+  quantity: number;
+  t1_quantity?: number;
+  realised_quantity?: number;
+  used_quantity?: number;
+  authorised_quantity?: number;
+  opening_quantity?: number;
+  collateral_quantity?: number;
+  collateral_type?: string;
+  average_price: number;
+  last_price: number;
+  close_price?: number;
+  pnl?: number;
+  day_change?: number;
+  day_change_percentage?: number;
+}
+
+export const HOLDING_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tradingsymbol: STRING,
+    exchange: STRING,
+    instrument_token: NUMBER,
+    isin: STRING,
+    product: STRING,
+    quantity: NUMBER,
+    t1_quantity: NUMBER,
+    realised_quantity: NUMBER,
+    used_quantity: NUMBER,
+    authorised_quantity: NUMBER,
+    opening_quantity: NUMBER,
+    collateral_quantity: NUMBER,
+    collateral_type: NULLABLE_STRING,
+    average_price: NUMBER,
+    last_price: NUMBER,
+    close_price: NUMBER,
+    pnl: NUMBER,
+    day_change: NUMBER,
+    day_change_percentage: NUMBER
+  },
+  required: ['tradingsymbol', 'exchange', 'quantity', 'average_price', 'last_price']
+};
+
+export interface Position {
+  tradingsymbol: string;
+  exchange: string;
+  instrument_token?: number;
+  product: string;
+  quantity: number;
+  overnight_quantity?: number;
+  multiplier?: number;
+  average_price: number;
+  close_price?: number;
+  last_price: number;
+  value?: number;
+  pnl: number;
+  m2m?: number;
+  unrealised?: number;
+  realised?: number;
+  buy_quantity?: number;
+  buy_price?: number;
+  buy_value?: number;
+  sell_quantity?: number;
+  sell_price?: number;
+  sell_value?: number;
+  day_buy_quantity?: number;
+  day_buy_price?: number;
+  day_buy_value?: number;
+  day_sell_quantity?: number;
+  day_sell_price?: number;
+  day_sell_value?: number;
+}
+
+export const POSITION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tradingsymbol: STRING,
+    exchange: STRING,
+    instrument_token: NUMBER,
+    product: STRING,
+    quantity: NUMBER,
+    overnight_quantity: NUMBER,
+    multiplier: NUMBER,
+    average_price: NUMBER,
+    close_price: NUMBER,
+    last_price: NUMBER,
+    value: NUMBER,
+    pnl: NUMBER,
+    m2m: NUMBER,
+    unrealised: NUMBER,
+    realised: NUMBER,
+    buy_quantity: NUMBER,
+    buy_price: NUMBER,
+    buy_value: NUMBER,
+    sell_quantity: NUMBER,
+    sell_price: NUMBER,
+    sell_value: NUMBER,
+    day_buy_quantity: NUMBER,
+    day_buy_price: NUMBER,
+    day_buy_value: NUMBER,
+    day_sell_quantity: NUMBER,
+    day_sell_price: NUMBER,
+    day_sell_value: NUMBER
+  },
+  required: ['tradingsymbol', 'exchange', 'product', 'quantity', 'average_price', 'last_price', 'pnl']
+};
+
+export interface Positions {
+  net: Position[];
+  day: Position[];
+}
+
+export const POSITIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    net: { type: 'array', items: POSITION_SCHEMA, description: 'Net positions, including those carried over' },
+    day: { type: 'array', items: POSITION_SCHEMA, description: 'Positions opened today' }
+  },
+  required: ['net', 'day']
+};
+
+export interface Order {
+  order_id: string;
+  parent_order_id?: string | null;
+  exchange_order_id?: string | null;
+  placed_by?: string;
+  variety?: string;
+  status: string;
+  status_message?: string | null;
+  status_message_raw?: string | null;
+  order_timestamp?: string | Date | null;
+  exchange_update_timestamp?: string | Date | null;
+  exchange_timestamp?: string | Date | null;
+  tradingsymbol: string;
+  exchange: string;
+  instrument_token?: number;
+  transaction_type: string;
+  order_type: string;
+  product: string;
+  validity?: string;
+  validity_ttl?: number;
+  quantity: number;
+  disclosed_quantity?: number;
+  price?: number;
+  trigger_price?: number;
+  average_price?: number;
+  filled_quantity?: number;
+  pending_quantity?: number;
+  cancelled_quantity?: number;
+  market_protection?: number;
+  tag?: string | null;
+  tags?: string[] | null;
+  guid?: string;
+}
+
+export const ORDER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    order_id: STRING,
+    parent_order_id: NULLABLE_STRING,
+    exchange_order_id: NULLABLE_STRING,
+    placed_by: STRING,
+    variety: STRING,
+    status: STRING,
+    status_message: NULLABLE_STRING,
+    status_message_raw: NULLABLE_STRING,
+    order_timestamp: NULLABLE_STRING,
+    exchange_update_timestamp: NULLABLE_STRING,
+    exchange_timestamp: NULLABLE_STRING,
+    tradingsymbol: STRING,
+    exchange: STRING,
+    instrument_token: NUMBER,
+    transaction_type: STRING,
+    order_type: STRING,
+    product: STRING,
+    validity: STRING,
+    validity_ttl: NUMBER,
+    quantity: NUMBER,
+    disclosed_quantity: NUMBER,
+    price: NUMBER,
+    trigger_price: NUMBER,
+    average_price: NUMBER,
+    filled_quantity: NUMBER,
+    pending_quantity: NUMBER,
+    cancelled_quantity: NUMBER,
+    market_protection: NUMBER,
+    tag: NULLABLE_STRING,
+    tags: { type: ['array', 'null'], items: STRING },
+    guid: STRING
+  },
+  required: ['order_id', 'status', 'tradingsymbol', 'exchange', 'transaction_type', 'order_type', 'product', 'quantity']
+};
+
+export interface Trade {
+  trade_id: string;
+  order_id: string;
+  exchange_order_id?: string | null;
+  tradingsymbol: string;
+  exchange: string;
+  instrument_token?: number;
+  transaction_type: string;
+  product: string;
+  average_price: number;
+  quantity: number;
+  fill_timestamp?: string | Date | null;
+  order_timestamp?: string | Date | null;
+  exchange_timestamp?: string | Date | null;
+}
+
+export const TRADE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    trade_id: STRING,
+    order_id: STRING,
+    exchange_order_id: NULLABLE_STRING,
+    tradingsymbol: STRING,
+    exchange: STRING,
+    instrument_token: NUMBER,
+    transaction_type: STRING,
+    product: STRING,
+    average_price: NUMBER,
+    quantity: NUMBER,
+    fill_timestamp: NULLABLE_STRING,
+    order_timestamp: NULLABLE_STRING,
+    exchange_timestamp: NULLABLE_STRING
+  },
+  required: ['trade_id', 'order_id', 'tradingsymbol', 'exchange', 'transaction_type', 'product', 'average_price', 'quantity']
+};
+
+export interface OHLC {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+const OHLC_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { open: NUMBER, high: NUMBER, low: NUMBER, close: NUMBER },
+  required: ['open', 'high', 'low', 'close']
+};
+
+export interface DepthLevel {
+  price: number;
+  quantity: number;
+  orders: number;
+}
+
+const DEPTH_SIDE_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: { price: NUMBER, quantity: NUMBER, orders: NUMBER }
+  }
+};
+
+export interface LTPQuote {
+  instrument_token: number;
+  last_price: number;
+}
+
+export const LTP_QUOTE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    instrument_token: NUMBER,
+    last_price: NUMBER
+  },
+  required: ['instrument_token', 'last_price']
+};
+
+export interface OHLCQuote extends LTPQuote {
+  ohlc: OHLC;
+}
+
+export const OHLC_QUOTE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    ...LTP_QUOTE_SCHEMA.properties,
+    ohlc: OHLC_SCHEMA
+  },
+  required: ['instrument_token', 'last_price', 'ohlc']
+};
+
+export interface Quote extends OHLCQuote {
+  timestamp?: string | Date | null;
+  last_trade_time?: string | Date | null;
+  last_quantity?: number;
+  average_price?: number;
+  volume?: number;
+  buy_quantity?: number;
+  sell_quantity?: number;
+  net_change?: number;
+  oi?: number;
+  oi_day_high?: number;
+  oi_day_low?: number;
+  lower_circuit_limit?: number;
+  upper_circuit_limit?: number;
+  depth?: { buy: DepthLevel[]; sell: DepthLevel[] };
+}
+
+export const QUOTE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    ...OHLC_QUOTE_SCHEMA.properties,
+    timestamp: NULLABLE_STRING,
+    last_trade_time: NULLABLE_STRING,
+    last_quantity: NUMBER,
+    average_price: NUMBER,
+    volume: NUMBER,
+    buy_quantity: NUMBER,
+    sell_quantity: NUMBER,
+    net_change: NUMBER,
+    oi: NUMBER,
+    oi_day_high: NUMBER,
+    oi_day_low: NUMBER,
+    lower_circuit_limit: NUMBER,
+    upper_circuit_limit: NUMBER,
+    depth: {
+      type: 'object',
+      properties: { buy: DEPTH_SIDE_SCHEMA, sell: DEPTH_SIDE_SCHEMA }
+    }
+  },
+  required: ['instrument_token', 'last_price', 'ohlc']
+};
+
+/**
+ * Quotes keyed by instrument (EXCHANGE:SYMBOL)
+ */
+export function quoteMapSchema(quoteSchema: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    description: 'Keyed by instrument (EXCHANGE:SYMBOL)',
+    additionalProperties: quoteSchema
+  };
+}
+
+export interface SegmentMargin {
+  enabled: boolean;
+  net: number;
+  available: {
+    adhoc_margin?: number;
+    cash?: number;
+    opening_balance?: number;
+    live_balance?: number;
+    collateral?: number;
+    intraday_payin?: number;
+  };
+  utilised: {
+    debits?: number;
+    exposure?: number;
+    m2m_realised?: number;
+    m2m_unrealised?: number;
+    option_premium?: number;
+    payout?: number;
+    span?: number;
+    holding_sales?: number;
+    turnover?: number;
+    liquid_collateral?: number;
+    stock_collateral?: number;
+    delivery?: number;
+  };
+}
+
+const SEGMENT_MARGIN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    enabled: BOOLEAN,
+    net: NUMBER,
+    available: {
+      type: 'object',
+      properties: {
+        adhoc_margin: NUMBER,
+        cash: NUMBER,
+        opening_balance: NUMBER,
+        live_balance: NUMBER,
+        collateral: NUMBER,
+        intraday_payin: NUMBER
+      },
+      required: ['cash', 'live_balance']
+    },
+    utilised: {
+      type: 'object',
+      properties: {
+        debits: NUMBER,
+        exposure: NUMBER,
+        m2m_realised: NUMBER,
+        m2m_unrealised: NUMBER,
+        option_premium: NUMBER,
+        payout: NUMBER,
+        span: NUMBER,
+        holding_sales: NUMBER,
+        turnover: NUMBER,
+        liquid_collateral: NUMBER,
+        stock_collateral: NUMBER,
+        delivery: NUMBER
+      },
+      required: ['debits']
+    }
+  },
+  required: ['enabled', 'net', 'available', 'utilised']
+};
+
+export interface Margins {
+  equity?: SegmentMargin;
+  commodity?: SegmentMargin;
+}
+
+export const MARGINS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    equity: SEGMENT_MARGIN_SCHEMA,
+    commodity: SEGMENT_MARGIN_SCHEMA
+  },
+  required: ['equity']
+};
+
+/**
+ * A row of Kite's instrument dump. kiteconnect parses prices and sizes but leaves tokens as
+ * strings, and turns the expiry into a Date when there is one.
+ */
+export interface Instrument {
+  instrument_token: string | number;
+  exchange_token: string | number;
+  tradingsymbol: string;
+  name: string;
+  last_price?: number;
+  expiry?: string | Date;
+  strike?: number;
+  tick_size: number;
+  lot_size: number;
+  instrument_type: string;
+  segment: string;
+  exchange: string;
+}
+
+export const INSTRUMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    instrument_token: { type: ['string', 'number'] },
+    exchange_token: { type: ['string', 'number'] },
+    tradingsymbol: STRING,
+    name: STRING,
+    last_price: NUMBER,
+    expiry: STRING,
+    strike: NUMBER,
+    tick_size: NUMBER,
+    lot_size: NUMBER,
+    instrument_type: STRING,
+    segment: STRING,
+    exchange: STRING
+  },
+  required: ['instrument_token', 'tradingsymbol', 'exchange', 'segment', 'instrument_type', 'tick_size', 'lot_size']
+};
+
+/**
+ * An instrument as kept by the instrument store: tokens as numbers and the expiry as YYYY-MM-DD
+ */
+export const INSTRUMENT_RECORD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    instrument_token: NUMBER,
+    exchange_token: NUMBER,
+    tradingsymbol: STRING,
+    name: STRING,
+    exchange: STRING,
+    segment: STRING,
+    instrument_type: STRING,
+    expiry: NULLABLE_STRING,
+    strike: NUMBER,
+    tick_size: NUMBER,
+    lot_size: NUMBER
+  },
+  required: ['instrument_token', 'tradingsymbol', 'exchange']
+};
+
+export interface Candle {
+  date: string | Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  oi?: number;
+}
+
+export const CANDLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    date: STRING,
+    open: NUMBER,
+    high: NUMBER,
+    low: NUMBER,
+    close: NUMBER,
+    volume: NUMBER,
+    oi: NUMBER
+  },
+  required: ['date', 'open', 'high', 'low', 'close', 'volume']
+};
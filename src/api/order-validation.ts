@@ -0,0 +1,254 @@
+import type { OrderParams, OrderVariety } from './kite-client.js';
+import type { FieldError } from './schema.js';
+
+export const EXCHANGES = ['NSE', 'BSE', 'NFO', 'BFO', 'CDS', 'MCX'] as const;
+export const TRANSACTION_TYPES = ['BUY', 'SELL'] as const;
+export const ORDER_TYPES = ['MARKET', 'LIMIT', 'SL', 'SL-M'] as const;
+export const PRODUCTS = ['NRML', 'MIS', 'CNC'] as const;
+export const VALIDITIES = ['DAY', 'IOC', 'TTL'] as const;
+export const VARIETIES = ['regular', 'amo', 'co', 'iceberg', 'auction'] as const;
+
+// Exchanges where CNC (delivery) is available; derivatives and commodities use NRML or MIS
+export const DELIVERY_EXCHANGES = ['NSE', 'BSE'] as const;
+
+export const ICEBERG_MIN_LEGS = 2;
+export const ICEBERG_MAX_LEGS = 50;
+export const TTL_MAX_MINUTES = 1440;
+
+// Exchange session in IST minutes since midnight; AMOs are only accepted outside it.
+// The window starts at 09:00 to include the pre-open session.
+const MARKET_OPEN_MINUTES = 9 * 60;
+const MARKET_CLOSE_MINUTES = 15 * 60 + 30;
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+// Kite order tags are alphanumeric, up to 20 characters
+const TAG_PATTERN = /^[a-zA-Z0-9]{1,20}$/;
+
+export interface OrderValidationOptions {
+  /**
+   * Only check the fields that are present (used when modifying an existing order)
+   */
+  partial?: boolean;
+  /**
+   * Order variety whose rules to apply (defaults to regular)
+   */
+  variety?: OrderVariety;
+  /**
+   * Whether to reject AMOs during market hours (defaults to true)
+   */
+  checkMarketHours?: boolean;
+  /**
+   * Clock used for the AMO market-hours check
+   */
+  now?: Date;
+}
+
+/**
+ * Whether a value is one of a constant list, narrowing it to the list's element type
+ */
+export function isOneOf<T extends string>(list: readonly T[], value: unknown): value is T {
+  return (list as readonly unknown[]).includes(value);
+}
+
+/**
+ * Check whether the exchange is in session (Monday to Friday, 09:00-15:30 IST; holidays are not considered)
+ */
+export function isMarketHours(now: Date = new Date()): boolean {
+  const ist = new Date(now.getTime() + IST_OFFSET_MS);
+  const day = ist.getUTCDay();
+  if (day === 0 || day === 6) {
+    return false;
+  }
+
+  const minutes = ist.getUTCHours() * 60 + ist.getUTCMinutes();
+  return minutes >= MARKET_OPEN_MINUTES && minutes < MARKET_CLOSE_MINUTES;
+}
+
+/**
+ * Validate order parameters and return a list of human-readable violations (empty when valid)
+ */
+export function validateOrderParams(params: Partial<OrderParams>, options: OrderValidationOptions = {}): string[] {
+  return findOrderErrors(params, options).map(error => error.message);
+}
+
+/**
+ * Validate order parameters and return the violations with the field each one concerns
+ */
+export function findOrderErrors(params: Partial<OrderParams>, options: OrderValidationOptions = {}): FieldError[] {
+  const errors: FieldError[] = [];
+  const partial = options.partial ?? false;
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  const checkEnum = (field: keyof OrderParams, allowed: readonly string[]) => {
+    const value = params[field];
+    if (value === undefined) {
+      if (!partial) fail(field, `${field} is required`);
+      return;
+    }
+    if (!allowed.includes(String(value))) {
+      fail(field, `${field} must be one of ${allowed.join(', ')} (got ${value})`);
+    }
+  };
+
+  checkEnum('exchange', EXCHANGES);
+  checkEnum('transaction_type', TRANSACTION_TYPES);
+  checkEnum('order_type', ORDER_TYPES);
+  checkEnum('product', PRODUCTS);
+
+  if (params.validity !== undefined && !isOneOf(VALIDITIES, params.validity)) {
+    fail('validity', `validity must be one of ${VALIDITIES.join(', ')} (got ${params.validity})`);
+  }
+
+  if (params.tradingsymbol === undefined) {
+    if (!partial) fail('tradingsymbol', 'tradingsymbol is required');
+  } else if (typeof params.tradingsymbol !== 'string' || params.tradingsymbol.trim() === '') {
+    fail('tradingsymbol', 'tradingsymbol must be a non-empty string');
+  }
+
+  if (params.quantity === undefined) {
+    if (!partial) fail('quantity', 'quantity is required');
+  } else if (!Number.isInteger(params.quantity) || params.quantity <= 0) {
+    fail('quantity', `quantity must be a positive integer (got ${params.quantity})`);
+  }
+
+  if (params.price !== undefined && !(typeof params.price === 'number' && params.price > 0)) {
+    fail('price', `price must be a positive number (got ${params.price})`);
+  }
+
+  if (params.trigger_price !== undefined && !(typeof params.trigger_price === 'number' && params.trigger_price > 0)) {
+    fail('trigger_price', `trigger_price must be a positive number (got ${params.trigger_price})`);
+  }
+
+  if (params.disclosed_quantity !== undefined) {
+    if (!Number.isInteger(params.disclosed_quantity) || params.disclosed_quantity < 0) {
+      fail('disclosed_quantity', `disclosed_quantity must be a non-negative integer (got ${params.disclosed_quantity})`);
+    } else if (params.quantity !== undefined && params.disclosed_quantity > params.quantity) {
+      fail('disclosed_quantity', 'disclosed_quantity cannot exceed quantity');
+    }
+  }
+
+  if (params.tag !== undefined && !TAG_PATTERN.test(params.tag)) {
+    fail('tag', 'tag must be alphanumeric and at most 20 characters');
+  }
+
+  if (params.validity === 'TTL') {
+    const ttl = params.validity_ttl;
+    // Also required on a modification that switches an order to TTL
+    if (ttl === undefined) {
+      fail('validity_ttl', 'validity_ttl (minutes) is required for TTL validity');
+    } else if (!Number.isInteger(ttl) || ttl < 1 || ttl > TTL_MAX_MINUTES) {
+      fail('validity_ttl', `validity_ttl must be an integer between 1 and ${TTL_MAX_MINUTES} minutes (got ${ttl})`);
+    }
+  } else if (params.validity_ttl !== undefined && params.validity !== undefined) {
+    fail('validity_ttl', 'validity_ttl is only allowed with TTL validity');
+  }
+
+  // Conditional rules only make sense when the full order is known
+  if (!partial) {
+    if ((params.order_type === 'LIMIT' || params.order_type === 'SL') && params.price === undefined) {
+      fail('price', `price is required for ${params.order_type} orders`);
+    }
+    if ((params.order_type === 'SL' || params.order_type === 'SL-M') && params.trigger_price === undefined) {
+      fail('trigger_price', `trigger_price is required for ${params.order_type} orders`);
+    }
+  }
+
+  if (params.product === 'CNC' && isOneOf(EXCHANGES, params.exchange) && !isOneOf(DELIVERY_EXCHANGES, params.exchange)) {
+    fail('product', `CNC is only available on ${DELIVERY_EXCHANGES.join(' and ')}; use NRML or MIS on ${params.exchange}`);
+  }
+
+  errors.push(...validateVarietyRules(params, options));
+
+  return errors;
+}
+
+/**
+ * Rules specific to an order variety
+ */
+function validateVarietyRules(params: Partial<OrderParams>, options: OrderValidationOptions): FieldError[] {
+  const errors: FieldError[] = [];
+  const variety = options.variety ?? 'regular';
+  const partial = options.partial ?? false;
+  const fail = (field: string, message: string) => errors.push({ field, message });
+
+  if (!VARIETIES.includes(variety)) {
+    return [{ field: 'variety', message: `variety must be one of ${VARIETIES.join(', ')} (got ${variety})` }];
+  }
+
+  switch (variety) {
+    case 'amo':
+      // Modifying a pending AMO is allowed at any time; only new AMOs are restricted
+      if (!partial && options.checkMarketHours !== false && isMarketHours(options.now)) {
+        fail('variety', 'AMO orders can only be placed outside market hours (09:00-15:30 IST). Use the regular variety instead');
+      }
+      break;
+
+    case 'co':
+      if (params.product !== undefined && params.product !== 'MIS') {
+        fail('product', 'cover orders (co) must use MIS product');
+      }
+      if (params.order_type !== undefined && params.order_type !== 'MARKET' && params.order_type !== 'LIMIT') {
+        fail('order_type', 'cover orders (co) must be MARKET or LIMIT');
+      }
+      if (!partial && params.trigger_price === undefined) {
+        fail('trigger_price', 'trigger_price (stop-loss) is required for cover orders');
+      }
+      break;
+
+    case 'iceberg': {
+      const { iceberg_legs: legs, iceberg_quantity: legQuantity, quantity } = params;
+      if (params.order_type !== undefined && params.order_type !== 'LIMIT' && params.order_type !== 'SL') {
+        fail('order_type', 'iceberg orders must be LIMIT or SL');
+      }
+      if (legs === undefined) {
+        if (!partial) fail('iceberg_legs', 'iceberg_legs is required for iceberg orders');
+      } else if (!Number.isInteger(legs) || legs < ICEBERG_MIN_LEGS || legs > ICEBERG_MAX_LEGS) {
+        fail('iceberg_legs', `iceberg_legs must be an integer between ${ICEBERG_MIN_LEGS} and ${ICEBERG_MAX_LEGS} (got ${legs})`);
+      }
+      if (legQuantity === undefined) {
+        if (!partial) fail('iceberg_quantity', 'iceberg_quantity is required for iceberg orders');
+      } else if (!Number.isInteger(legQuantity) || legQuantity <= 0) {
+        fail('iceberg_quantity', `iceberg_quantity must be a positive integer (got ${legQuantity})`);
+      } else if (quantity !== undefined && legs !== undefined) {
+        if (legQuantity * legs < quantity) {
+          fail('iceberg_quantity', `iceberg_quantity x iceberg_legs (${legQuantity * legs}) must cover quantity (${quantity})`);
+        }
+        if (legQuantity >= quantity) {
+          fail('iceberg_quantity', 'iceberg_quantity must be less than the total quantity');
+        }
+      }
+      break;
+    }
+
+    case 'auction':
+      if (!partial && !params.auction_number) {
+        fail('auction_number', 'auction_number is required for auction orders');
+      }
+      if (params.order_type !== undefined && params.order_type !== 'LIMIT') {
+        fail('order_type', 'auction orders must be LIMIT');
+      }
+      if (params.product !== undefined && params.product !== 'CNC') {
+        fail('product', 'auction orders must use CNC product');
+      }
+      break;
+  }
+
+  if (variety !== 'iceberg' && (params.iceberg_legs !== undefined || params.iceberg_quantity !== undefined)) {
+    fail(params.iceberg_legs !== undefined ? 'iceberg_legs' : 'iceberg_quantity', 'iceberg_legs and iceberg_quantity are only allowed for iceberg orders');
+  }
+  if (variety !== 'auction' && params.auction_number !== undefined) {
+    fail('auction_number', 'auction_number is only allowed for auction orders');
+  }
+
+  return errors;
+}
+
+/**
+ * Throw if the order parameters are invalid
+ */
+export function assertValidOrderParams(params: Partial<OrderParams>, options: OrderValidationOptions = {}): void {
+  const errors = validateOrderParams(params, options);
+  if (errors.length > 0) {
+    throw new Error(`Invalid order parameters: ${errors.join('; ')}`);
+  }
+}
@@ -0,0 +1,112 @@
+import { ConfigManager, type ApiRequestClass } from '../config/environment.js';
+import { isRetryableKiteError } from './errors.js';
+
+/**
+ * Kite rate limit classes: order placement and changes, quote/LTP/OHLC, historical candles,
+ * and every other endpoint
+ */
+export type RequestClass = ApiRequestClass;
+
+export const REQUEST_CLASSES: readonly RequestClass[] = ['order', 'quote', 'historical', 'default'];
+
+// Requests per second Kite allows for each class
+export const DEFAULT_RATE_LIMITS: Record<RequestClass, number> = {
+  order: 10,
+  quote: 1,
+  historical: 3,
+  default: 10
+};
+
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+/**
+ * Token bucket holding up to one second of requests. Callers wait in arrival order.
+ */
+class TokenBucket {
+  private readonly ratePerSecond: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(ratePerSecond: number) {
+    this.ratePerSecond = ratePerSecond;
+    this.tokens = ratePerSecond;
+  }
+
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn;
+    return turn;
+  }
+
+  private async waitForToken(): Promise<void> {
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep((1 - this.tokens) / this.ratePerSecond * 1000);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.ratePerSecond, this.tokens + (now - this.refilledAt) / 1000 * this.ratePerSecond);
+    this.refilledAt = now;
+  }
+}
+
+/**
+ * Paces Kite API calls with a token bucket per rate limit class. Reads are retried with
+ * jittered exponential backoff on retryable errors (throttling, network failures and bad
+ * gateway responses); writes never are, since a request that timed out may still have been
+ * executed.
+ */
+export class RequestScheduler {
+  private readonly buckets = new Map<RequestClass, TokenBucket>();
+  private readonly maxRetries: number;
+
+  constructor(config: ConfigManager) {
+    const limits = { ...DEFAULT_RATE_LIMITS, ...config.getApiRateLimits() };
+    for (const requestClass of REQUEST_CLASSES) {
+      this.buckets.set(requestClass, new TokenBucket(limits[requestClass]));
+    }
+    this.maxRetries = config.getApiMaxRetries();
+  }
+
+  /**
+   * Run an idempotent request, retrying transient failures
+   */
+  async read<T>(requestClass: RequestClass, call: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.buckets.get(requestClass)!.take();
+      try {
+        return await call();
+      } catch (error) {
+        if (attempt >= this.maxRetries || !isRetryableKiteError(error)) {
+          throw error;
+        }
+        // Full jitter keeps concurrent retries from arriving together
+        const delay = Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+        console.error(`Kite ${requestClass} request failed (${describeError(error)}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1} of ${this.maxRetries})`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Run a request that changes state. It is paced but never retried.
+   */
+  async write<T>(requestClass: RequestClass, call: () => Promise<T>): Promise<T> {
+    await this.buckets.get(requestClass)!.take();
+    return await call();
+  }
+}
+
+function describeError(error: any): string {
+  return error?.message ?? String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,137 @@
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema used for Kite response models and tool output schemas
+ */
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  additionalProperties?: JsonSchema | boolean;
+  enum?: readonly unknown[];
+  anyOf?: JsonSchema[];
+}
+
+/**
+ * A problem with one field of a request, e.g. `price` or `orders[1].quantity`
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Problems already logged, so a changed field is reported once rather than on every call
+const reportedProblems = new Set<string>();
+
+/**
+ * Check a Kite response against its model and log a warning for each missing required field
+ * or unexpected type. The response is returned unchanged: a field the API renamed or dropped
+ * is reported instead of surfacing later as an unexplained undefined.
+ */
+export function checkModel<T>(model: string, schema: JsonSchema, value: unknown): T {
+  for (const problem of findSchemaProblems(schema, value, '')) {
+    const key = `${model}:${problem}`;
+    if (!reportedProblems.has(key)) {
+      reportedProblems.add(key);
+      console.error(`Warning: Kite ${model} response ${problem}. The API may have renamed or dropped the field.`);
+    }
+  }
+  return value as T;
+}
+
+/**
+ * Describe where a value departs from a schema. Array indexes are left out of the paths,
+ * so the same problem in many rows is one problem.
+ */
+export function findSchemaProblems(schema: JsonSchema, value: unknown, path: string): string[] {
+  if (schema.anyOf) {
+    const alternatives = schema.anyOf.map(option => findSchemaProblems(option, value, path));
+    return alternatives.some(problems => problems.length === 0) ? [] : alternatives[0] ?? [];
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      return [`has ${describeType(value)} at ${path || 'the top level'} where ${types.join(' or ')} was expected`];
+    }
+  }
+
+  const problems: string[] = [];
+  if (Array.isArray(value) && schema.items) {
+    for (const item of value) {
+      for (const problem of findSchemaProblems(schema.items, item, `${path}[]`)) {
+        if (!problems.includes(problem)) {
+          problems.push(problem);
+        }
+      }
+    }
+  } else if (isPlainObject(value)) {
+    for (const field of schema.required ?? []) {
+      if (value[field] === undefined) {
+        problems.push(`is missing ${joinPath(path, field)}`);
+      }
+    }
+    for (const [field, fieldValue] of Object.entries(value)) {
+      const fieldSchema = schema.properties?.[field]
+        ?? (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+      if (fieldSchema && fieldValue !== undefined) {
+        problems.push(...findSchemaProblems(fieldSchema, fieldValue, joinPath(path, field)));
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * The schema as a tool output schema. Required fields are dropped: the client rejects results
+ * that do not match, and a field Kite stops sending is logged by checkModel instead.
+ */
+export function toOutputSchema(schema: JsonSchema): JsonSchema {
+  const { required, properties, items, additionalProperties, anyOf, ...rest } = schema;
+  return {
+    ...rest,
+    ...(properties ? {
+      properties: Object.fromEntries(Object.entries(properties).map(([field, fieldSchema]) => [field, toOutputSchema(fieldSchema)]))
+    } : {}),
+    ...(items ? { items: toOutputSchema(items) } : {}),
+    ...(typeof additionalProperties === 'object' ? { additionalProperties: toOutputSchema(additionalProperties) } : {}),
+    ...(additionalProperties === false ? { additionalProperties } : {}),
+    ...(anyOf ? { anyOf: anyOf.map(toOutputSchema) } : {})
+  };
+}
+
+function matchesType(type: JsonType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      // kiteconnect turns order and trade timestamps into Dates; they serialise as strings
+      return typeof value === 'string' || value instanceof Date;
+    case 'number':
+      return typeof value === 'number';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
+
+function joinPath(path: string, field: string): string {
+  return path ? `${path}.${field}` : field;
+}
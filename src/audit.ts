@@ -0,0 +1,49 @@
+#!/usr/bin/env bun
+
+import { ConfigManager } from './config/environment.js';
+import { AuditLog } from './audit/audit-log.js';
+
+function verify() {
+  console.log('🔎 Kite MCP Audit Log Verification');
+  console.log('==================================');
+
+  try {
+    const config = new ConfigManager();
+    const auditLog = new AuditLog(config);
+    const result = auditLog.verify();
+
+    if (result.files.length === 0) {
+      console.log(`No audit log found at ${config.getAuditLogFile()}`);
+      return;
+    }
+
+    for (const { file, records } of result.files) {
+      console.log(`📄 ${file}: ${records} records`);
+    }
+    console.log('');
+
+    if (!result.valid) {
+      console.log(`❌ Chain broken in ${result.error!.file} at line ${result.error!.line}:`);
+      console.log(`   ${result.error!.message}`);
+      console.log('   The file has been edited, or records were removed or reordered, after they were written.');
+      process.exit(1);
+    }
+
+    if (result.records === 0) {
+      console.log('✅ Audit log is empty');
+      return;
+    }
+
+    console.log(`✅ Chain intact: ${result.records} records, ${result.first_seq} to ${result.last_seq}`);
+    if (!result.anchored) {
+      console.log(`ℹ️  The oldest record follows records removed by retention, so the chain is checked from record ${result.first_seq}`);
+    }
+  } catch (error) {
+    console.error('');
+    console.error('❌ Verification failed:');
+    console.error('  ', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+verify();
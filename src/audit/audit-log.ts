@@ -0,0 +1,459 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../config/environment.js';
+
+export type AuditOutcome = 'success' | 'tool_error' | 'error' | 'confirmation_required';
+
+export const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'tool_error', 'error', 'confirmation_required'];
+
+/**
+ * One tool call as reported by the session
+ */
+export interface AuditEntry {
+  timestamp: string;
+  session_id: string;
+  client: { name: string; version: string } | null;
+  // Account the call was routed to, or null when no account is authenticated
+  account: string | null;
+  tool: string;
+  arguments: Record<string, unknown>;
+  // Instruments the arguments refer to, as EXCHANGE:SYMBOL where the exchange is known
+  symbols: string[];
+  outcome: AuditOutcome;
+  error?: string;
+  // Hash of the confirmation token, shared by a preview and the call that redeemed it
+  confirmation_id?: string;
+  order_ids: string[];
+  simulated: boolean;
+  latency_ms: number;
+}
+
+/**
+ * An entry as stored: numbered and chained to the previous record by its hash
+ */
+export interface AuditRecord extends AuditEntry {
+  seq: number;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  // Date (YYYY-MM-DD, a whole IST day) or ISO timestamp
+  from?: string;
+  to?: string;
+  tool?: string;
+  // Trading symbol, with or without the exchange prefix
+  symbol?: string;
+  outcome?: AuditOutcome;
+  limit?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  records: number;
+  files: { file: string; records: number }[];
+  first_seq?: number;
+  last_seq?: number;
+  // False when the oldest record follows records removed by retention, so the chain start cannot be checked
+  anchored: boolean;
+  error?: { file: string; line: number; message: string };
+}
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+const GENESIS_HASH = '0'.repeat(64);
+const IST_OFFSET = '+05:30';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOCK_TIMEOUT_MS = 5000;
+// A lock older than this was left behind by a process that died while appending
+const STALE_LOCK_MS = 30 * 1000;
+const TAIL_CHUNK_BYTES = 64 * 1024;
+
+// Argument names whose values are never written to the audit log
+const REDACTED_ARGUMENTS = new Set([
+  'confirmation_token',
+  'request_token',
+  'access_token',
+  'refresh_token',
+  'api_key',
+  'api_secret',
+  'password',
+  'pin',
+  'totp',
+  'passphrase'
+]);
+
+/**
+ * Append-only JSONL log of tool calls. Each record carries the SHA-256 hash of its content and
+ * the previous record's hash, so editing, removing or reordering records breaks the chain.
+ * The active file is rotated when it reaches the size limit, and rotated files older than the
+ * retention period are deleted. The chain continues across rotated files. Several servers can
+ * share a log: each append takes a lock file and chains onto the record last written by any of them.
+ */
+export class AuditLog {
+  private readonly file: string;
+  private readonly maxBytes: number;
+  private readonly retentionDays: number;
+  private readonly lockFile: string;
+  private pruned = false;
+
+  constructor(config: ConfigManager) {
+    this.file = config.getAuditLogFile();
+    this.maxBytes = config.getAuditLogMaxSizeMb() * 1024 * 1024;
+    this.retentionDays = config.getAuditLogRetentionDays();
+    this.lockFile = `${this.file}.lock`;
+  }
+
+  /**
+   * Sequence number and hash of the last record in the log. Read on every append, since
+   * another server may have appended since.
+   */
+  private readHead(): { seq: number; hash: string } {
+    const newest = this.listFiles().reverse().find(file => fs.statSync(file).size > 0);
+    if (!newest) {
+      return { seq: 0, hash: GENESIS_HASH };
+    }
+
+    try {
+      const last = JSON.parse(readLastLine(newest)) as AuditRecord;
+      return { seq: last.seq, hash: last.hash };
+    } catch (error) {
+      throw new Error(`Failed to read the last record of ${newest}: ${error instanceof Error ? error.message : 'Unknown error'}. Check it with: bun run audit:verify`);
+    }
+  }
+
+  /**
+   * Chain and append an entry, rotating the active file first when it is full
+   */
+  append(entry: AuditEntry): AuditRecord {
+    const logDir = path.dirname(this.file);
+    if (!fs.existsSync(logDir)) {
+      fs.mkdirSync(logDir, { recursive: true });
+    }
+
+    const release = this.lock();
+    try {
+      if (!this.pruned) {
+        this.prune();
+        this.pruned = true;
+      }
+
+      const head = this.readHead();
+      const unhashed = { seq: head.seq + 1, ...entry, prev_hash: head.hash };
+      const record: AuditRecord = { ...unhashed, hash: hashRecord(unhashed) };
+      const line = JSON.stringify(record) + '\n';
+
+      try {
+        this.rotateIfFull(Buffer.byteLength(line));
+        fs.appendFileSync(this.file, line, { mode: 0o600 });
+      } catch (error) {
+        throw new Error(`Failed to write audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      return record;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Take the lock file that serialises appends across processes, and return its release.
+   * Appends are synchronous and short, so waiting blocks briefly rather than yielding.
+   */
+  private lock(): () => void {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    const sleeper = new Int32Array(new SharedArrayBuffer(4));
+
+    while (true) {
+      try {
+        fs.closeSync(fs.openSync(this.lockFile, 'wx', 0o600));
+        return () => fs.rmSync(this.lockFile, { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new Error(`Failed to lock audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      try {
+        if (Date.now() - fs.statSync(this.lockFile).mtimeMs > STALE_LOCK_MS) {
+          console.error(`Removing stale audit log lock ${this.lockFile}`);
+          fs.rmSync(this.lockFile, { force: true });
+          continue;
+        }
+      } catch {
+        // Released between the attempt and the check
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the audit log lock ${this.lockFile}`);
+      }
+      Atomics.wait(sleeper, 0, 0, 10);
+    }
+  }
+
+  /**
+   * Records matching the filter, newest first
+   */
+  query(filter: AuditQuery = {}): { matched: number; records: AuditRecord[] } {
+    const from = filter.from ? parseAuditDate(filter.from, false) : undefined;
+    const to = filter.to ? parseAuditDate(filter.to, true) : undefined;
+    const symbol = filter.symbol?.trim().toUpperCase();
+    const limit = Math.min(filter.limit ?? DEFAULT_AUDIT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT);
+
+    const matches = this.readRecords().filter(record => {
+      const time = Date.parse(record.timestamp);
+      return (from === undefined || time >= from)
+        && (to === undefined || time < to)
+        && (!filter.tool || record.tool === filter.tool)
+        && (!filter.outcome || record.outcome === filter.outcome)
+        && (!symbol || record.symbols.some(s => s.toUpperCase() === symbol || s.toUpperCase().endsWith(`:${symbol}`)));
+    });
+
+    return { matched: matches.length, records: matches.reverse().slice(0, limit) };
+  }
+
+  /**
+   * Recompute every hash and check each record follows the one before it
+   */
+  verify(): AuditVerification {
+    const result: AuditVerification = { valid: true, records: 0, files: [], anchored: true };
+    let previous: AuditRecord | null = null;
+
+    for (const file of this.listFiles()) {
+      const lines = fs.readFileSync(file, 'utf-8').split('\n');
+      let count = 0;
+
+      for (const [index, line] of lines.entries()) {
+        if (!line.trim()) {
+          continue;
+        }
+        const fail = (message: string): AuditVerification => {
+          result.files.push({ file, records: count });
+          return { ...result, valid: false, error: { file, line: index + 1, message } };
+        };
+
+        let record: AuditRecord;
+        try {
+          record = JSON.parse(line) as AuditRecord;
+        } catch {
+          return fail('Line is not valid JSON');
+        }
+
+        const { hash, ...unhashed } = record;
+        if (hashRecord(unhashed) !== hash) {
+          return fail(`Record ${record.seq} does not match its hash`);
+        }
+        if (previous) {
+          if (record.prev_hash !== previous.hash) {
+            return fail(`Record ${record.seq} does not follow record ${previous.seq}: previous hash mismatch`);
+          }
+          if (record.seq !== previous.seq + 1) {
+            return fail(`Record ${record.seq} follows record ${previous.seq}: records are missing or reordered`);
+          }
+        } else {
+          result.first_seq = record.seq;
+          result.anchored = record.seq === 1 && record.prev_hash === GENESIS_HASH;
+        }
+
+        previous = record;
+        count++;
+        result.records++;
+        result.last_seq = record.seq;
+      }
+
+      result.files.push({ file, records: count });
+    }
+
+    return result;
+  }
+
+  /**
+   * Rotated files, oldest first, followed by the active file when it exists
+   */
+  listFiles(): string[] {
+    const dir = path.dirname(this.file);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    const { name, ext } = path.parse(this.file);
+    const rotated = fs.readdirSync(dir)
+      .filter(entry => entry.startsWith(`${name}.`) && entry.endsWith(ext) && entry !== path.basename(this.file))
+      .sort()
+      .map(entry => path.join(dir, entry));
+
+    return fs.existsSync(this.file) ? [...rotated, this.file] : rotated;
+  }
+
+  private readRecords(): AuditRecord[] {
+    return this.listFiles().flatMap(file =>
+      fs.readFileSync(file, 'utf-8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as AuditRecord)
+    );
+  }
+
+  /**
+   * Rename the active file to one stamped with the rotation time, which sorts in log order
+   */
+  private rotateIfFull(incomingBytes: number): void {
+    if (this.maxBytes <= 0 || !fs.existsSync(this.file)) {
+      return;
+    }
+    const size = fs.statSync(this.file).size;
+    if (size === 0 || size + incomingBytes <= this.maxBytes) {
+      return;
+    }
+
+    const { dir, name, ext } = path.parse(this.file);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    fs.renameSync(this.file, path.join(dir, `${name}.${stamp}${ext}`));
+    this.prune();
+  }
+
+  /**
+   * Delete rotated files last written before the retention period. The active file is kept.
+   */
+  private prune(): void {
+    if (this.retentionDays <= 0) {
+      return;
+    }
+
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    for (const file of this.listFiles()) {
+      if (file !== this.file && fs.statSync(file).mtimeMs < cutoff) {
+        fs.unlinkSync(file);
+        console.error(`Audit log ${file} deleted after ${this.retentionDays} days`);
+      }
+    }
+  }
+}
+
+/**
+ * Replace the values of sensitive arguments, at any depth
+ */
+export function redactArguments(value: unknown): any {
+  if (Array.isArray(value)) {
+    return value.map(redactArguments);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, REDACTED_ARGUMENTS.has(key.toLowerCase()) ? '[REDACTED]' : redactArguments(item)]
+    ));
+  }
+  return value;
+}
+
+/**
+ * Instruments named in tool arguments: tradingsymbol fields (with the exchange from the same
+ * object or its parent) and instrument or instruments values, e.g. NSE:INFY
+ */
+export function extractSymbols(args: unknown): string[] {
+  const symbols = new Set<string>();
+
+  const visit = (value: unknown, exchange: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(item => visit(item, exchange));
+      return;
+    }
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    const ownExchange = typeof record.exchange === 'string' ? record.exchange : exchange;
+    if (typeof record.tradingsymbol === 'string') {
+      symbols.add(typeof ownExchange === 'string' ? `${ownExchange}:${record.tradingsymbol}` : record.tradingsymbol);
+    }
+    for (const key of ['instrument', 'instruments']) {
+      for (const instrument of [record[key]].flat()) {
+        if (typeof instrument === 'string') {
+          symbols.add(instrument);
+        }
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (typeof item === 'object') {
+        visit(item, key === 'orders' ? ownExchange : undefined);
+      }
+    }
+  };
+
+  visit(args, undefined);
+  return [...symbols];
+}
+
+/**
+ * Kite order IDs a call acted on: the order_id argument, and the order_id of a single order result
+ */
+export function findOrderIds(args: Record<string, unknown> | undefined, result: unknown): string[] {
+  const singleResult = result && typeof result === 'object' && !Array.isArray(result)
+    ? (result as Record<string, unknown>)
+    : undefined;
+
+  const ids = new Set<string>();
+  for (const value of [args?.order_id, singleResult?.order_id]) {
+    if (typeof value === 'string' || typeof value === 'number') {
+      ids.add(String(value));
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * Identifier of a confirmation token that can be logged without making the token redeemable
+ */
+export function confirmationId(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+/**
+ * The last non-empty line of a file, read from the end in growing chunks so large logs are not
+ * read whole
+ */
+function readLastLine(file: string): string {
+  const fd = fs.openSync(file, 'r');
+  try {
+    const size = fs.fstatSync(fd).size;
+    let length = Math.min(size, TAIL_CHUNK_BYTES);
+    while (true) {
+      const buffer = Buffer.alloc(length);
+      fs.readSync(fd, buffer, 0, length, size - length);
+      const lines = buffer.toString('utf-8').split('\n').filter(line => line.trim());
+      // The first line of a partial read may be cut off, so it only counts when the whole file was read
+      if (lines.length > 1 || length === size) {
+        return lines[lines.length - 1] ?? '';
+      }
+      length = Math.min(size, length * 2);
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function hashRecord(unhashed: Omit<AuditRecord, 'hash'>): string {
+  return crypto.createHash('sha256').update(JSON.stringify(unhashed)).digest('hex');
+}
+
+/**
+ * Parse a query bound into a time in milliseconds, exclusive for the end bound. A bare date
+ * covers the whole IST day, so it is inclusive at both ends.
+ */
+export function parseAuditDate(value: string, end: boolean): number {
+  const text = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    const start = Date.parse(`${text}T00:00:00${IST_OFFSET}`);
+    if (!isNaN(start)) {
+      return end ? start + DAY_MS : start;
+    }
+  }
+
+  const time = Date.parse(text);
+  if (isNaN(time)) {
+    throw new Error(`Invalid date "${value}". Use YYYY-MM-DD or an ISO timestamp.`);
+  }
+  return end ? time + 1 : time;
+}
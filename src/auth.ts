@@ -8,23 +8,34 @@ async function authenticate() {
   console.log('🪁 Kite API Authentication');
   console.log('==========================');
 
+  // --add logs in another account even when every stored account is authenticated
+  const addAccount = process.argv.slice(2).includes('--add');
+
   try {
     // Initialize dependencies
     const config = new ConfigManager();
-    const tokenManager = new TokenManager();
+    const tokenManager = new TokenManager(config);
     const oauthServer = new OAuthServer(config, tokenManager);
 
     // Check if already authenticated
-    if (tokenManager.isTokenValid()) {
-      const tokenData = tokenManager.getValidTokenData();
+    const accountIds = tokenManager.getAccountIds();
+    const expired = accountIds.filter(id => !tokenManager.isTokenValid(id));
+    if (!addAccount && accountIds.length > 0 && expired.length === 0) {
       console.log('✅ Already authenticated!');
-      console.log(`👤 User: ${tokenData?.user_name || tokenData?.user_id}`);
-      console.log(`📅 Token generated: ${tokenData?.generated_at}`);
+      for (const id of accountIds) {
+        const tokenData = tokenManager.loadToken(id);
+        console.log(`👤 ${tokenData?.user_name || id} (${id})${id === tokenManager.getDefaultAccountId() ? ' [default]' : ''}, token generated ${tokenData?.generated_at}`);
+      }
       console.log('');
-      console.log('If you want to re-authenticate, delete the access_token.json file first.');
+      console.log('To add another account, run: bun run auth --add');
       return;
     }
 
+    if (expired.length > 0 && !addAccount) {
+      console.log(`⌛ Expired tokens: ${expired.join(', ')}. Log in with the account to renew it.`);
+      console.log('');
+    }
+
     // Start OAuth flow
     console.log(`🚀 Starting OAuth server on port ${config.getOAuthPort()}`);
     console.log('');
@@ -46,11 +57,11 @@ async function authenticate() {
 
     console.log('');
     console.log('✅ Authentication successful!');
-    console.log(`👤 Welcome, ${tokenData.user_name || tokenData.user_id}!`);
-    console.log(`💾 Token saved to: ${tokenManager.getTokenFilePath()}`);
+    console.log(`👤 Welcome, ${tokenData.user_name || tokenData.user_id}! Account ${tokenData.user_id} saved${tokenManager.getDefaultAccountId() === tokenData.user_id ? ' as the default account' : ''}.`);
+    console.log(`💾 Token saved to: ${tokenManager.getStorageLocation()}`);
     console.log('');
     console.log('🎉 You can now use the Kite MCP server!');
-    console.log('   Start with: bun start');
+    console.log('   Start with: bun start (a running server picks up the new token automatically)');
 
   } catch (error) {
     console.error('');
@@ -0,0 +1,214 @@
+import { ConfigManager } from '../config/environment.js';
+import { TokenManager } from './token-manager.js';
+import { OAuthServer } from './oauth-server.js';
+import { AccountManager } from '../accounts/account-manager.js';
+
+export type AuthEvent =
+  | { type: 'login'; account: string; user_name?: string; token_expires_at: string; message: string }
+  | { type: 'login_failed'; message: string }
+  | { type: 'logout'; account: string; message: string }
+  | { type: 'token_expiring'; account: string; token_expires_at: string; minutes_left: number; message: string }
+  | { type: 'token_expired'; account: string; token_expires_at: string; message: string };
+
+export type AuthListener = (event: AuthEvent) => void;
+
+export interface LoginStatus {
+  login_url: string;
+  redirect_url: string;
+  // Whether a login started earlier is still waiting for its callback
+  already_pending: boolean;
+  started_at: string;
+  expires_at: string;
+}
+
+// OAuthServer gives up on the callback after five minutes
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Kite session lifecycle inside the running server: OAuth login without leaving the MCP
+ * client, logout, and warnings as tokens approach their 6 AM IST expiry
+ */
+export class LoginManager {
+  private readonly config: ConfigManager;
+  private readonly tokenManager: TokenManager;
+  private readonly accountManager: AccountManager;
+  private readonly warningMs: number;
+  private readonly listeners = new Set<AuthListener>();
+  // Expiry notices already sent, as "account:expires_at:type"
+  private readonly notified = new Set<string>();
+  private pending: { oauthServer: OAuthServer; startedAt: Date; loginUrl: string } | null = null;
+  private expiryTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: ConfigManager, tokenManager: TokenManager, accountManager: AccountManager) {
+    this.config = config;
+    this.tokenManager = tokenManager;
+    this.accountManager = accountManager;
+    this.warningMs = config.getTokenExpiryWarningMinutes() * 60 * 1000;
+  }
+
+  /**
+   * Start watching token expiry
+   */
+  start(): void {
+    if (this.expiryTimer) {
+      return;
+    }
+    this.checkExpiry();
+    this.expiryTimer = setInterval(() => this.checkExpiry(), EXPIRY_CHECK_INTERVAL_MS);
+    this.expiryTimer.unref();
+  }
+
+  stop(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    this.pending?.oauthServer.stop();
+    this.pending = null;
+  }
+
+  /**
+   * Register a listener for logins, logouts and expiry warnings. Returns a function that removes it.
+   */
+  onEvent(listener: AuthListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Start the OAuth callback server and return the URL the user must open. The token is saved
+   * when Kite redirects back, and listeners are told. A login already in progress is reused.
+   */
+  async startLogin(): Promise<LoginStatus> {
+    if (this.pending) {
+      return this.describePending(true);
+    }
+
+    const oauthServer = new OAuthServer(this.config, this.tokenManager);
+    const flow = oauthServer.startAuthFlow();
+    // The callback server starts synchronously; awaiting the flow surfaces why it could not
+    if (!oauthServer.isRunning()) {
+      await flow;
+    }
+
+    const pending = { oauthServer, startedAt: new Date(), loginUrl: oauthServer.getLoginUrl() };
+    this.pending = pending;
+    console.error(`Login started, waiting for the Kite callback on port ${this.config.getOAuthPort()}`);
+
+    flow.then(
+      tokenData => {
+        const expiresAt = this.tokenManager.getTokenExpiry(tokenData).toISOString();
+        this.emit({
+          type: 'login',
+          account: tokenData.user_id,
+          user_name: tokenData.user_name,
+          token_expires_at: expiresAt,
+          message: `Logged in as ${tokenData.user_name || tokenData.user_id} (${tokenData.user_id}); the token expires at ${expiresAt}`
+        });
+      },
+      error => {
+        this.emit({
+          type: 'login_failed',
+          message: `Login failed: ${error instanceof Error ? error.message : String(error)}`
+        });
+      }
+    ).finally(() => {
+      if (this.pending === pending) {
+        this.pending = null;
+      }
+    });
+
+    return this.describePending(false);
+  }
+
+  /**
+   * Invalidate an account's session on Kite's side and delete its stored token. An expired
+   * token is only deleted, since Kite has already ended that session.
+   */
+  async logout(account?: string): Promise<{ account: string; session_invalidated: boolean; remaining_accounts: string[] }> {
+    const { account: id, kiteClient } = this.accountManager.get(account);
+    if (!id) {
+      throw new Error('No account is logged in');
+    }
+
+    const sessionActive = kiteClient.isReady();
+    if (sessionActive) {
+      await kiteClient.invalidateSession();
+    }
+    this.tokenManager.clearToken(id);
+
+    this.emit({ type: 'logout', account: id, message: `Logged out of ${id}` });
+    return {
+      account: id,
+      session_invalidated: sessionActive,
+      remaining_accounts: this.accountManager.getAccountIds()
+    };
+  }
+
+  private describePending(alreadyPending: boolean): LoginStatus {
+    const { startedAt, loginUrl } = this.pending!;
+    return {
+      login_url: loginUrl,
+      redirect_url: this.config.getRedirectUrl(),
+      already_pending: alreadyPending,
+      started_at: startedAt.toISOString(),
+      expires_at: new Date(startedAt.getTime() + LOGIN_TIMEOUT_MS).toISOString()
+    };
+  }
+
+  /**
+   * Warn once per token when it is about to expire, and again when it has expired
+   */
+  private checkExpiry(): void {
+    const now = Date.now();
+
+    for (const account of this.accountManager.getAccountIds()) {
+      const tokenData = this.tokenManager.loadToken(account);
+      if (!tokenData) {
+        continue;
+      }
+
+      const expiry = this.tokenManager.getTokenExpiry(tokenData);
+      const expiresAt = expiry.toISOString();
+      const remainingMs = expiry.getTime() - now;
+
+      if (remainingMs <= 0) {
+        this.notifyOnce(`${account}:${expiresAt}:expired`, {
+          type: 'token_expired',
+          account,
+          token_expires_at: expiresAt,
+          message: `The Kite session for ${account} expired at ${expiresAt}. Use the login tool to log in again.`
+        });
+      } else if (remainingMs <= this.warningMs) {
+        const minutesLeft = Math.ceil(remainingMs / 60000);
+        this.notifyOnce(`${account}:${expiresAt}:expiring`, {
+          type: 'token_expiring',
+          account,
+          token_expires_at: expiresAt,
+          minutes_left: minutesLeft,
+          message: `The Kite session for ${account} expires in ${minutesLeft} minutes, at ${expiresAt}. Use the login tool to renew it.`
+        });
+      }
+    }
+  }
+
+  private notifyOnce(key: string, event: AuthEvent): void {
+    if (this.notified.has(key)) {
+      return;
+    }
+    this.notified.add(key);
+    this.emit(event);
+  }
+
+  private emit(event: AuthEvent): void {
+    console.error(event.message);
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Auth listener failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}
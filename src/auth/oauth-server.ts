@@ -7,6 +7,8 @@ export class OAuthServer {
   private readonly config: ConfigManager;
   private readonly tokenManager: TokenManager;
   private server: any = null;
+  // Ends a flow that is still waiting for its callback
+  private cancelFlow: ((reason: Error) => void) | null = null;
 
   constructor(config: ConfigManager, tokenManager: TokenManager) {
     this.config = config;
@@ -30,11 +32,13 @@ export class OAuthServer {
 
       const cleanupAndResolve = (value: TokenData) => {
         if (timeoutId) clearTimeout(timeoutId);
+        this.cancelFlow = null;
         resolve(value);
       };
 
       const cleanupAndReject = (reason: any) => {
         if (timeoutId) clearTimeout(timeoutId);
+        this.cancelFlow = null;
         reject(reason);
       };
 
@@ -90,6 +94,7 @@ export class OAuthServer {
         }
         cleanupAndReject(new Error('Authentication timeout - no callback received within 5 minutes'));
       }, 5 * 60 * 1000); // 5 minutes
+      this.cancelFlow = cleanupAndReject;
     });
   }
 
@@ -125,12 +130,20 @@ export class OAuthServer {
   }
 
   /**
-   * Stop the OAuth server if running
+   * Whether the callback server is listening
+   */
+  isRunning(): boolean {
+    return this.server !== null;
+  }
+
+  /**
+   * Stop the OAuth server if running, cancelling a flow that is still waiting
    */
   stop(): void {
     if (this.server) {
       this.server.stop();
       this.server = null;
     }
+    this.cancelFlow?.(new Error('Authentication cancelled'));
   }
 }
@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { ConfigManager } from '../config/environment.js';
+
+/**
+ * Where the serialized token store is kept. Reads return null when nothing is stored.
+ * Calls are synchronous because token checks run inline on every API call.
+ */
+export interface TokenBackend {
+  // Human-readable location for log messages
+  readonly location: string;
+  read(): string | null;
+  write(data: string): void;
+  clear(): void;
+}
+
+/**
+ * Write a file readable only by the owner, replacing it atomically
+ */
+function writeFileSecurely(file: string, data: string): void {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, data, { mode: 0o600 });
+  fs.renameSync(tempFile, file);
+}
+
+/**
+ * Tokens as plain JSON. Only used when TOKEN_STORE=plaintext is set explicitly.
+ */
+export class PlaintextFileBackend implements TokenBackend {
+  readonly location: string;
+  private readonly file: string;
+
+  constructor(file: string) {
+    this.file = file;
+    this.location = `plaintext file ${file}`;
+  }
+
+  read(): string | null {
+    return fs.existsSync(this.file) ? fs.readFileSync(this.file, 'utf-8') : null;
+  }
+
+  write(data: string): void {
+    writeFileSecurely(this.file, data);
+  }
+
+  clear(): void {
+    if (fs.existsSync(this.file)) {
+      fs.unlinkSync(this.file);
+    }
+  }
+}
+
+interface EncryptedEnvelope {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// Bound into the authentication tag so the ciphertext cannot be reused in another format
+const ENCRYPTION_AAD = Buffer.from('kite-mcp-token-store-v1');
+
+/**
+ * Tokens encrypted with AES-256-GCM under a key derived with scrypt from a passphrase or the
+ * contents of a key file. Each write uses a fresh IV; the salt is kept so the key is derived once.
+ */
+export class EncryptedFileBackend implements TokenBackend {
+  readonly location: string;
+  private readonly file: string;
+  private readonly secret: string;
+  private readonly keys = new Map<string, Buffer>();
+  // Decrypted contents, reused until the file changes
+  private cache: { mtimeMs: number; size: number; data: string } | null = null;
+
+  constructor(file: string, secret: string) {
+    this.file = file;
+    this.secret = secret;
+    this.location = `encrypted file ${file}`;
+  }
+
+  read(): string | null {
+    if (!fs.existsSync(this.file)) {
+      this.cache = null;
+      return null;
+    }
+
+    const stat = fs.statSync(this.file);
+    if (this.cache && this.cache.mtimeMs === stat.mtimeMs && this.cache.size === stat.size) {
+      return this.cache.data;
+    }
+
+    const envelope = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as EncryptedEnvelope;
+    if (envelope.version !== 1 || envelope.algorithm !== 'aes-256-gcm' || envelope.kdf !== 'scrypt') {
+      throw new Error(`Unsupported token file format in ${this.file}`);
+    }
+
+    let data: string;
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this.deriveKey(envelope.salt), Buffer.from(envelope.iv, 'base64'));
+      decipher.setAAD(ENCRYPTION_AAD);
+      decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+      data = Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new Error(`Cannot decrypt ${this.file}: wrong passphrase or key file, or the file was modified`);
+    }
+
+    this.cache = { mtimeMs: stat.mtimeMs, size: stat.size, data };
+    return data;
+  }
+
+  write(data: string): void {
+    const salt = this.currentSalt() ?? randomBytes(16).toString('base64');
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.deriveKey(salt), iv);
+    cipher.setAAD(ENCRYPTION_AAD);
+    const ciphertext = Buffer.concat([cipher.update(data, 'utf-8'), cipher.final()]);
+
+    const envelope: EncryptedEnvelope = {
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      kdf: 'scrypt',
+      salt,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: ciphertext.toString('base64')
+    };
+    writeFileSecurely(this.file, JSON.stringify(envelope, null, 2));
+    this.cache = null;
+  }
+
+  clear(): void {
+    if (fs.existsSync(this.file)) {
+      fs.unlinkSync(this.file);
+    }
+    this.cache = null;
+  }
+
+  private currentSalt(): string | null {
+    try {
+      return fs.existsSync(this.file) ? (JSON.parse(fs.readFileSync(this.file, 'utf-8')) as EncryptedEnvelope).salt ?? null : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private deriveKey(salt: string): Buffer {
+    let key = this.keys.get(salt);
+    if (!key) {
+      key = scryptSync(this.secret, Buffer.from(salt, 'base64'), 32);
+      this.keys.set(salt, key);
+    }
+    return key;
+  }
+}
+
+// The helper is run on every token check, so its answer is reused briefly
+const COMMAND_CACHE_MS = 5000;
+const COMMAND_TIMEOUT_MS = 10000;
+
+/**
+ * Tokens kept by an external helper (e.g. a wrapper around pass, 1Password or a keychain).
+ * The helper is run as `<command> get` (print the secret; print nothing if none is stored),
+ * `<command> store` (read the secret from stdin) and `<command> erase`.
+ */
+export class CommandBackend implements TokenBackend {
+  readonly location: string;
+  private readonly command: string;
+  private cache: { at: number; data: string | null } | null = null;
+
+  constructor(command: string) {
+    this.command = command;
+    this.location = `secret helper "${command}"`;
+  }
+
+  read(): string | null {
+    if (this.cache && Date.now() - this.cache.at < COMMAND_CACHE_MS) {
+      return this.cache.data;
+    }
+
+    const output = this.run('get');
+    const data = output.trim() === '' ? null : output;
+    this.cache = { at: Date.now(), data };
+    return data;
+  }
+
+  write(data: string): void {
+    this.run('store', data);
+    this.cache = null;
+  }
+
+  clear(): void {
+    this.run('erase');
+    this.cache = null;
+  }
+
+  private run(action: string, input?: string): string {
+    const result = spawnSync(`${this.command} ${action}`, {
+      shell: true,
+      input,
+      encoding: 'utf-8',
+      timeout: COMMAND_TIMEOUT_MS
+    });
+
+    if (result.error) {
+      throw new Error(`Secret helper "${this.command} ${action}" failed: ${result.error.message}`);
+    }
+    if (result.status !== 0) {
+      throw new Error(`Secret helper "${this.command} ${action}" exited with status ${result.status}: ${result.stderr.trim()}`);
+    }
+    return result.stdout;
+  }
+}
+
+/**
+ * Passphrase from TOKEN_ENCRYPTION_PASSPHRASE, or else the contents of the key file. A key file
+ * with a random key is generated on first use when neither exists.
+ */
+function resolveEncryptionSecret(config: ConfigManager): string {
+  const passphrase = config.getTokenEncryptionPassphrase();
+  if (passphrase) {
+    return passphrase;
+  }
+
+  const keyFile = config.getTokenEncryptionKeyFile();
+  if (!fs.existsSync(keyFile)) {
+    writeFileSecurely(keyFile, randomBytes(32).toString('hex'));
+    console.error(`Generated token encryption key at: ${keyFile}`);
+  }
+
+  const secret = fs.readFileSync(keyFile, 'utf-8').trim();
+  if (!secret) {
+    throw new Error(`Token encryption key file ${keyFile} is empty`);
+  }
+  return secret;
+}
+
+/**
+ * Create the backend selected by TOKEN_STORE
+ */
+export function createTokenBackend(config: ConfigManager, defaultPlaintextFile: string): TokenBackend {
+  switch (config.getTokenStore()) {
+    case 'plaintext':
+      return new PlaintextFileBackend(config.getTokenFile() ?? defaultPlaintextFile);
+    case 'command':
+      return new CommandBackend(config.getTokenStoreCommand()!);
+    case 'encrypted':
+      return new EncryptedFileBackend(
+        config.getTokenFile() ?? path.join(path.dirname(defaultPlaintextFile), 'access_token.enc'),
+        resolveEncryptionSecret(config)
+      );
+  }
+}
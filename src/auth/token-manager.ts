@@ -1,5 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { ConfigManager } from '../config/environment.js';
+import { createTokenBackend, PlaintextFileBackend, type TokenBackend } from './token-backends.js';
 
 export interface TokenData {
   access_token: string;
@@ -10,15 +12,69 @@ export interface TokenData {
   expires_at?: string;
 }
 
+// Kite access tokens expire at 6 AM IST (UTC+5:30, no daylight saving) the morning after login
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+const TOKEN_EXPIRY_HOUR_IST = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a token generated at the given time expires: the next 6 AM IST after it
+ */
+export function kiteTokenExpiry(generatedAt: Date): Date {
+  const istTime = generatedAt.getTime() + IST_OFFSET_MS;
+  let expiry = Math.floor(istTime / DAY_MS) * DAY_MS + TOKEN_EXPIRY_HOUR_IST * 60 * 60 * 1000;
+  if (expiry <= istTime) {
+    expiry += DAY_MS;
+  }
+  return new Date(expiry - IST_OFFSET_MS);
+}
+
+// Tokens of every authenticated account, keyed by Kite user ID
+interface TokenStore {
+  accounts: Record<string, TokenData>;
+}
+
+/**
+ * Stores one access token per Kite account in the backend selected by TOKEN_STORE. Methods
+ * that take an optional account ID use the default account when it is omitted: the
+ * configured one, or else the first account added.
+ */
 export class TokenManager {
-  private readonly tokenFile: string;
-
-  constructor(tokenFilePath?: string) {
-    if (tokenFilePath) {
-      this.tokenFile = tokenFilePath;
-    } else {
-      // Use the same directory resolution logic as ConfigManager
-      this.tokenFile = this.findTokenFile();
+  private readonly backend: TokenBackend;
+  private readonly defaultAccount?: string;
+  // Last load failure that was logged, so a broken store is reported once rather than on every check
+  private lastLoadError: string | null = null;
+
+  constructor(config: ConfigManager, backend?: TokenBackend) {
+    // Use the same directory resolution logic as ConfigManager
+    const plaintextFile = this.findTokenFile();
+    this.backend = backend ?? createTokenBackend(config, plaintextFile);
+    this.defaultAccount = config.getDefaultAccount();
+    this.migratePlaintextFile(plaintextFile);
+  }
+
+  /**
+   * Move tokens from a plaintext access_token.json written by earlier versions into the
+   * configured backend, then delete the plaintext file
+   */
+  private migratePlaintextFile(plaintextFile: string): void {
+    if (this.backend instanceof PlaintextFileBackend || !fs.existsSync(plaintextFile)) {
+      return;
+    }
+
+    try {
+      if (this.backend.read() !== null) {
+        console.error(`Warning: ${plaintextFile} holds plaintext tokens but is no longer used; tokens are stored in ${this.backend.location}. Delete it.`);
+        return;
+      }
+
+      const data = fs.readFileSync(plaintextFile, 'utf-8');
+      JSON.parse(data);
+      this.backend.write(data);
+      fs.unlinkSync(plaintextFile);
+      console.error(`Migrated tokens from ${plaintextFile} to ${this.backend.location} and deleted the plaintext file`);
+    } catch (error) {
+      console.error(`Failed to migrate tokens from ${plaintextFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -63,128 +119,156 @@ export class TokenManager {
   }
 
   /**
-   * Save token data to file
+   * Read all stored tokens. Files written before multi-account support hold a single
+   * token and are read as a store with one account.
+   */
+  private readStore(): TokenStore {
+    const raw = this.backend.read();
+    if (raw === null) {
+      console.error(`No tokens stored in ${this.backend.location}`);
+      return { accounts: {} };
+    }
+
+    const data = JSON.parse(raw);
+    if (typeof data?.access_token === 'string') {
+      return { accounts: { [data.user_id]: data as TokenData } };
+    }
+    return { accounts: data?.accounts ?? {} };
+  }
+
+  private writeStore(store: TokenStore): void {
+    this.backend.write(JSON.stringify(store, null, 2));
+  }
+
+  /**
+   * Save token data to file, adding the account or replacing its previous token
    */
   saveToken(tokenData: Omit<TokenData, 'generated_at'> & { generated_at?: string }): void {
     try {
+      const generatedAt = tokenData.generated_at || new Date().toISOString();
       const completeTokenData: TokenData = {
         ...tokenData,
-        generated_at: tokenData.generated_at || new Date().toISOString()
+        generated_at: generatedAt,
+        expires_at: tokenData.expires_at || kiteTokenExpiry(new Date(generatedAt)).toISOString()
       };
 
-      // Ensure directory exists
-      const tokenDir = path.dirname(this.tokenFile);
-      if (!fs.existsSync(tokenDir)) {
-        fs.mkdirSync(tokenDir, { recursive: true });
-      }
-
-      fs.writeFileSync(this.tokenFile, JSON.stringify(completeTokenData, null, 2));
-      console.error(`Token saved to: ${this.tokenFile}`);
+      const store = this.readStore();
+      store.accounts[completeTokenData.user_id] = completeTokenData;
+      this.writeStore(store);
+      console.error(`Token for ${completeTokenData.user_id} saved to: ${this.backend.location}`);
     } catch (error) {
       throw new Error(`Failed to save token: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Load token data from file
+   * Load token data for an account from file
    */
-  loadToken(): TokenData | null {
+  loadToken(accountId?: string): TokenData | null {
     try {
-      if (!fs.existsSync(this.tokenFile)) {
-        console.error(`Token file not found at: ${this.tokenFile}`);
+      const store = this.readStore();
+      const id = accountId ?? this.defaultAccount ?? Object.keys(store.accounts)[0];
+      const tokenData = id ? store.accounts[id] : undefined;
+      if (!tokenData) {
         return null;
       }
 
-      const data = fs.readFileSync(this.tokenFile, 'utf-8');
-      const tokenData = JSON.parse(data) as TokenData;
-
       // Validate required fields
       if (!tokenData.access_token || !tokenData.user_id || !tokenData.generated_at) {
         throw new Error('Invalid token data structure');
       }
 
-      console.error(`Token loaded from: ${this.tokenFile}`);
+      this.lastLoadError = null;
       return tokenData;
     } catch (error) {
-      console.error(`Failed to load token from ${this.tokenFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = `Failed to load token from ${this.backend.location}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (message !== this.lastLoadError) {
+        console.error(message);
+        this.lastLoadError = message;
+      }
       return null;
     }
   }
 
   /**
-   * Check if token exists and is valid
+   * User IDs of all stored accounts, in the order they were added
    */
-  isTokenValid(): boolean {
-    const tokenData = this.loadToken();
-
-    if (!tokenData) {
-      return false;
+  getAccountIds(): string[] {
+    try {
+      return Object.keys(this.readStore().accounts);
+    } catch (error) {
+      console.error(`Failed to read accounts from ${this.backend.location}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return [];
     }
+  }
 
-    const isValid = this.validateTokenExpiry(tokenData);
-    console.error(`Token validation: ${isValid ? 'valid' : 'expired'}`);
-    return isValid;
+  /**
+   * Account used when none is given, or null if no account has been added
+   */
+  getDefaultAccountId(): string | null {
+    return this.defaultAccount ?? this.getAccountIds()[0] ?? null;
   }
 
   /**
-   * Get valid token or null
+   * Check if token exists and is valid
    */
-  getValidToken(): string | null {
-    if (!this.isTokenValid()) {
-      return null;
-    }
+  isTokenValid(accountId?: string): boolean {
+    return this.getValidTokenData(accountId) !== null;
+  }
 
-    const tokenData = this.loadToken();
-    return tokenData?.access_token || null;
+  /**
+   * Get valid token or null
+   */
+  getValidToken(accountId?: string): string | null {
+    return this.getValidTokenData(accountId)?.access_token || null;
   }
 
   /**
    * Get token data if valid
    */
-  getValidTokenData(): TokenData | null {
-    if (!this.isTokenValid()) {
-      return null;
-    }
-
-    return this.loadToken();
+  getValidTokenData(accountId?: string): TokenData | null {
+    const tokenData = this.loadToken(accountId);
+    return tokenData && this.validateTokenExpiry(tokenData) ? tokenData : null;
   }
 
   /**
-   * Delete token file
+   * Remove an account's token, or all tokens when no account is given
    */
-  clearToken(): void {
+  clearToken(accountId?: string): void {
     try {
-      if (fs.existsSync(this.tokenFile)) {
-        fs.unlinkSync(this.tokenFile);
+      if (accountId === undefined) {
+        this.backend.clear();
+        return;
       }
+
+      const store = this.readStore();
+      delete store.accounts[accountId];
+      this.writeStore(store);
     } catch (error) {
       throw new Error(`Failed to clear token: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Check if token has expired based on generation time
+   * When a token expires: its recorded expiry, or else 6 AM IST after it was generated
    */
-  private validateTokenExpiry(tokenData: TokenData): boolean {
-    // If explicit expiry time is set, use it
-    if (tokenData.expires_at) {
-      const expiresAt = new Date(tokenData.expires_at);
-      const now = new Date();
-      return now < expiresAt;
-    }
-
-    // Otherwise, use generation time with 5-hour buffer (Kite tokens expire in ~6 hours)
-    const generatedAt = new Date(tokenData.generated_at);
-    const now = new Date();
-    const diffHours = (now.getTime() - generatedAt.getTime()) / (1000 * 60 * 60);
+  getTokenExpiry(tokenData: TokenData): Date {
+    return tokenData.expires_at
+      ? new Date(tokenData.expires_at)
+      : kiteTokenExpiry(new Date(tokenData.generated_at));
+  }
 
-    return diffHours < 5;
+  /**
+   * Check if token has expired
+   */
+  private validateTokenExpiry(tokenData: TokenData): boolean {
+    return new Date() < this.getTokenExpiry(tokenData);
   }
 
   /**
-   * Get token file path
+   * Describe where tokens are stored
    */
-  getTokenFilePath(): string {
-    return this.tokenFile;
+  getStorageLocation(): string {
+    return this.backend.location;
   }
 }
@@ -1,12 +1,55 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
 
+export type TradingMode = 'live' | 'paper';
+
+export type ConfirmationMode = 'none' | 'token' | 'elicit';
+
+export type TransportMode = 'stdio' | 'http';
+
+export type TokenStoreType = 'encrypted' | 'command' | 'plaintext';
+
+export type ApiRequestClass = 'order' | 'quote' | 'historical' | 'default';
+
 export interface Config {
   apiKey: string;
   apiSecret: string;
   oauthPort: number;
   redirectUrl: string;
+  riskPolicyFile?: string;
+  tradingMode: TradingMode;
+  paperStartingCapital: number;
+  paperStateFile: string;
+  confirmationModes: Record<string, ConfirmationMode>;
+  confirmationTokenTtlSeconds: number;
+  instrumentCacheFile: string;
+  sectorClassificationFile?: string;
+  tickerMaxRetries: number;
+  tickerMaxDelaySeconds: number;
+  alertsFile: string;
+  alertPollIntervalSeconds: number;
+  transport: TransportMode;
+  httpHost: string;
+  httpPort: number;
+  httpAuthTokens: string[];
+  httpAllowedOrigins: string[];
+  httpSessionIdleTimeoutSeconds: number;
+  defaultAccount?: string;
+  tokenStore: TokenStoreType;
+  tokenFile?: string;
+  tokenEncryptionPassphrase?: string;
+  tokenEncryptionKeyFile: string;
+  tokenStoreCommand?: string;
+  tokenExpiryWarningMinutes: number;
+  apiRateLimits: Partial<Record<ApiRequestClass, number>>;
+  apiMaxRetries: number;
+  auditLogFile: string;
+  auditLogMaxSizeMb: number;
+  auditLogRetentionDays: number;
+  tradebookFile: string;
+  tradebookAutoSync: boolean;
 }
 
 export class ConfigManager {
@@ -90,15 +133,187 @@ Checked paths: ${this.getCheckedPaths().join(', ')}`);
     }
 
     const redirectUrl = `http://localhost:${oauthPort}/zerodha/auth/redirect`;
+    const riskPolicyFile = process.env.RISK_POLICY_FILE?.trim()
+      ? path.resolve(process.env.RISK_POLICY_FILE.trim())
+      : undefined;
+
+    const tradingMode = (process.env.TRADING_MODE?.trim().toLowerCase() || 'live') as TradingMode;
+    if (tradingMode !== 'live' && tradingMode !== 'paper') {
+      throw new Error(`TRADING_MODE must be either "live" or "paper" (got "${process.env.TRADING_MODE}")`);
+    }
+
+    const paperStartingCapital = parseFloat(process.env.PAPER_STARTING_CAPITAL || '1000000');
+    if (isNaN(paperStartingCapital) || paperStartingCapital <= 0) {
+      throw new Error(`PAPER_STARTING_CAPITAL must be a positive number (got "${process.env.PAPER_STARTING_CAPITAL}")`);
+    }
+    const paperStateFile = path.resolve(process.env.PAPER_STATE_FILE?.trim() || 'paper_trading.json');
+
+    const confirmationModes = this.parseConfirmationModes(process.env.CONFIRMATION_MODES || '');
+    const confirmationTokenTtlSeconds = parseInt(process.env.CONFIRMATION_TOKEN_TTL_SECONDS || '120');
+    if (isNaN(confirmationTokenTtlSeconds) || confirmationTokenTtlSeconds <= 0) {
+      throw new Error(`CONFIRMATION_TOKEN_TTL_SECONDS must be a positive integer (got "${process.env.CONFIRMATION_TOKEN_TTL_SECONDS}")`);
+    }
+
+    const instrumentCacheFile = path.resolve(process.env.INSTRUMENT_CACHE_FILE?.trim() || 'instruments_cache.json');
+
+    const sectorClassificationFile = process.env.SECTOR_CLASSIFICATION_FILE?.trim()
+      ? path.resolve(process.env.SECTOR_CLASSIFICATION_FILE.trim())
+      : undefined;
+
+    // KiteTicker caps retries at 300 and needs a maximum delay of at least 5 seconds
+    const tickerMaxRetries = parseInt(process.env.TICKER_MAX_RETRIES || '50');
+    if (isNaN(tickerMaxRetries) || tickerMaxRetries < 0 || tickerMaxRetries > 300) {
+      throw new Error(`TICKER_MAX_RETRIES must be an integer between 0 and 300 (got "${process.env.TICKER_MAX_RETRIES}")`);
+    }
+    const tickerMaxDelaySeconds = parseInt(process.env.TICKER_MAX_DELAY_SECONDS || '60');
+    if (isNaN(tickerMaxDelaySeconds) || tickerMaxDelaySeconds < 5) {
+      throw new Error(`TICKER_MAX_DELAY_SECONDS must be an integer of at least 5 (got "${process.env.TICKER_MAX_DELAY_SECONDS}")`);
+    }
+
+    const alertsFile = path.resolve(process.env.ALERTS_FILE?.trim() || 'alerts.json');
+    const alertPollIntervalSeconds = parseInt(process.env.ALERT_POLL_INTERVAL_SECONDS || '15');
+    if (isNaN(alertPollIntervalSeconds) || alertPollIntervalSeconds < 1) {
+      throw new Error(`ALERT_POLL_INTERVAL_SECONDS must be a positive integer (got "${process.env.ALERT_POLL_INTERVAL_SECONDS}")`);
+    }
+
+    const transport = (process.env.MCP_TRANSPORT?.trim().toLowerCase() || 'stdio') as TransportMode;
+    if (transport !== 'stdio' && transport !== 'http') {
+      throw new Error(`MCP_TRANSPORT must be either "stdio" or "http" (got "${process.env.MCP_TRANSPORT}")`);
+    }
+    const httpHost = process.env.HTTP_HOST?.trim() || '127.0.0.1';
+    const httpPort = parseInt(process.env.HTTP_PORT || '3000');
+    if (isNaN(httpPort) || httpPort < 1 || httpPort > 65535) {
+      throw new Error(`HTTP_PORT must be an integer between 1 and 65535 (got "${process.env.HTTP_PORT}")`);
+    }
+    const httpAuthTokens = this.parseList(process.env.HTTP_AUTH_TOKENS || '');
+    const httpAllowedOrigins = this.parseList(process.env.HTTP_ALLOWED_ORIGINS || '');
+    const httpSessionIdleTimeoutSeconds = parseInt(process.env.HTTP_SESSION_IDLE_TIMEOUT_SECONDS || '1800');
+    if (isNaN(httpSessionIdleTimeoutSeconds) || httpSessionIdleTimeoutSeconds < 0) {
+      throw new Error(`HTTP_SESSION_IDLE_TIMEOUT_SECONDS must be a non-negative integer (got "${process.env.HTTP_SESSION_IDLE_TIMEOUT_SECONDS}")`);
+    }
+
+    const defaultAccount = process.env.DEFAULT_ACCOUNT?.trim().toUpperCase() || undefined;
+
+    const tokenStore = (process.env.TOKEN_STORE?.trim().toLowerCase() || 'encrypted') as TokenStoreType;
+    if (tokenStore !== 'encrypted' && tokenStore !== 'command' && tokenStore !== 'plaintext') {
+      throw new Error(`TOKEN_STORE must be "encrypted", "command" or "plaintext" (got "${process.env.TOKEN_STORE}")`);
+    }
+    const tokenFile = process.env.TOKEN_FILE?.trim()
+      ? path.resolve(process.env.TOKEN_FILE.trim())
+      : undefined;
+    const tokenEncryptionPassphrase = process.env.TOKEN_ENCRYPTION_PASSPHRASE || undefined;
+    const tokenEncryptionKeyFile = path.resolve(process.env.TOKEN_ENCRYPTION_KEY_FILE?.trim() || path.join(os.homedir(), '.kite-mcp', 'token.key'));
+    const tokenStoreCommand = process.env.TOKEN_STORE_COMMAND?.trim() || undefined;
+    if (tokenStore === 'command' && !tokenStoreCommand) {
+      throw new Error('TOKEN_STORE_COMMAND is required when TOKEN_STORE is "command"');
+    }
+    const tokenExpiryWarningMinutes = parseInt(process.env.TOKEN_EXPIRY_WARNING_MINUTES || '30');
+    if (isNaN(tokenExpiryWarningMinutes) || tokenExpiryWarningMinutes < 0) {
+      throw new Error(`TOKEN_EXPIRY_WARNING_MINUTES must be a non-negative integer (got "${process.env.TOKEN_EXPIRY_WARNING_MINUTES}")`);
+    }
+
+    const apiRateLimits = this.parseRateLimits(process.env.API_RATE_LIMITS || '');
+    const apiMaxRetries = parseInt(process.env.API_MAX_RETRIES || '3');
+    if (isNaN(apiMaxRetries) || apiMaxRetries < 0 || apiMaxRetries > 10) {
+      throw new Error(`API_MAX_RETRIES must be an integer between 0 and 10 (got "${process.env.API_MAX_RETRIES}")`);
+    }
+
+    const auditLogFile = path.resolve(process.env.AUDIT_LOG_FILE?.trim() || 'audit_log.jsonl');
+    const auditLogMaxSizeMb = parseFloat(process.env.AUDIT_LOG_MAX_SIZE_MB || '10');
+    if (isNaN(auditLogMaxSizeMb) || auditLogMaxSizeMb < 0) {
+      throw new Error(`AUDIT_LOG_MAX_SIZE_MB must be a non-negative number (got "${process.env.AUDIT_LOG_MAX_SIZE_MB}")`);
+    }
+    const auditLogRetentionDays = parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '0');
+    if (isNaN(auditLogRetentionDays) || auditLogRetentionDays < 0) {
+      throw new Error(`AUDIT_LOG_RETENTION_DAYS must be a non-negative integer (got "${process.env.AUDIT_LOG_RETENTION_DAYS}")`);
+    }
+
+    const tradebookFile = path.resolve(process.env.TRADEBOOK_FILE?.trim() || 'tradebook.json');
+    const tradebookAutoSync = process.env.TRADEBOOK_AUTO_SYNC?.trim().toLowerCase() || 'true';
+    if (tradebookAutoSync !== 'true' && tradebookAutoSync !== 'false') {
+      throw new Error(`TRADEBOOK_AUTO_SYNC must be either "true" or "false" (got "${process.env.TRADEBOOK_AUTO_SYNC}")`);
+    }
 
     return {
       apiKey: apiKey.trim(),
       apiSecret: apiSecret.trim(),
       oauthPort,
-      redirectUrl
+      redirectUrl,
+      riskPolicyFile,
+      tradingMode,
+      paperStartingCapital,
+      paperStateFile,
+      confirmationModes,
+      confirmationTokenTtlSeconds,
+      instrumentCacheFile,
+      sectorClassificationFile,
+      tickerMaxRetries,
+      tickerMaxDelaySeconds,
+      alertsFile,
+      alertPollIntervalSeconds,
+      transport,
+      httpHost,
+      httpPort,
+      httpAuthTokens,
+      httpAllowedOrigins,
+      httpSessionIdleTimeoutSeconds,
+      defaultAccount,
+      tokenStore,
+      tokenFile,
+      tokenEncryptionPassphrase,
+      tokenEncryptionKeyFile,
+      tokenStoreCommand,
+      tokenExpiryWarningMinutes,
+      apiRateLimits,
+      apiMaxRetries,
+      auditLogFile,
+      auditLogMaxSizeMb,
+      auditLogRetentionDays,
+      tradebookFile,
+      tradebookAutoSync: tradebookAutoSync === 'true'
     };
   }
 
+  /**
+   * Parse "tool=mode" pairs, e.g. "place_order=token,cancel_order=elicit"
+   */
+  private parseConfirmationModes(value: string): Record<string, ConfirmationMode> {
+    const modes: Record<string, ConfirmationMode> = {};
+
+    for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+      const [tool, mode] = entry.split('=').map(part => part.trim());
+      if (!tool || (mode !== 'none' && mode !== 'token' && mode !== 'elicit')) {
+        throw new Error(`Invalid CONFIRMATION_MODES entry "${entry}". Use tool=none|token|elicit`);
+      }
+      modes[tool] = mode;
+    }
+
+    return modes;
+  }
+
+  /**
+   * Parse "class=requests per second" pairs, e.g. "quote=1,historical=3"
+   */
+  private parseRateLimits(value: string): Partial<Record<ApiRequestClass, number>> {
+    const limits: Partial<Record<ApiRequestClass, number>> = {};
+
+    for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+      const [requestClass, rate] = entry.split('=').map(part => part.trim());
+      const perSecond = parseFloat(rate ?? '');
+      if ((requestClass !== 'order' && requestClass !== 'quote' && requestClass !== 'historical' && requestClass !== 'default')
+        || isNaN(perSecond) || perSecond <= 0) {
+        throw new Error(`Invalid API_RATE_LIMITS entry "${entry}". Use order|quote|historical|default=<requests per second>`);
+      }
+      limits[requestClass] = perSecond;
+    }
+
+    return limits;
+  }
+
+  private parseList(value: string): string[] {
+    return value.split(',').map(entry => entry.trim()).filter(Boolean);
+  }
+
   private getCheckedPaths(): string[] {
     const scriptDir = this.getScriptDirectory();
     return [
@@ -128,4 +343,132 @@ Checked paths: ${this.getCheckedPaths().join(', ')}`);
   getRedirectUrl(): string {
     return this.config.redirectUrl;
   }
+
+  getRiskPolicyFile(): string | undefined {
+    return this.config.riskPolicyFile;
+  }
+
+  getTradingMode(): TradingMode {
+    return this.config.tradingMode;
+  }
+
+  getPaperStartingCapital(): number {
+    return this.config.paperStartingCapital;
+  }
+
+  getPaperStateFile(): string {
+    return this.config.paperStateFile;
+  }
+
+  getConfirmationModes(): Record<string, ConfirmationMode> {
+    return { ...this.config.confirmationModes };
+  }
+
+  getConfirmationTokenTtlSeconds(): number {
+    return this.config.confirmationTokenTtlSeconds;
+  }
+
+  getInstrumentCacheFile(): string {
+    return this.config.instrumentCacheFile;
+  }
+
+  getSectorClassificationFile(): string | undefined {
+    return this.config.sectorClassificationFile;
+  }
+
+  getTickerMaxRetries(): number {
+    return this.config.tickerMaxRetries;
+  }
+
+  getTickerMaxDelaySeconds(): number {
+    return this.config.tickerMaxDelaySeconds;
+  }
+
+  getAlertsFile(): string {
+    return this.config.alertsFile;
+  }
+
+  getAlertPollIntervalSeconds(): number {
+    return this.config.alertPollIntervalSeconds;
+  }
+
+  getTransport(): TransportMode {
+    return this.config.transport;
+  }
+
+  getHttpHost(): string {
+    return this.config.httpHost;
+  }
+
+  getHttpPort(): number {
+    return this.config.httpPort;
+  }
+
+  getHttpAuthTokens(): string[] {
+    return [...this.config.httpAuthTokens];
+  }
+
+  getHttpAllowedOrigins(): string[] {
+    return [...this.config.httpAllowedOrigins];
+  }
+
+  getHttpSessionIdleTimeoutSeconds(): number {
+    return this.config.httpSessionIdleTimeoutSeconds;
+  }
+
+  getDefaultAccount(): string | undefined {
+    return this.config.defaultAccount;
+  }
+
+  getTokenStore(): TokenStoreType {
+    return this.config.tokenStore;
+  }
+
+  getTokenFile(): string | undefined {
+    return this.config.tokenFile;
+  }
+
+  getTokenEncryptionPassphrase(): string | undefined {
+    return this.config.tokenEncryptionPassphrase;
+  }
+
+  getTokenEncryptionKeyFile(): string {
+    return this.config.tokenEncryptionKeyFile;
+  }
+
+  getTokenStoreCommand(): string | undefined {
+    return this.config.tokenStoreCommand;
+  }
+
+  getTokenExpiryWarningMinutes(): number {
+    return this.config.tokenExpiryWarningMinutes;
+  }
+
+  getApiRateLimits(): Partial<Record<ApiRequestClass, number>> {
+    return { ...this.config.apiRateLimits };
+  }
+
+  getApiMaxRetries(): number {
+    return this.config.apiMaxRetries;
+  }
+
+  getAuditLogFile(): string {
+    return this.config.auditLogFile;
+  }
+
+  getAuditLogMaxSizeMb(): number {
+    return this.config.auditLogMaxSizeMb;
+  }
+
+  getAuditLogRetentionDays(): number {
+    return this.config.auditLogRetentionDays;
+  }
+
+  getTradebookFile(): string {
+    return this.config.tradebookFile;
+  }
+
+  getTradebookAutoSync(): boolean {
+    return this.config.tradebookAutoSync;
+  }
 }
@@ -1,9 +1,43 @@
 #!/usr/bin/env bun
 
-import { KiteMCPServer } from './mcp/server.js';
+import { parseArgs } from 'util';
+import { KiteMCPServer, type RunOptions } from './mcp/server.js';
+
+/**
+ * Parse --transport stdio|http, --host and --port, which override the environment
+ */
+function parseCommandLine(): RunOptions {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' }
+    }
+  });
+
+  const options: RunOptions = {};
+  if (values.transport !== undefined) {
+    if (values.transport !== 'stdio' && values.transport !== 'http') {
+      throw new Error(`--transport must be either "stdio" or "http" (got "${values.transport}")`);
+    }
+    options.transport = values.transport;
+  }
+  if (values.host !== undefined) {
+    options.host = values.host;
+  }
+  if (values.port !== undefined) {
+    const port = parseInt(values.port);
+    if (isNaN(port) || port < 1 || port > 65535) {
+      throw new Error(`--port must be an integer between 1 and 65535 (got "${values.port}")`);
+    }
+    options.port = port;
+  }
+  return options;
+}
 
 async function main() {
   try {
+    const options = parseCommandLine();
     const server = new KiteMCPServer();
 
     // Check authentication status on startup
@@ -15,8 +49,17 @@ async function main() {
       console.error(`Authenticated as: ${authStatus.user}`);
     }
 
+    const accounts = server.getAccounts();
+    if (accounts.length > 1) {
+      console.error(`Accounts: ${accounts.map(a => `${a.account}${a.default ? ' (default)' : ''}${a.authenticated ? '' : ' (not authenticated)'}`).join(', ')}`);
+    }
+
+    if (authStatus.tradingMode === 'paper') {
+      console.error('Paper trading mode: orders, positions, holdings and margins are simulated');
+    }
+
     // Start the MCP server
-    await server.run();
+    await server.run(options);
   } catch (error) {
     console.error('Failed to start Kite MCP Server:', error);
     process.exit(1);
@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../config/environment.js';
+import { KiteClient } from '../api/kite-client.js';
+
+export interface InstrumentRecord {
+  instrument_token: number;
+  exchange_token: number;
+  tradingsymbol: string;
+  name: string;
+  exchange: string;
+  segment: string;
+  instrument_type: string;
+  expiry: string | null;
+  strike: number;
+  tick_size: number;
+  lot_size: number;
+}
+
+export interface InstrumentSearchFilters {
+  query?: string;
+  exchange?: string;
+  segment?: string;
+  instrument_type?: string;
+  expiry_from?: string;
+  expiry_to?: string;
+  strike_min?: number;
+  strike_max?: number;
+  lot_size?: number;
+  offset?: number;
+  limit?: number;
+}
+
+export interface InstrumentSearchResult {
+  total: number;
+  offset: number;
+  limit: number;
+  has_more: boolean;
+  results: InstrumentRecord[];
+}
+
+interface InstrumentCacheFile {
+  fetched_at: string;
+  trading_day: string;
+  instruments: InstrumentRecord[];
+}
+
+export const DEFAULT_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_LIMIT = 500;
+
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Local index of Kite's instrument master. The dump is downloaded at most once per IST
+ * trading day, persisted to disk, and indexed by symbol and instrument token.
+ */
+export class InstrumentStore {
+  private readonly kiteClient: KiteClient;
+  private readonly cacheFile: string;
+  private instruments: InstrumentRecord[] = [];
+  private bySymbol = new Map<string, InstrumentRecord>();
+  private byToken = new Map<number, InstrumentRecord>();
+  private tradingDay: string | null = null;
+  private fetchedAt: string | null = null;
+  private refreshPromise: Promise<void> | null = null;
+
+  constructor(config: ConfigManager, kiteClient: KiteClient) {
+    this.kiteClient = kiteClient;
+    this.cacheFile = config.getInstrumentCacheFile();
+    this.loadFromDisk();
+  }
+
+  private loadFromDisk(): void {
+    try {
+      if (!fs.existsSync(this.cacheFile)) {
+        return;
+      }
+
+      const cache = JSON.parse(fs.readFileSync(this.cacheFile, 'utf-8')) as InstrumentCacheFile;
+      this.setInstruments(cache.instruments, cache.trading_day, cache.fetched_at);
+      console.error(`Instrument cache loaded from: ${this.cacheFile} (${cache.instruments.length} instruments, ${cache.trading_day})`);
+    } catch (error) {
+      console.error(`Failed to load instrument cache from ${this.cacheFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private saveToDisk(): void {
+    try {
+      const cacheDir = path.dirname(this.cacheFile);
+      if (!fs.existsSync(cacheDir)) {
+        fs.mkdirSync(cacheDir, { recursive: true });
+      }
+
+      const cache: InstrumentCacheFile = {
+        fetched_at: this.fetchedAt!,
+        trading_day: this.tradingDay!,
+        instruments: this.instruments
+      };
+      fs.writeFileSync(this.cacheFile, JSON.stringify(cache));
+    } catch (error) {
+      console.error(`Failed to save instrument cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private setInstruments(instruments: InstrumentRecord[], tradingDay: string, fetchedAt: string): void {
+    this.instruments = instruments;
+    this.tradingDay = tradingDay;
+    this.fetchedAt = fetchedAt;
+    this.bySymbol = new Map(instruments.map(i => [`${i.exchange}:${i.tradingsymbol}`, i]));
+    this.byToken = new Map(instruments.map(i => [i.instrument_token, i]));
+  }
+
+  /**
+   * Make sure the index holds today's instrument master, downloading it if needed
+   */
+  async ensureFresh(): Promise<void> {
+    if (this.tradingDay === istDate(new Date()) && this.instruments.length > 0) {
+      return;
+    }
+    await this.refresh();
+  }
+
+  /**
+   * Download the instrument master and rebuild the index
+   */
+  async refresh(): Promise<void> {
+    // Share one download between concurrent callers
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        const raw: any[] = await this.kiteClient.getInstruments() || [];
+        const now = new Date();
+        this.setInstruments(raw.map(toRecord), istDate(now), now.toISOString());
+        this.saveToDisk();
+        console.error(`Instrument cache refreshed (${this.instruments.length} instruments)`);
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Search instruments with filters and pagination
+   */
+  async search(filters: InstrumentSearchFilters): Promise<InstrumentSearchResult> {
+    await this.ensureFresh();
+
+    const query = filters.query?.trim().toUpperCase();
+    const offset = Math.max(0, filters.offset ?? 0);
+    const limit = Math.min(Math.max(1, filters.limit ?? DEFAULT_SEARCH_LIMIT), MAX_SEARCH_LIMIT);
+
+    const matches = this.instruments.filter(i =>
+      (!query || i.tradingsymbol.toUpperCase().includes(query) || i.name.toUpperCase().includes(query))
+      && (!filters.exchange || i.exchange === filters.exchange)
+      && (!filters.segment || i.segment === filters.segment)
+      && (!filters.instrument_type || i.instrument_type === filters.instrument_type)
+      && (!filters.expiry_from || (i.expiry !== null && i.expiry >= filters.expiry_from))
+      && (!filters.expiry_to || (i.expiry !== null && i.expiry <= filters.expiry_to))
+      && (filters.strike_min === undefined || i.strike >= filters.strike_min)
+      && (filters.strike_max === undefined || i.strike <= filters.strike_max)
+      && (filters.lot_size === undefined || i.lot_size === filters.lot_size)
+    );
+
+    // Exact symbol matches first, then by expiry and strike so derivatives read naturally
+    const isExact = (i: InstrumentRecord) => Number(query !== undefined && i.tradingsymbol.toUpperCase() === query);
+    matches.sort((a, b) =>
+      isExact(b) - isExact(a)
+      || (a.expiry ?? '').localeCompare(b.expiry ?? '')
+      || a.strike - b.strike
+    );
+
+    return {
+      total: matches.length,
+      offset,
+      limit,
+      has_more: offset + limit < matches.length,
+      results: matches.slice(offset, offset + limit)
+    };
+  }
+
+  /**
+   * Find an instrument by exchange and trading symbol
+   */
+  async findBySymbol(exchange: string, tradingsymbol: string): Promise<InstrumentRecord | undefined> {
+    await this.ensureFresh();
+    return this.bySymbol.get(`${exchange}:${tradingsymbol}`);
+  }
+
+  /**
+   * Find an instrument by its instrument token
+   */
+  async findByToken(instrumentToken: number | string): Promise<InstrumentRecord | undefined> {
+    await this.ensureFresh();
+    return this.byToken.get(Number(instrumentToken));
+  }
+
+  /**
+   * Resolve an EXCHANGE:SYMBOL string or numeric token to an instrument
+   */
+  async resolve(instrument: string | number): Promise<InstrumentRecord | undefined> {
+    const value = String(instrument).trim();
+    if (/^\d+$/.test(value)) {
+      return this.findByToken(value);
+    }
+
+    const [exchange, tradingsymbol] = value.split(':');
+    if (!exchange || !tradingsymbol) {
+      return undefined;
+    }
+    return this.findBySymbol(exchange.toUpperCase(), tradingsymbol.toUpperCase());
+  }
+
+  /**
+   * Get all instruments (refreshing if stale). Callers must not mutate the records.
+   */
+  async getAll(): Promise<readonly InstrumentRecord[]> {
+    await this.ensureFresh();
+    return this.instruments;
+  }
+
+  /**
+   * Get cache metadata
+   */
+  getStatus(): { cache_file: string; trading_day: string | null; fetched_at: string | null; count: number } {
+    return {
+      cache_file: this.cacheFile,
+      trading_day: this.tradingDay,
+      fetched_at: this.fetchedAt,
+      count: this.instruments.length
+    };
+  }
+}
+
+function toRecord(raw: any): InstrumentRecord {
+  const expiry = raw.expiry ? new Date(raw.expiry) : null;
+  return {
+    instrument_token: Number(raw.instrument_token),
+    exchange_token: Number(raw.exchange_token),
+    tradingsymbol: String(raw.tradingsymbol),
+    name: String(raw.name ?? ''),
+    exchange: String(raw.exchange),
+    segment: String(raw.segment),
+    instrument_type: String(raw.instrument_type),
+    expiry: expiry && !isNaN(expiry.getTime()) ? expiry.toISOString().slice(0, 10) : null,
+    strike: Number(raw.strike) || 0,
+    tick_size: Number(raw.tick_size) || 0,
+    lot_size: Number(raw.lot_size) || 0
+  };
+}
+
+/**
+ * Calendar date in IST as YYYY-MM-DD
+ */
+function istDate(date: Date): string {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
@@ -0,0 +1,259 @@
+import { ErrorCode, McpError, type Resource, type ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { KiteClient } from '../api/kite-client.js';
+import { AccountManager } from '../accounts/account-manager.js';
+import { InstrumentStore } from '../instruments/instrument-store.js';
+import { markdownKeyValues, markdownTable } from './markdown.js';
+import type { ResourceContents, ResourceProvider } from './resource-provider.js';
+
+type ResourceFormat = 'json' | 'markdown';
+
+interface StaticResource {
+  name: string;
+  title: string;
+  description: string;
+  load: (kiteClient: KiteClient) => Promise<any>;
+  render: (data: any) => string;
+}
+
+const URI_PREFIX = 'kite://';
+
+const STATIC_RESOURCES: StaticResource[] = [
+  {
+    name: 'profile',
+    title: 'Profile',
+    description: 'User profile: name, email, broker, enabled exchanges, products and order types',
+    load: kiteClient => kiteClient.getProfile(),
+    render: profile => markdownKeyValues(profile, ['user_id', 'user_name', 'user_shortname', 'email', 'broker', 'exchanges', 'products', 'order_types'])
+  },
+  {
+    name: 'holdings',
+    title: 'Holdings',
+    description: 'Long-term equity holdings with average price, last price and P&L',
+    load: kiteClient => kiteClient.getHoldings(),
+    render: holdings => markdownTable(holdings || [], [
+      'tradingsymbol', 'exchange', 'quantity', 't1_quantity', 'average_price', 'last_price', 'pnl',
+      { key: 'day_change_percentage', title: 'day_change_%' }
+    ])
+  },
+  {
+    name: 'positions',
+    title: 'Positions',
+    description: 'Net and day positions with P&L',
+    load: kiteClient => kiteClient.getPositions(),
+    render: positions => [
+      '## Net',
+      '',
+      markdownTable(positions?.net || [], ['tradingsymbol', 'exchange', 'product', 'quantity', 'average_price', 'last_price', 'pnl', 'm2m']),
+      '',
+      '## Day',
+      '',
+      markdownTable(positions?.day || [], ['tradingsymbol', 'exchange', 'product', 'quantity', 'buy_quantity', 'sell_quantity', 'pnl'])
+    ].join('\n')
+  },
+  {
+    name: 'orders',
+    title: 'Orders',
+    description: "Today's orders and their status",
+    load: kiteClient => kiteClient.getOrders(),
+    render: orders => markdownTable(orders || [], [
+      'order_id', 'order_timestamp', 'tradingsymbol', 'transaction_type', 'order_type', 'product',
+      'quantity', 'filled_quantity', 'price', 'trigger_price', 'average_price', 'status'
+    ])
+  },
+  {
+    name: 'margins',
+    title: 'Margins',
+    description: 'Available and utilised funds per segment',
+    load: kiteClient => kiteClient.getMargins(),
+    render: margins => markdownTable(
+      Object.entries(margins || {}).map(([segment, data]) => ({ segment, ...(data as object) })),
+      ['segment', 'net', 'available.cash', 'available.live_balance', 'available.collateral', 'utilised.debits', 'utilised.span', 'utilised.exposure', 'utilised.option_premium']
+    )
+  }
+];
+
+// Resources that come from the paper trading simulator rather than the live account in paper mode
+const SIMULATED_RESOURCES = new Set(['holdings', 'positions', 'orders', 'margins', 'order']);
+
+/**
+ * Read-only account data as MCP resources, so clients can attach it as context without a
+ * tool call. Every resource renders as JSON by default, or as markdown with ?format=markdown.
+ * Resources read the default account unless ?account=<user_id> is given.
+ */
+export class AccountResources implements ResourceProvider {
+  private readonly accountManager: AccountManager;
+  private readonly instrumentStore: InstrumentStore;
+
+  constructor(accountManager: AccountManager, instrumentStore: InstrumentStore) {
+    this.accountManager = accountManager;
+    this.instrumentStore = instrumentStore;
+  }
+
+  handles(uri: string): boolean {
+    if (!uri.startsWith(URI_PREFIX)) {
+      return false;
+    }
+    const [name] = uri.slice(URI_PREFIX.length).split(/[/?]/);
+    return STATIC_RESOURCES.some(r => r.name === name) || name === 'quote' || name === 'order' || name === 'instrument';
+  }
+
+  listResources(): Resource[] {
+    return STATIC_RESOURCES.flatMap(resource => [
+      {
+        uri: `${URI_PREFIX}${resource.name}`,
+        name: resource.title,
+        description: resource.description,
+        mimeType: 'application/json'
+      },
+      {
+        uri: `${URI_PREFIX}${resource.name}?format=markdown`,
+        name: `${resource.title} (markdown)`,
+        description: resource.description,
+        mimeType: 'text/markdown'
+      }
+    ]);
+  }
+
+  listTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${URI_PREFIX}quote/{exchange}/{symbol}{?format,account}`,
+        name: 'Quote',
+        description: 'Full market quote for an instrument: last price, OHLC, volume, OI and depth. format is json (default) or markdown; account is a Kite user ID (default account if omitted).',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: `${URI_PREFIX}order/{order_id}{?format,account}`,
+        name: 'Order',
+        description: 'An order and its state history. format is json (default) or markdown; account is a Kite user ID (default account if omitted).',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: `${URI_PREFIX}instrument/{exchange}/{symbol}{?format}`,
+        name: 'Instrument',
+        description: 'Instrument master record: token, segment, type, expiry, strike, tick size and lot size. format is json (default) or markdown.',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  async read(uri: string): Promise<ResourceContents> {
+    const [pathPart = '', query = ''] = uri.slice(URI_PREFIX.length).split('?', 2);
+    const searchParams = new URLSearchParams(query);
+    const format = parseFormat(searchParams.get('format'));
+    const kiteClient = this.getClient(searchParams.get('account'));
+    const [name = '', ...params] = pathPart.split('/').map(decodeURIComponent);
+
+    const staticResource = STATIC_RESOURCES.find(r => r.name === name);
+    let data: any;
+    let render: (data: any) => string;
+    let title: string;
+
+    if (staticResource && params.length === 0) {
+      this.assertAuthenticated(kiteClient);
+      data = await staticResource.load(kiteClient);
+      render = staticResource.render;
+      title = staticResource.title;
+    } else if (name === 'quote' && params.length === 2) {
+      this.assertAuthenticated(kiteClient);
+      const instrument = `${params[0]!.toUpperCase()}:${params[1]!.toUpperCase()}`;
+      const quotes = await kiteClient.getQuote([instrument]);
+      data = quotes?.[instrument];
+      if (!data) {
+        throw new McpError(ErrorCode.InvalidParams, `No quote for ${instrument}`);
+      }
+      render = renderQuote;
+      title = `Quote: ${instrument}`;
+    } else if (name === 'order' && params.length === 1) {
+      this.assertAuthenticated(kiteClient);
+      const history: any[] = await kiteClient.getOrderHistory(params[0]!) || [];
+      data = { order_id: params[0], status: history[history.length - 1]?.status ?? null, history };
+      render = renderOrder;
+      title = `Order ${params[0]}`;
+    } else if (name === 'instrument' && params.length === 2) {
+      data = await this.instrumentStore.findBySymbol(params[0]!.toUpperCase(), params[1]!.toUpperCase());
+      if (!data) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown instrument ${params[0]}:${params[1]}`);
+      }
+      render = instrument => markdownKeyValues(instrument);
+      title = `Instrument: ${data.exchange}:${data.tradingsymbol}`;
+    } else {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    const simulated = kiteClient.isSimulated() && SIMULATED_RESOURCES.has(name);
+
+    if (format === 'markdown') {
+      const banner = simulated ? '> Paper trading: this data is simulated, not from the live account.\n\n' : '';
+      return { uri, mimeType: 'text/markdown', text: `# ${title}\n\n${banner}${render(data)}\n` };
+    }
+
+    // Same envelope as tool results in paper mode
+    const payload = simulated ? { simulated: true, trading_mode: 'paper', result: data } : data;
+    return { uri, mimeType: 'application/json', text: JSON.stringify(payload, null, 2) };
+  }
+
+  private getClient(account: string | null): KiteClient {
+    try {
+      return this.accountManager.get(account ?? undefined).kiteClient;
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private assertAuthenticated(kiteClient: KiteClient): void {
+    if (!kiteClient.isReady()) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        'Not authenticated with Kite API. Please run authentication first.'
+      );
+    }
+  }
+}
+
+function parseFormat(value: string | null): ResourceFormat {
+  if (value === null || value === 'json') {
+    return 'json';
+  }
+  if (value === 'markdown' || value === 'md') {
+    return 'markdown';
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Unsupported format "${value}". Use json or markdown.`);
+}
+
+function renderQuote(quote: any): string {
+  const levels = Math.max(quote.depth?.buy?.length ?? 0, quote.depth?.sell?.length ?? 0);
+  const depth = Array.from({ length: levels }, (_, i) => ({
+    bid_orders: quote.depth.buy?.[i]?.orders,
+    bid_quantity: quote.depth.buy?.[i]?.quantity,
+    bid: quote.depth.buy?.[i]?.price,
+    ask: quote.depth.sell?.[i]?.price,
+    ask_quantity: quote.depth.sell?.[i]?.quantity,
+    ask_orders: quote.depth.sell?.[i]?.orders
+  }));
+
+  return [
+    markdownKeyValues(quote, [
+      'instrument_token', 'last_price', 'last_quantity', 'average_price', 'net_change', 'volume',
+      'ohlc.open', 'ohlc.high', 'ohlc.low', 'ohlc.close', 'oi', 'lower_circuit_limit', 'upper_circuit_limit',
+      'last_trade_time'
+    ]),
+    '',
+    '## Depth',
+    '',
+    markdownTable(depth, ['bid_orders', 'bid_quantity', 'bid', 'ask', 'ask_quantity', 'ask_orders'])
+  ].join('\n');
+}
+
+function renderOrder(order: any): string {
+  const latest = order.history[order.history.length - 1];
+  return [
+    latest
+      ? markdownKeyValues(latest, ['status', 'status_message', 'tradingsymbol', 'exchange', 'transaction_type', 'order_type', 'product', 'variety', 'quantity', 'filled_quantity', 'pending_quantity', 'price', 'trigger_price', 'average_price'])
+      : '_No history_',
+    '',
+    '## History',
+    '',
+    markdownTable(order.history, ['order_timestamp', 'status', 'quantity', 'filled_quantity', 'price', 'trigger_price', 'average_price', 'status_message'])
+  ].join('\n');
+}
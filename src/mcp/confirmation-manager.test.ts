@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ConfigManager } from '../config/environment.js';
+import { ConfirmationManager } from './confirmation-manager.js';
+import type { BaseTool, ToolContext } from './tools/index.js';
+
+Object.assign(process.env, {
+  API_KEY: 'key',
+  API_SECRET: 'secret',
+  CONFIRMATION_MODES: 'place_order=token,cancel_order=token',
+  CONFIRMATION_TOKEN_TTL_SECONDS: '60'
+});
+
+const server = { getClientCapabilities: () => undefined } as unknown as Server;
+
+let manager: ConfirmationManager;
+
+beforeEach(() => {
+  manager = new ConfirmationManager(new ConfigManager(), [tool('place_order'), tool('cancel_order')]);
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+function tool(name: string): BaseTool {
+  return { name, preview: async (args: any) => ({ tool: name, arguments: args }) } as unknown as BaseTool;
+}
+
+function context(account: string | null = null, sessionId = 'session-1'): ToolContext {
+  return { sessionId, account, accountManager: { getDefaultAccountId: () => 'AB1234' } } as unknown as ToolContext;
+}
+
+async function issueToken(toolName = 'place_order', account: string | null = null): Promise<string> {
+  const outcome = await manager.authorize(tool(toolName), { quantity: 1 }, context(account), server);
+  if (outcome.approved) throw new Error('Expected a confirmation token');
+  return outcome.result.confirmation_token;
+}
+
+async function redeem(token: string, toolName = 'place_order', account: string | null = null, sessionId?: string) {
+  return manager.authorize(tool(toolName), { confirmation_token: token }, context(account, sessionId), server);
+}
+
+async function rejection(promise: Promise<unknown>): Promise<McpError> {
+  const error = await promise.then(() => undefined, error => error);
+  expect(error).toBeInstanceOf(McpError);
+  expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+  return error as McpError;
+}
+
+describe('ConfirmationManager tokens', () => {
+  test('redeems a token once with the previewed arguments', async () => {
+    const token = await issueToken();
+
+    expect(await redeem(token)).toEqual({ approved: true, args: { quantity: 1 } });
+    expect((await rejection(redeem(token))).message).toContain('Invalid or expired confirmation token');
+  });
+
+  test('rejects an expired token', async () => {
+    setSystemTime(new Date('2026-01-05T10:00:00Z'));
+    const token = await issueToken();
+    setSystemTime(new Date('2026-01-05T10:01:00Z'));
+
+    expect((await rejection(redeem(token))).message).toContain('Invalid or expired confirmation token');
+  });
+
+  test('rejects a token from another session', async () => {
+    const token = await issueToken();
+
+    expect((await rejection(redeem(token, 'place_order', null, 'session-2'))).message).toContain('Invalid or expired confirmation token');
+  });
+
+  test('rejects a token issued for another tool', async () => {
+    const token = await issueToken('cancel_order');
+
+    expect((await rejection(redeem(token))).message).toContain('issued for cancel_order, not place_order');
+  });
+
+  test('rejects a token issued for another account', async () => {
+    const token = await issueToken('place_order', 'CD5678');
+
+    expect((await rejection(redeem(token))).message).toContain('issued for account CD5678, not null');
+  });
+});
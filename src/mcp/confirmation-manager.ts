@@ -0,0 +1,173 @@
+import { randomBytes } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ErrorCode, McpError, type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ConfigManager, type ConfirmationMode } from '../config/environment.js';
+import type { BaseTool, ToolContext } from './tools/index.js';
+
+interface PendingConfirmation {
+  toolName: string;
+  sessionId: string;
+  account: string | null;
+  args: any;
+  expiresAt: number;
+}
+
+export type ConfirmationOutcome =
+  | { approved: true; args: any }
+  | { approved: false; result: any };
+
+/**
+ * Two-phase confirmation for tools whose effects cannot be undone. Depending on the tool's
+ * mode, a call first returns a preview with a short-lived confirmation token, or asks the
+ * user to approve the preview through an MCP elicitation request.
+ */
+export class ConfirmationManager {
+  private readonly modes: Record<string, ConfirmationMode>;
+  private readonly tokenTtlMs: number;
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  constructor(config: ConfigManager, tools: BaseTool[]) {
+    this.modes = config.getConfirmationModes();
+    this.tokenTtlMs = config.getConfirmationTokenTtlSeconds() * 1000;
+
+    const toolNames = tools.map(tool => tool.name);
+    for (const name of Object.keys(this.modes)) {
+      if (!toolNames.includes(name)) {
+        console.error(`Warning: CONFIRMATION_MODES references unknown tool "${name}"`);
+      }
+    }
+  }
+
+  /**
+   * Get the confirmation mode for a tool
+   */
+  getMode(toolName: string): ConfirmationMode {
+    return this.modes[toolName] ?? 'none';
+  }
+
+  /**
+   * Add the confirmation_token argument to the definition of tools that need confirmation
+   */
+  decorateDefinition(definition: Tool): Tool {
+    if (this.getMode(definition.name) === 'none') {
+      return definition;
+    }
+
+    return {
+      ...definition,
+      description: `${definition.description} Requires confirmation: the first call returns a preview and a confirmation_token; call again with only the confirmation_token (and the same account, if one was given) to execute.`,
+      inputSchema: {
+        ...definition.inputSchema,
+        properties: {
+          ...definition.inputSchema.properties,
+          confirmation_token: {
+            type: 'string',
+            description: 'Token returned by the preview call. When present, all other arguments except account are ignored.'
+          }
+        }
+      }
+    };
+  }
+
+  /**
+   * Decide whether a tool call may execute now, or return the preview/decline result instead
+   */
+  async authorize(tool: BaseTool, args: any, context: ToolContext, server: Server): Promise<ConfirmationOutcome> {
+    const mode = this.getMode(tool.name);
+    if (mode === 'none') {
+      return { approved: true, args };
+    }
+
+    if (args.confirmation_token) {
+      return { approved: true, args: this.consumeToken(args.confirmation_token, tool.name, context) };
+    }
+
+    const preview = await tool.preview(args, context);
+
+    if (mode === 'elicit' && server.getClientCapabilities()?.elicitation) {
+      const response = await server.elicitInput({
+        message: `Confirm ${tool.name}:\n${JSON.stringify(preview, null, 2)}`,
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: {
+              type: 'boolean',
+              title: 'Execute',
+              description: `Execute ${tool.name} as previewed`
+            }
+          },
+          required: ['confirm']
+        }
+      });
+
+      if (response.action === 'accept' && response.content?.confirm === true) {
+        return { approved: true, args };
+      }
+
+      return {
+        approved: false,
+        result: { status: 'declined', action: response.action, preview }
+      };
+    }
+
+    // Token mode, or elicitation requested but not supported by the client
+    const token = this.issueToken(tool.name, args, context);
+    const redeemArgs = context.account && context.account !== context.accountManager.getDefaultAccountId()
+      ? { confirmation_token: token, account: context.account }
+      : { confirmation_token: token };
+    return {
+      approved: false,
+      result: {
+        status: 'confirmation_required',
+        preview,
+        confirmation_token: token,
+        expires_at: new Date(this.pending.get(token)!.expiresAt).toISOString(),
+        instructions: `Review the preview, then call ${tool.name} again with ${JSON.stringify(redeemArgs)} to execute.`
+      }
+    };
+  }
+
+  private issueToken(toolName: string, args: any, context: ToolContext): string {
+    this.pruneExpired();
+
+    const token = randomBytes(8).toString('hex');
+    const { confirmation_token, ...storedArgs } = args;
+    this.pending.set(token, {
+      toolName,
+      sessionId: context.sessionId,
+      account: context.account,
+      args: storedArgs,
+      expiresAt: Date.now() + this.tokenTtlMs
+    });
+    return token;
+  }
+
+  private consumeToken(token: string, toolName: string, context: ToolContext): any {
+    this.pruneExpired();
+
+    // Tokens can only be redeemed by the client session that received the preview
+    const pending = this.pending.get(token);
+    if (!pending || pending.sessionId !== context.sessionId) {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid or expired confirmation token. Call the tool again without a token to get a new preview.');
+    }
+    if (pending.toolName !== toolName) {
+      throw new McpError(ErrorCode.InvalidParams, `Confirmation token was issued for ${pending.toolName}, not ${toolName}`);
+    }
+    if (pending.account !== context.account) {
+      throw new McpError(ErrorCode.InvalidParams, `Confirmation token was issued for account ${pending.account}, not ${context.account}. Pass the same account argument as the preview call.`);
+    }
+
+    // Tokens are single use
+    this.pending.delete(token);
+    return pending.args;
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
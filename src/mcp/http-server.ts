@@ -0,0 +1,335 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ConfigManager } from '../config/environment.js';
+import { McpSession } from './session.js';
+import { SseServerTransport } from './sse-transport.js';
+
+export const MCP_PATH = '/mcp';
+export const SSE_PATH = '/sse';
+export const MESSAGES_PATH = '/messages';
+
+export type SessionFactory = (sessionId: string) => McpSession;
+
+interface HttpSession {
+  session: McpSession;
+  transport: WebStandardStreamableHTTPServerTransport | SseServerTransport;
+  // Token that opened the session; every later request must present the same one
+  credential: string;
+  lastActivity: number;
+  // Event streams the client holds open; a session with one is never idle
+  openStreams: number;
+}
+
+const CORS_ALLOW_HEADERS = 'Authorization, Content-Type, X-API-Key, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID';
+const CORS_EXPOSE_HEADERS = 'Mcp-Session-Id, Mcp-Protocol-Version';
+
+/**
+ * Serves MCP over HTTP with Bun: Streamable HTTP at /mcp, and the legacy HTTP+SSE transport
+ * at /sse and /messages for older clients. Each client session gets its own McpSession.
+ * Requests must carry one of HTTP_AUTH_TOKENS as a bearer token or X-API-Key header, and
+ * browser requests must come from one of HTTP_ALLOWED_ORIGINS.
+ */
+export class HttpTransportServer {
+  private readonly authTokens: string[];
+  private readonly allowedOrigins: string[];
+  private readonly idleTimeoutMs: number;
+  private readonly createSession: SessionFactory;
+  private readonly sessions = new Map<string, HttpSession>();
+  private server: ReturnType<typeof Bun.serve> | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: ConfigManager, createSession: SessionFactory) {
+    this.authTokens = config.getHttpAuthTokens();
+    this.allowedOrigins = config.getHttpAllowedOrigins();
+    this.idleTimeoutMs = config.getHttpSessionIdleTimeoutSeconds() * 1000;
+    this.createSession = createSession;
+  }
+
+  /**
+   * Start listening. Refuses to serve a non-loopback address without authentication.
+   */
+  start(host: string, port: number): void {
+    if (this.authTokens.length === 0) {
+      if (!isLoopback(host)) {
+        throw new Error(`HTTP_AUTH_TOKENS must be set to serve MCP on ${host}; only loopback addresses may run without authentication`);
+      }
+      console.error('Warning: HTTP_AUTH_TOKENS is not set; any local process can use this server');
+    }
+
+    this.server = Bun.serve({
+      hostname: host,
+      port,
+      // Event streams stay open with nothing to send for long periods
+      idleTimeout: 0,
+      fetch: request => this.handle(request)
+    });
+
+    if (this.idleTimeoutMs > 0) {
+      this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.idleTimeoutMs, 60000));
+      this.sweepTimer.unref();
+    }
+
+    console.error(`Kite MCP Server listening on http://${host}:${this.server.port}${MCP_PATH} (legacy SSE at ${SSE_PATH})`);
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    await Promise.all([...this.sessions.values()].map(entry => entry.session.close()));
+    await this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Number of open client sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const origin = request.headers.get('origin');
+    if (origin && !this.isAllowedOrigin(origin)) {
+      return jsonRpcError(403, `Origin ${origin} is not allowed`);
+    }
+
+    const cors: Record<string, string> = origin
+      ? { 'Access-Control-Allow-Origin': origin, 'Access-Control-Expose-Headers': CORS_EXPOSE_HEADERS, Vary: 'Origin' }
+      : {};
+
+    // Preflight requests carry no credentials
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 204,
+        headers: {
+          ...cors,
+          'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+          'Access-Control-Allow-Headers': CORS_ALLOW_HEADERS,
+          'Access-Control-Max-Age': '600'
+        }
+      });
+    }
+
+    let response: Response;
+    try {
+      response = await this.route(request, cors);
+    } catch (error) {
+      console.error(`HTTP request failed: ${error instanceof Error ? error.message : String(error)}`);
+      response = jsonRpcError(500, 'Internal server error', -32603);
+    }
+
+    for (const [name, value] of Object.entries(cors)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  }
+
+  private async route(request: Request, cors: Record<string, string>): Promise<Response> {
+    const url = new URL(request.url);
+
+    const credential = this.authenticate(request);
+    if (credential === null) {
+      const response = jsonRpcError(401, 'Unauthorized: send a valid token as "Authorization: Bearer <token>" or "X-API-Key: <token>"');
+      response.headers.set('WWW-Authenticate', 'Bearer');
+      return response;
+    }
+
+    switch (url.pathname) {
+      case MCP_PATH:
+        return this.handleStreamableRequest(request, credential);
+      case SSE_PATH:
+        return request.method === 'GET'
+          ? this.openSseStream(credential, cors)
+          : jsonRpcError(405, 'Method not allowed');
+      case MESSAGES_PATH:
+        return request.method === 'POST'
+          ? this.handleSseMessage(request, url, credential)
+          : jsonRpcError(405, 'Method not allowed');
+      default:
+        return jsonRpcError(404, `Not found. The MCP endpoint is ${MCP_PATH}`);
+    }
+  }
+
+  private async handleStreamableRequest(request: Request, credential: string): Promise<Response> {
+    const sessionId = request.headers.get('mcp-session-id');
+    if (sessionId) {
+      const entry = this.findSession(sessionId, credential);
+      if (!entry || !(entry.transport instanceof WebStandardStreamableHTTPServerTransport)) {
+        return jsonRpcError(404, 'Session not found', -32001);
+      }
+      return this.trackStream(entry, await entry.transport.handleRequest(request));
+    }
+
+    // Without a session ID the only valid request is an initialize POST
+    if (request.method !== 'POST') {
+      return jsonRpcError(400, 'Bad Request: Mcp-Session-Id header is required');
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonRpcError(400, 'Parse error: invalid JSON', -32700);
+    }
+    if (!isInitializeRequest(body)) {
+      return jsonRpcError(400, 'Bad Request: no valid session ID provided');
+    }
+
+    const id = randomUUID();
+    const session = this.createSession(id);
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => id,
+      onsessioninitialized: () => {
+        this.sessions.set(id, { session, transport, credential, lastActivity: Date.now(), openStreams: 0 });
+      }
+    });
+    transport.onclose = () => this.sessions.delete(id);
+
+    await session.connect(transport);
+    const response = await transport.handleRequest(request, { parsedBody: body });
+
+    // Initialization was rejected, so the client cannot use this session
+    if (!this.sessions.has(id)) {
+      await session.close();
+    }
+    return response;
+  }
+
+  private async openSseStream(credential: string, cors: Record<string, string>): Promise<Response> {
+    const transport = new SseServerTransport(MESSAGES_PATH);
+    const session = this.createSession(transport.sessionId);
+    // The session closes with its stream, so it stays open for the session's lifetime
+    this.sessions.set(transport.sessionId, { session, transport, credential, lastActivity: Date.now(), openStreams: 1 });
+    transport.onclose = () => this.sessions.delete(transport.sessionId);
+
+    const response = transport.createResponse(cors);
+    await session.connect(transport);
+    return response;
+  }
+
+  private async handleSseMessage(request: Request, url: URL, credential: string): Promise<Response> {
+    const entry = this.findSession(url.searchParams.get('sessionId') ?? '', credential);
+    if (!entry || !(entry.transport instanceof SseServerTransport)) {
+      return jsonRpcError(404, 'Session not found', -32001);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return jsonRpcError(400, 'Parse error: invalid JSON', -32700);
+    }
+
+    try {
+      entry.transport.handleMessage(body);
+    } catch (error) {
+      return jsonRpcError(400, error instanceof Error ? error.message : String(error));
+    }
+    return new Response('Accepted', { status: 202 });
+  }
+
+  private findSession(sessionId: string, credential: string): HttpSession | undefined {
+    const entry = this.sessions.get(sessionId);
+    // A session opened with another token is reported as missing rather than forbidden
+    if (!entry || entry.credential !== credential) {
+      return undefined;
+    }
+    entry.lastActivity = Date.now();
+    return entry;
+  }
+
+  /**
+   * Count an event stream response as open until the client disconnects or the server ends it
+   */
+  private trackStream(entry: HttpSession, response: Response): Response {
+    if (!response.body || !response.headers.get('content-type')?.startsWith('text/event-stream')) {
+      return response;
+    }
+
+    const reader = response.body.getReader();
+    let open = true;
+    const closed = () => {
+      if (open) {
+        open = false;
+        entry.openStreams--;
+        entry.lastActivity = Date.now();
+      }
+    };
+    entry.openStreams++;
+
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            closed();
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          closed();
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        closed();
+        return reader.cancel(reason);
+      }
+    });
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  /**
+   * Token the request authenticated with, '' when authentication is disabled, or null if rejected
+   */
+  private authenticate(request: Request): string | null {
+    if (this.authTokens.length === 0) {
+      return '';
+    }
+
+    const authorization = request.headers.get('authorization');
+    const presented = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() ?? request.headers.get('x-api-key')?.trim();
+    if (!presented) {
+      return null;
+    }
+    return this.authTokens.find(token => safeEqual(token, presented)) ?? null;
+  }
+
+  private isAllowedOrigin(origin: string): boolean {
+    return this.allowedOrigins.some(allowed => allowed === '*' || allowed.replace(/\/$/, '').toLowerCase() === origin.toLowerCase());
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [id, entry] of this.sessions) {
+      if (entry.openStreams === 0 && entry.lastActivity < cutoff) {
+        console.error(`Closing idle MCP session ${id}`);
+        entry.session.close().catch(error => {
+          console.error(`Failed to close session ${id}: ${error instanceof Error ? error.message : String(error)}`);
+        });
+      }
+    }
+  }
+}
+
+function jsonRpcError(status: number, message: string, code = -32000): Response {
+  return Response.json({ jsonrpc: '2.0', error: { code, message }, id: null }, { status });
+}
+
+// Compare digests so the comparison takes the same time whatever the token lengths
+function safeEqual(expected: string, actual: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(expected), digest(actual));
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
@@ -0,0 +1,65 @@
+export interface MarkdownColumn {
+  key: string;
+  title?: string;
+}
+
+/**
+ * Render rows as a markdown table. Keys may be dotted paths into nested objects.
+ */
+export function markdownTable(rows: any[], columns: Array<string | MarkdownColumn>): string {
+  if (rows.length === 0) {
+    return '_None_';
+  }
+
+  const cols = columns.map(column => typeof column === 'string' ? { key: column } : column);
+  const header = `| ${cols.map(c => c.title ?? c.key).join(' | ')} |`;
+  const divider = `| ${cols.map(() => '---').join(' | ')} |`;
+  const body = rows.map(row => `| ${cols.map(c => formatCell(getPath(row, c.key))).join(' | ')} |`);
+  return [header, divider, ...body].join('\n');
+}
+
+/**
+ * Render an object's fields as a markdown bullet list. Nested objects are flattened with
+ * dotted keys.
+ */
+export function markdownKeyValues(data: Record<string, any>, keys?: string[]): string {
+  const entries = keys
+    ? keys.map(key => [key, getPath(data, key)] as const)
+    : flatten(data);
+  const lines = entries
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `- **${key}**: ${formatCell(value)}`);
+  return lines.length > 0 ? lines.join('\n') : '_None_';
+}
+
+function flatten(data: Record<string, any>, prefix = ''): Array<readonly [string, any]> {
+  return Object.entries(data ?? {}).flatMap(([key, value]) =>
+    value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+      ? flatten(value, `${prefix}${key}.`)
+      : [[`${prefix}${key}`, value] as const]
+  );
+}
+
+function getPath(data: any, key: string): any {
+  return key.split('.').reduce((value, part) => value?.[part], data);
+}
+
+function formatCell(value: any): string {
+  if (value === null || value === undefined || value === '') {
+    return '-';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatCell).join(', ');
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : String(Math.round(value * 100) / 100);
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  // Pipes would split the cell
+  return String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
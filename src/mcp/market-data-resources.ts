@@ -0,0 +1,207 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ErrorCode, McpError, type Resource, type ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { InstrumentStore } from '../instruments/instrument-store.js';
+import { TickerManager, type TickMode } from '../streaming/ticker-manager.js';
+import type { ResourceContents, ResourceProvider } from './resource-provider.js';
+
+const TICK_URI_PREFIX = 'kite://ticks/';
+
+// Mode used when a client subscribes to a tick resource that the ticker is not streaming yet
+const DEFAULT_RESOURCE_MODE: TickMode = 'quote';
+
+// Ticks can arrive several times a second; clients are told about each resource at most this often
+const UPDATE_INTERVAL_MS = 1000;
+
+/**
+ * Resource URI for an EXCHANGE:SYMBOL instrument
+ */
+export function tickResourceUri(instrument: string): string {
+  const [exchange, ...symbol] = instrument.split(':');
+  return `${TICK_URI_PREFIX}${exchange}/${encodeURIComponent(symbol.join(':'))}`;
+}
+
+/**
+ * Exposes ticker subscriptions as MCP resources. Subscribing to a resource sends
+ * notifications/resources/updated as ticks arrive; clients read the resource for the latest tick.
+ */
+export class MarketDataResources implements ResourceProvider {
+  private readonly tickerManager: TickerManager;
+  private readonly instrumentStore: InstrumentStore;
+  private readonly servers = new Set<Server>();
+  // Session servers subscribed to each instrument's canonical resource URI, with the URI each
+  // one subscribed with, which may differ in case or encoding
+  private readonly subscribers = new Map<string, Map<Server, string>>();
+  // Instruments the ticker streams only because a client subscribed to their resource
+  private readonly resourceOnlyTokens = new Set<number>();
+  private readonly lastUpdateSent = new Map<string, number>();
+  private readonly pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+  constructor(tickerManager: TickerManager, instrumentStore: InstrumentStore) {
+    this.tickerManager = tickerManager;
+    this.instrumentStore = instrumentStore;
+
+    this.tickerManager.onTicks(records => {
+      for (const record of records) {
+        const uri = tickResourceUri(record.instrument);
+        if (this.subscribers.has(uri)) {
+          this.scheduleUpdate(uri);
+        }
+      }
+    });
+
+    this.tickerManager.onSubscriptionsChanged(subscribed => {
+      // Instruments subscribed explicitly, e.g. with subscribe_market_data, keep streaming
+      // after the last resource subscriber leaves
+      for (const subscription of subscribed) {
+        this.resourceOnlyTokens.delete(subscription.instrument_token);
+      }
+
+      for (const server of this.servers) {
+        server.sendResourceListChanged().catch(() => {
+          // Not connected yet; the client lists resources on connect anyway
+        });
+      }
+    });
+  }
+
+  attach(server: Server): () => void {
+    this.servers.add(server);
+    return () => {
+      this.servers.delete(server);
+      const uris = [...this.subscribers.values()].flatMap(servers => servers.get(server) ?? []);
+      for (const uri of uris) {
+        this.unsubscribe(uri, server).catch(error => {
+          console.error(`Failed to unsubscribe ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+        });
+      }
+    };
+  }
+
+  /**
+   * One resource per instrument the ticker is streaming
+   */
+  listResources(): Resource[] {
+    return this.tickerManager.getSubscriptions().map(subscription => ({
+      uri: tickResourceUri(subscription.instrument),
+      name: `${subscription.instrument} ticks`,
+      description: `Latest ${subscription.mode} tick for ${subscription.instrument}`,
+      mimeType: 'application/json'
+    }));
+  }
+
+  listTemplates(): ResourceTemplate[] {
+    return [{
+      uriTemplate: `${TICK_URI_PREFIX}{exchange}/{tradingsymbol}`,
+      name: 'Live ticks',
+      description: 'Latest tick for an instrument. Subscribe to stream it and receive update notifications.',
+      mimeType: 'application/json'
+    }];
+  }
+
+  handles(uri: string): boolean {
+    return uri.startsWith(TICK_URI_PREFIX);
+  }
+
+  async read(uri: string): Promise<ResourceContents> {
+    const instrument = await this.resolveUri(uri);
+    const subscription = this.tickerManager.getSubscription(instrument.instrument_token);
+    if (!subscription) {
+      throw new McpError(ErrorCode.InvalidParams, `${instrument.instrument} is not being streamed. Subscribe to ${uri} first.`);
+    }
+
+    const record = this.tickerManager.getLastTick(instrument.instrument_token);
+    const body = record
+      ? { ...record, mode: subscription.mode }
+      : { instrument: subscription.instrument, instrument_token: subscription.instrument_token, mode: subscription.mode, tick: null, status: 'waiting for first tick' };
+
+    return { uri, mimeType: 'application/json', text: JSON.stringify(body, null, 2) };
+  }
+
+  /**
+   * Start sending updates for a resource, streaming the instrument if it is not already
+   */
+  async subscribe(uri: string, server: Server): Promise<void> {
+    const instrument = await this.resolveUri(uri);
+    if (!this.tickerManager.getSubscription(instrument.instrument_token)) {
+      this.tickerManager.subscribe([instrument], DEFAULT_RESOURCE_MODE);
+      // Marked after subscribing, as the subscribe notification clears the mark
+      this.resourceOnlyTokens.add(instrument.instrument_token);
+    }
+
+    const key = tickResourceUri(instrument.instrument);
+    let servers = this.subscribers.get(key);
+    if (!servers) {
+      servers = new Map();
+      this.subscribers.set(key, servers);
+    }
+    servers.set(server, uri);
+  }
+
+  /**
+   * Stop sending updates for a resource, and stop streaming it once no session needs it
+   */
+  async unsubscribe(uri: string, server: Server): Promise<void> {
+    const instrument = await this.resolveUri(uri);
+    const key = tickResourceUri(instrument.instrument);
+    const servers = this.subscribers.get(key);
+    servers?.delete(server);
+    if (servers && servers.size > 0) {
+      return;
+    }
+
+    this.subscribers.delete(key);
+    this.lastUpdateSent.delete(key);
+    const pending = this.pendingUpdates.get(key);
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingUpdates.delete(key);
+    }
+
+    if (this.resourceOnlyTokens.delete(instrument.instrument_token)) {
+      this.tickerManager.unsubscribe([instrument.instrument_token]);
+    }
+  }
+
+  private scheduleUpdate(key: string): void {
+    if (this.pendingUpdates.has(key)) {
+      return;
+    }
+
+    const wait = (this.lastUpdateSent.get(key) ?? 0) + UPDATE_INTERVAL_MS - Date.now();
+    if (wait <= 0) {
+      this.sendUpdate(key);
+      return;
+    }
+
+    // Coalesce ticks inside the interval into one trailing update
+    this.pendingUpdates.set(key, setTimeout(() => {
+      this.pendingUpdates.delete(key);
+      this.sendUpdate(key);
+    }, wait));
+  }
+
+  private sendUpdate(key: string): void {
+    this.lastUpdateSent.set(key, Date.now());
+    for (const [server, uri] of this.subscribers.get(key) ?? []) {
+      server.sendResourceUpdated({ uri }).catch(error => {
+        console.error(`Failed to send resource update for ${uri}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  private async resolveUri(uri: string): Promise<{ instrument: string; instrument_token: number }> {
+    const match = uri.startsWith(TICK_URI_PREFIX) ? uri.slice(TICK_URI_PREFIX.length).match(/^([^/]+)\/(.+)$/) : null;
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid tick resource URI: ${uri}. Expected ${TICK_URI_PREFIX}{exchange}/{tradingsymbol}`);
+    }
+
+    const exchange = match[1]!.toUpperCase();
+    const tradingsymbol = decodeURIComponent(match[2]!).toUpperCase();
+    const record = await this.instrumentStore.findBySymbol(exchange, tradingsymbol);
+    if (!record) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown instrument ${exchange}:${tradingsymbol}`);
+    }
+
+    return { instrument: `${record.exchange}:${record.tradingsymbol}`, instrument_token: record.instrument_token };
+  }
+}
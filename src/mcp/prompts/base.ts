@@ -0,0 +1,60 @@
+import type { Prompt, PromptArgument, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolContext } from '../tools/base.js';
+import type { ResourceContents } from '../resource-provider.js';
+
+export interface PromptContext extends ToolContext {
+  readResource(uri: string): Promise<ResourceContents>;
+}
+
+export abstract class BasePrompt {
+  abstract readonly name: string;
+  abstract readonly description: string;
+  readonly arguments: PromptArgument[] = [];
+
+  getDefinition(): Prompt {
+    return {
+      name: this.name,
+      description: this.description,
+      arguments: this.arguments
+    };
+  }
+
+  /**
+   * Build the prompt messages, embedding live account and market data
+   */
+  abstract render(args: Record<string, string>, context: PromptContext): Promise<PromptMessage[]>;
+}
+
+export function textMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+/**
+ * Embed a server resource (e.g. kite://holdings?format=markdown) in the prompt
+ */
+export async function resourceMessage(uri: string, context: PromptContext): Promise<PromptMessage> {
+  try {
+    return { role: 'user', content: { type: 'resource', resource: await context.readResource(uri) } };
+  } catch (error) {
+    return textMessage(`(${uri} unavailable: ${error instanceof Error ? error.message : String(error)})`);
+  }
+}
+
+/**
+ * Embed computed data as a titled JSON block
+ */
+export function dataMessage(title: string, data: any): PromptMessage {
+  return textMessage(`## ${title}\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``);
+}
+
+/**
+ * Run a data lookup that is useful but not essential to the prompt, reporting failures
+ * inline instead of failing the whole prompt
+ */
+export async function optional<T>(load: () => Promise<T>): Promise<T | { unavailable: string }> {
+  try {
+    return await load();
+  } catch (error) {
+    return { unavailable: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,234 @@
+import type { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { OptionPositionRisk } from '../../options/position-risk.js';
+import { PlaceOrderTool } from '../tools/index.js';
+import { markdownTable } from '../markdown.js';
+import {
+  BasePrompt,
+  dataMessage,
+  optional,
+  resourceMessage,
+  textMessage,
+  type PromptContext
+} from './base.js';
+
+export { BasePrompt, type PromptContext } from './base.js';
+
+export class MorningPortfolioReviewPrompt extends BasePrompt {
+  readonly name = 'morning_portfolio_review';
+  readonly description = 'Review holdings, positions, funds and open orders before the market opens';
+
+  async render(args: Record<string, string>, context: PromptContext): Promise<PromptMessage[]> {
+    const analyticsSummary = await optional(async () => {
+      // Holdings and positions are embedded in full below
+      const { holdings, positions, ...summary } = await context.portfolioAnalyzer.analyze({ topN: 5 });
+      return summary;
+    });
+
+    return [
+      textMessage([
+        'Review my trading account before the market opens, using the data below.',
+        '',
+        '1. Summarise portfolio value, unrealised P&L and the overnight (day) change.',
+        '2. Flag concentration risk: the largest holdings and sectors, and whether any single name or sector dominates.',
+        '3. List the biggest contributors and detractors and anything that moved sharply.',
+        '4. Check open positions carried overnight, and whether available margin covers them.',
+        '5. Note open orders and active alerts that may trigger today.',
+        '6. End with a short list of items to act on or watch today. Do not place or modify any orders.'
+      ].join('\n')),
+      dataMessage('Portfolio analytics', analyticsSummary),
+      await resourceMessage('kite://holdings?format=markdown', context),
+      await resourceMessage('kite://positions?format=markdown', context),
+      await resourceMessage('kite://margins?format=markdown', context),
+      await resourceMessage('kite://orders?format=markdown', context),
+      dataMessage('Active alerts', context.alertEngine.list('active'))
+    ];
+  }
+}
+
+export class PreTradeChecklistPrompt extends BasePrompt {
+  readonly name = 'pre_trade_checklist';
+  readonly description = 'Work through a pre-trade checklist for a symbol: liquidity, circuit limits, existing exposure, margin and risk policy';
+  override readonly arguments = [
+    { name: 'symbol', description: 'Instrument as EXCHANGE:SYMBOL (e.g., NSE:INFY)', required: true },
+    { name: 'side', description: 'BUY or SELL', required: false },
+    { name: 'quantity', description: 'Intended quantity', required: false },
+    { name: 'price', description: 'Intended limit price (market order if omitted)', required: false },
+    { name: 'product', description: 'CNC, MIS or NRML (default CNC for equity, NRML for derivatives)', required: false }
+  ];
+
+  async render(args: Record<string, string>, context: PromptContext): Promise<PromptMessage[]> {
+    const instrument = await context.instrumentStore.resolve(args.symbol!);
+    if (!instrument) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown instrument: ${args.symbol}. Use EXCHANGE:SYMBOL (e.g., NSE:INFY).`);
+    }
+    const { exchange, tradingsymbol } = instrument;
+    const path = `${exchange}/${encodeURIComponent(tradingsymbol)}`;
+
+    const exposure = await optional(async () => {
+      const [holdings, positions] = await Promise.all([context.kiteClient.getHoldings(), context.kiteClient.getPositions()]);
+      const matches = (row: any) => row.exchange === exchange && row.tradingsymbol === tradingsymbol;
+      return {
+        holdings: (holdings || []).filter(matches),
+        positions: (positions?.net || []).filter(matches)
+      };
+    });
+
+    const messages = [
+      textMessage([
+        `Run my pre-trade checklist for ${exchange}:${tradingsymbol}${args.side ? ` (${args.side.toUpperCase()}${args.quantity ? ` ${args.quantity}` : ''}${args.price ? ` @ ${args.price}` : ''})` : ''}.`,
+        '',
+        'Go through each item and mark it PASS, WARN or FAIL with a one-line reason:',
+        '1. Liquidity: bid/ask spread and depth relative to the intended quantity.',
+        '2. Circuit limits: distance of the last price (and limit price, if any) from the lower and upper circuit.',
+        '3. Contract details: lot size and tick size; the quantity must be a multiple of the lot size and the price of the tick size.',
+        '4. Existing exposure: current holdings and positions in this instrument and what this trade does to them.',
+        '5. Funds: required margin against available margin.',
+        '6. Risk policy: any violations reported below.',
+        '7. Exit plan: suggest a stop-loss and target based on the day range, and whether a GTT would suit.',
+        '',
+        'Finish with an overall GO / NO-GO. Do not place the order.'
+      ].join('\n')),
+      await resourceMessage(`kite://quote/${path}?format=markdown`, context),
+      await resourceMessage(`kite://instrument/${path}?format=markdown`, context),
+      dataMessage('Existing exposure', exposure),
+      await resourceMessage('kite://margins?format=markdown', context),
+      dataMessage('Risk policy', context.riskManager.getPolicy())
+    ];
+
+    if (args.side && args.quantity) {
+      const isDerivative = ['NFO', 'BFO', 'MCX', 'CDS'].includes(exchange);
+      const order = {
+        exchange,
+        tradingsymbol,
+        transaction_type: args.side.toUpperCase(),
+        order_type: args.price ? 'LIMIT' : 'MARKET',
+        quantity: Number(args.quantity),
+        product: args.product?.toUpperCase() || (isDerivative ? 'NRML' : 'CNC'),
+        ...(args.price ? { price: Number(args.price) } : {})
+      };
+      messages.push(dataMessage('Proposed order check (risk policy and margin)', await optional(() => new PlaceOrderTool().preview(order, context))));
+    }
+
+    return messages;
+  }
+}
+
+export class EndOfDayPnlSummaryPrompt extends BasePrompt {
+  readonly name = 'end_of_day_pnl_summary';
+  readonly description = "Summarise today's trades, realised and unrealised P&L, and positions carried overnight";
+
+  async render(args: Record<string, string>, context: PromptContext): Promise<PromptMessage[]> {
+    const trades = await optional(() => context.kiteClient.getTrades());
+    const pnl = await optional(async () => {
+      const { holdings, positions, allocation, concentration, ...summary } = await context.portfolioAnalyzer.analyze({ topN: 5 });
+      return summary;
+    });
+
+    return [
+      textMessage([
+        "Write my end-of-day P&L summary from today's data below.",
+        '',
+        '1. Headline: realised P&L, unrealised P&L on open positions, and the day change on holdings.',
+        '2. Trades: group fills by symbol with quantity, average buy and sell price and realised P&L per symbol.',
+        '3. Winners and losers of the day.',
+        '4. Positions carried overnight (NRML/CNC) and intraday (MIS) positions that are still open.',
+        '5. Orders that were rejected or are still pending.',
+        '6. Two or three observations about today\'s trading, such as overtrading, slippage or position sizing.'
+      ].join('\n')),
+      dataMessage('P&L summary', pnl),
+      textMessage(`## Trades\n\n${Array.isArray(trades)
+        ? markdownTable(trades, ['fill_timestamp', 'tradingsymbol', 'exchange', 'transaction_type', 'product', 'quantity', 'average_price', 'order_id'])
+        : JSON.stringify(trades)}`),
+      await resourceMessage('kite://positions?format=markdown', context),
+      await resourceMessage('kite://orders?format=markdown', context)
+    ];
+  }
+}
+
+export class OptionsRiskReviewPrompt extends BasePrompt {
+  readonly name = 'options_risk_review';
+  readonly description = 'Review the risk of open option and futures positions using position greeks computed from live prices';
+  override readonly arguments = [
+    { name: 'underlying', description: 'Limit the review to one underlying (e.g., NIFTY, BANKNIFTY)', required: false }
+  ];
+
+  async render(args: Record<string, string>, context: PromptContext): Promise<PromptMessage[]> {
+    const risk = await new OptionPositionRisk(context.kiteClient, context.instrumentStore).analyze(args.underlying);
+    if (risk.length === 0) {
+      return [textMessage(`I have no open option or futures positions${args.underlying ? ` in ${args.underlying.toUpperCase()}` : ''}. Confirm this and suggest nothing further.`)];
+    }
+
+    return [
+      textMessage([
+        `Review the risk of my open derivatives positions${args.underlying ? ` in ${args.underlying.toUpperCase()}` : ''}.`,
+        'Position greeks below are quantity-weighted (delta in units of the underlying, theta in rupees per day, vega in rupees per volatility point).',
+        '',
+        'For each underlying:',
+        '1. Directional exposure: net delta and its notional, and the P&L impact of a 1% and 2% move either way.',
+        '2. Gamma risk near expiry, especially for short options expiring within a week.',
+        '3. Theta: daily decay earned or paid.',
+        '4. Vega: exposure to a volatility spike or crush.',
+        '5. Strikes close to the spot price and any legs that could not be priced.',
+        '6. Whether available margin can absorb an adverse move.',
+        '',
+        'Suggest concrete hedges or adjustments, but do not place any orders.'
+      ].join('\n')),
+      dataMessage('Position greeks by underlying', risk),
+      await resourceMessage('kite://margins?format=markdown', context)
+    ];
+  }
+}
+
+export class OrderRejectionDiagnosisPrompt extends BasePrompt {
+  readonly name = 'order_rejection_diagnosis';
+  readonly description = 'Diagnose why an order was rejected and how to fix it';
+  override readonly arguments = [
+    { name: 'order_id', description: "Rejected order ID (defaults to today's most recent rejection)", required: false }
+  ];
+
+  async render(args: Record<string, string>, context: PromptContext): Promise<PromptMessage[]> {
+    let orderId = args.order_id;
+    if (!orderId) {
+      const orders: any[] = await context.kiteClient.getOrders() || [];
+      const rejected = orders.filter(order => order.status === 'REJECTED');
+      orderId = rejected[rejected.length - 1]?.order_id;
+      if (!orderId) {
+        return [textMessage('None of my orders were rejected today. Confirm this; there is nothing to diagnose.')];
+      }
+    }
+
+    const history: any[] = await context.kiteClient.getOrderHistory(orderId) || [];
+    const latest = history[history.length - 1];
+    const messages = [
+      textMessage([
+        `Diagnose why order ${orderId} was rejected, using its history and my account data below.`,
+        '',
+        '1. Quote the rejection message and explain it in plain language.',
+        '2. Identify the root cause. Common causes are insufficient funds, a price outside the circuit limits, a price not in multiples of the tick size, a quantity not in multiples of the lot size or above the freeze limit, an RMS block on the instrument or product, orders outside market hours (AMO needed), and stop-loss triggers on the wrong side of the last price.',
+        '3. Check the cause against the margins, quote and instrument details provided.',
+        '4. Give the corrected order parameters, or explain why the order cannot be placed. Do not place it.'
+      ].join('\n')),
+      await resourceMessage(`kite://order/${encodeURIComponent(orderId)}?format=markdown`, context),
+      await resourceMessage('kite://margins?format=markdown', context)
+    ];
+
+    if (latest?.exchange && latest?.tradingsymbol) {
+      const path = `${latest.exchange}/${encodeURIComponent(latest.tradingsymbol)}`;
+      messages.push(
+        await resourceMessage(`kite://quote/${path}?format=markdown`, context),
+        await resourceMessage(`kite://instrument/${path}?format=markdown`, context)
+      );
+    }
+
+    return messages;
+  }
+}
+
+export const ALL_PROMPTS: BasePrompt[] = [
+  new MorningPortfolioReviewPrompt(),
+  new PreTradeChecklistPrompt(),
+  new EndOfDayPnlSummaryPrompt(),
+  new OptionsRiskReviewPrompt(),
+  new OrderRejectionDiagnosisPrompt()
+];
@@ -0,0 +1,26 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * A family of MCP resources under a common URI prefix. Providers are shared by all client
+ * sessions; subscriptions are tracked per session server.
+ */
+export interface ResourceProvider {
+  handles(uri: string): boolean;
+  listResources(): Resource[];
+  listTemplates(): ResourceTemplate[];
+  read(uri: string): Promise<ResourceContents>;
+  subscribe?(uri: string, server: Server): Promise<void>;
+  unsubscribe?(uri: string, server: Server): Promise<void>;
+  /**
+   * Start sending notifications to a session's server. Returns a function that stops them
+   * and drops the session's subscriptions.
+   */
+  attach?(server: Server): () => void;
+}
@@ -1,132 +1,131 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  ErrorCode,
-  McpError
-} from '@modelcontextprotocol/sdk/types.js';
-import { ConfigManager } from '../config/environment.js';
+import { ConfigManager, type TransportMode } from '../config/environment.js';
 import { TokenManager } from '../auth/token-manager.js';
-import { KiteClient } from '../api/kite-client.js';
-import { ALL_TOOLS, type ToolContext } from './tools/index.js';
+import { AccountManager, type AccountSummary } from '../accounts/account-manager.js';
+import { InstrumentStore } from '../instruments/instrument-store.js';
+import { TickerManager } from '../streaming/ticker-manager.js';
+import { AlertEngine } from '../alerts/alert-engine.js';
+import { LoginManager } from '../auth/login-manager.js';
+import { AuditLog } from '../audit/audit-log.js';
+import { TradeStore } from '../tax/trade-store.js';
+import { TradeSyncer } from '../tax/trade-sync.js';
+import { ALL_TOOLS } from './tools/index.js';
+import { ConfirmationManager } from './confirmation-manager.js';
+import { MarketDataResources } from './market-data-resources.js';
+import { AccountResources } from './account-resources.js';
+import { McpSession, type SessionServices } from './session.js';
+import { HttpTransportServer } from './http-server.js';
+
+/**
+ * Overrides for the transport settings in the environment, e.g. from command-line flags
+ */
+export interface RunOptions {
+  transport?: TransportMode;
+  host?: string;
+  port?: number;
+}
 
 export class KiteMCPServer {
-  private readonly server: Server;
   private readonly config: ConfigManager;
   private readonly tokenManager: TokenManager;
-  private readonly kiteClient: KiteClient;
-  private readonly toolContext: ToolContext;
+  private readonly accountManager: AccountManager;
+  private readonly alertEngine: AlertEngine;
+  private readonly loginManager: LoginManager;
+  private readonly tradeSyncer: TradeSyncer;
+  private readonly services: SessionServices;
+  private stdioSession: McpSession | null = null;
+  private httpServer: HttpTransportServer | null = null;
 
   constructor() {
-    this.server = new Server(
-      {
-        name: 'kite-mcp-server',
-        version: '1.0.0',
-        description: 'MCP server for Zerodha Kite API integration'
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    // Initialize dependencies
+    // Initialize dependencies shared by all client sessions
     this.config = new ConfigManager();
-    this.tokenManager = new TokenManager();
-    this.kiteClient = new KiteClient(this.config, this.tokenManager);
-    this.toolContext = { kiteClient: this.kiteClient };
-
-    this.setupHandlers();
+    this.tokenManager = new TokenManager(this.config);
+    this.accountManager = new AccountManager(this.config, this.tokenManager);
+
+    // Market data is the same for every account, so shared services use the default account
+    const { kiteClient } = this.accountManager.get();
+    const instrumentStore = new InstrumentStore(this.config, kiteClient);
+    const tickerManager = new TickerManager(this.config, this.tokenManager);
+    this.alertEngine = new AlertEngine(this.config, kiteClient, tickerManager);
+    this.loginManager = new LoginManager(this.config, this.tokenManager, this.accountManager);
+    const tradeStore = new TradeStore(this.config);
+    this.tradeSyncer = new TradeSyncer(this.config, tradeStore, this.accountManager);
+    this.services = {
+      accountManager: this.accountManager,
+      instrumentStore,
+      tickerManager,
+      alertEngine: this.alertEngine,
+      loginManager: this.loginManager,
+      auditLog: new AuditLog(this.config),
+      tradeStore,
+      tradeSyncer: this.tradeSyncer,
+      confirmationManager: new ConfirmationManager(this.config, ALL_TOOLS),
+      resourceProviders: [
+        new AccountResources(this.accountManager, instrumentStore),
+        new MarketDataResources(tickerManager, instrumentStore)
+      ]
+    };
   }
 
-  private setupHandlers(): void {
-    // Handle tool listing
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: ALL_TOOLS.map(tool => tool.getDefinition())
-      };
-    });
-
-    // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      const tool = ALL_TOOLS.find(t => t.name === name);
-      if (!tool) {
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Tool ${name} not found`
-        );
-      }
-
-      try {
-        // Check authentication for all tools except auth status
-        if (name !== 'get_auth_status' && !this.kiteClient.isReady()) {
-          throw new McpError(
-            ErrorCode.InternalError,
-            'Not authenticated with Kite API. Please run authentication first.'
-          );
-        }
-
-        const result = await tool.execute(args || {}, this.toolContext);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2)
-            }
-          ]
-        };
-      } catch (error) {
-        if (error instanceof McpError) {
-          throw error;
-        }
-
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
-    });
-
-    // Error handling
-    this.server.onerror = (error) => {
-      console.error('[MCP Server Error]', error);
-    };
+  /**
+   * Create a client session over the shared services
+   */
+  createSession(sessionId: string): McpSession {
+    return new McpSession(sessionId, this.services);
   }
 
   /**
-   * Connect to transport and start server
+   * Connect to transport and start server. The transport, host and port default to
+   * MCP_TRANSPORT, HTTP_HOST and HTTP_PORT.
    */
-  async run(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  async run(options: RunOptions = {}): Promise<void> {
+    const transport = options.transport ?? this.config.getTransport();
+
+    if (transport === 'http') {
+      this.httpServer = new HttpTransportServer(this.config, sessionId => this.createSession(sessionId));
+      this.httpServer.start(options.host ?? this.config.getHttpHost(), options.port ?? this.config.getHttpPort());
+      this.alertEngine.start();
+      this.loginManager.start();
+      this.tradeSyncer.start();
+      return;
+    }
+
+    this.stdioSession = this.createSession('stdio');
+    await this.stdioSession.connect(new StdioServerTransport());
+    this.alertEngine.start();
+    this.loginManager.start();
+    this.tradeSyncer.start();
 
     console.error('Kite MCP Server running on stdio');
   }
 
   /**
-   * Get server instance for testing
+   * Get the stdio session's server instance for testing
    */
-  getServer(): Server {
-    return this.server;
+  getServer(): Server | undefined {
+    return this.stdioSession?.server;
   }
 
   /**
    * Check if ready to serve requests
    */
   isReady(): boolean {
-    return this.kiteClient.isReady();
+    return this.accountManager.get().kiteClient.isReady();
   }
 
   /**
-   * Get authentication status
+   * Get authentication status of the default account
    */
   getAuthStatus(): any {
-    return this.kiteClient.getAuthenticationStatus();
+    return this.accountManager.get().kiteClient.getAuthenticationStatus();
+  }
+
+  /**
+   * Get authentication status of every account
+   */
+  getAccounts(): AccountSummary[] {
+    return this.accountManager.listAccounts();
   }
 }
 
@@ -0,0 +1,479 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ErrorCode,
+  McpError,
+  type CallToolResult
+} from '@modelcontextprotocol/sdk/types.js';
+import { RiskPolicyError } from '../risk/risk-manager.js';
+import { InputException, KiteApiError, MarginException, OrderException, TokenException } from '../api/errors.js';
+import { confirmationId, extractSymbols, findOrderIds, redactArguments, type AuditOutcome } from '../audit/audit-log.js';
+import type { AccountContext } from '../accounts/account-manager.js';
+import { ALL_TOOLS, withAccountArgument, withOutputSchema, type BaseTool, type ToolContext } from './tools/index.js';
+import { ConfirmationManager } from './confirmation-manager.js';
+import { InvalidArgumentsError } from './tools/arguments.js';
+import type { ResourceProvider } from './resource-provider.js';
+import { ALL_PROMPTS, type PromptContext } from './prompts/index.js';
+
+// Tools that must work without a valid session: authentication status and management, and
+// the audit log, which never calls Kite
+const UNAUTHENTICATED_TOOLS = new Set(['get_auth_status', 'list_accounts', 'login', 'logout', 'query_audit_log']);
+
+// Kite rejections of the request itself, reported as tool results so the model can act on the hint
+const BUSINESS_ERRORS = [InputException, OrderException, MarginException];
+
+/**
+ * Services shared by every client session
+ */
+export interface SessionServices extends Omit<ToolContext, 'sessionId' | keyof AccountContext> {
+  confirmationManager: ConfirmationManager;
+  resourceProviders: ResourceProvider[];
+}
+
+/**
+ * What happened inside a tool call, for its audit record
+ */
+interface CallTrace {
+  // Arguments the tool executed with, which for a redeemed confirmation token are the previewed ones
+  executedArgs?: Record<string, unknown>;
+}
+
+/**
+ * One connected MCP client: its own protocol server and tool context on top of the shared
+ * services. Stdio runs a single session; the HTTP transport runs one per client.
+ */
+export class McpSession {
+  readonly id: string;
+  readonly server: Server;
+  private readonly services: SessionServices;
+  private readonly cleanup: Array<() => void> = [];
+  private disposed = false;
+
+  constructor(id: string, services: SessionServices) {
+    this.id = id;
+    this.services = services;
+
+    this.server = new Server(
+      {
+        name: 'kite-mcp-server',
+        version: '1.0.0',
+        description: 'MCP server for Zerodha Kite API integration'
+      },
+      {
+        capabilities: {
+          tools: {},
+          logging: {},
+          prompts: {},
+          resources: {
+            subscribe: true,
+            listChanged: true
+          },
+        },
+      }
+    );
+
+    this.setupHandlers();
+  }
+
+  private setupHandlers(): void {
+    const { alertEngine, loginManager, confirmationManager, resourceProviders } = this.services;
+
+    // Handle tool listing
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: ALL_TOOLS.map(tool => {
+          const definition = withOutputSchema(tool.getDefinition(), tool.resultSchema);
+          return confirmationManager.decorateDefinition(tool.accountScoped ? withAccountArgument(definition) : definition);
+        })
+      };
+    });
+
+    // Handle tool execution. Every call is recorded in the audit log, whatever its outcome.
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const startedAt = Date.now();
+      const trace: CallTrace = {};
+      try {
+        const response = await this.callTool(name, args, trace);
+        this.audit(name, args, startedAt, trace, { response });
+        return response;
+      } catch (error) {
+        this.audit(name, args, startedAt, trace, { error });
+        throw error;
+      }
+    });
+
+    // Handle resource listing
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: resourceProviders.flatMap(provider => provider.listResources())
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: resourceProviders.flatMap(provider => provider.listTemplates())
+      };
+    });
+
+    // Handle resource reads and subscriptions
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      return {
+        contents: [await this.findResourceProvider(uri).read(uri)]
+      };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const provider = this.findResourceProvider(uri);
+      if (!provider.subscribe) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} does not support subscriptions`);
+      }
+      await provider.subscribe(uri, this.server);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const provider = this.findResourceProvider(uri);
+      if (!provider.unsubscribe) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} does not support subscriptions`);
+      }
+      await provider.unsubscribe(uri, this.server);
+      return {};
+    });
+
+    for (const provider of resourceProviders) {
+      if (provider.attach) {
+        this.cleanup.push(provider.attach(this.server));
+      }
+    }
+
+    // Handle prompt listing
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: ALL_PROMPTS.map(prompt => prompt.getDefinition())
+      };
+    });
+
+    // Handle prompt rendering
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+
+      const prompt = ALL_PROMPTS.find(p => p.name === name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} not found`);
+      }
+
+      const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]).map(arg => arg.name);
+      if (missing.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.join(', ')}`);
+      }
+
+      const toolContext = this.createToolContext();
+      if (!toolContext.kiteClient.isReady()) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          'Not authenticated with Kite API. Please run authentication first.'
+        );
+      }
+
+      // Prompts use the default account
+      const context: PromptContext = {
+        ...toolContext,
+        readResource: uri => this.findResourceProvider(uri).read(uri)
+      };
+
+      try {
+        return {
+          description: prompt.description,
+          messages: await prompt.render(args, context)
+        };
+      } catch (error) {
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Prompt rendering failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+
+    // Push triggered alerts to the client
+    this.cleanup.push(alertEngine.onTrigger(event => {
+      this.server.sendLoggingMessage({
+        level: 'notice',
+        logger: 'alerts',
+        data: event
+      }).catch(error => {
+        console.error(`Failed to send alert notification: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }));
+
+    // Tell the client about logins and sessions that are about to expire
+    this.cleanup.push(loginManager.onEvent(event => {
+      this.server.sendLoggingMessage({
+        level: event.type === 'token_expiring' || event.type === 'token_expired' || event.type === 'login_failed' ? 'warning' : 'notice',
+        logger: 'auth',
+        data: event
+      }).catch(error => {
+        console.error(`Failed to send auth notification: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }));
+
+    // Error handling
+    this.server.onerror = (error) => {
+      console.error(`[MCP Server Error] (session ${this.id})`, error);
+    };
+
+    this.server.onclose = () => this.dispose();
+  }
+
+  /**
+   * Tool context for a call, routed to the requested account (or the default account)
+   */
+  private createToolContext(tool?: BaseTool, account?: string): ToolContext {
+    const { confirmationManager, resourceProviders, ...shared } = this.services;
+    let accountContext: AccountContext;
+    try {
+      accountContext = shared.accountManager.get(tool?.accountScoped ? account : undefined);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+    return { ...shared, ...accountContext, sessionId: this.id };
+  }
+
+  private findResourceProvider(uri: string): ResourceProvider {
+    const provider = this.services.resourceProviders.find(p => p.handles(uri));
+    if (!provider) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Validate, authorize and run a tool call. The arguments the tool executed with are recorded
+   * in the trace, since a redeemed confirmation token stands in for them in the request.
+   */
+  private async callTool(name: string, args: Record<string, unknown> | undefined, trace: CallTrace): Promise<CallToolResult> {
+    const { confirmationManager } = this.services;
+
+    const tool = ALL_TOOLS.find(t => t.name === name);
+    if (!tool) {
+      throw new McpError(
+        ErrorCode.MethodNotFound,
+        `Tool ${name} not found`
+      );
+    }
+
+    try {
+      const { account, ...toolArgs } = args || {};
+      const context = this.createToolContext(tool, account as string | undefined);
+
+      // Check authentication for all tools except the auth status tools
+      if (!UNAUTHENTICATED_TOOLS.has(name) && !context.kiteClient.isReady()) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Not authenticated with Kite API${context.account ? ` for account ${context.account}` : ''}. Please run authentication first.`
+        );
+      }
+
+      // Redeemed confirmation tokens carry the arguments that were validated for the preview
+      const redeeming = confirmationManager.getMode(name) !== 'none' && toolArgs.confirmation_token !== undefined;
+      const validArgs = redeeming ? toolArgs : await tool.validate(toolArgs, context);
+
+      const outcome = await confirmationManager.authorize(tool, validArgs, context, this.server);
+      if (outcome.approved) {
+        trace.executedArgs = outcome.args;
+      }
+      const result = outcome.approved
+        ? await tool.execute(outcome.args, context)
+        : outcome.result;
+
+      // Make it impossible to mistake paper trading results for live account data
+      const simulated = context.kiteClient.isSimulated();
+      const payload = simulated
+        ? { simulated: true, trading_mode: 'paper', result }
+        : result;
+
+      // Structured content always wraps the result, since the output schema must be an object.
+      // The JSON round trip turns the Dates kiteconnect returns into strings.
+      const structured = {
+        ...(simulated ? { simulated: true, trading_mode: 'paper' } : {}),
+        ...(outcome.approved ? { result } : { confirmation: result })
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(payload, null, 2)
+          }
+        ],
+        structuredContent: JSON.parse(JSON.stringify(structured))
+      };
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      if (error instanceof InvalidArgumentsError) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          error.message,
+          { errors: error.errors }
+        );
+      }
+
+      if (error instanceof RiskPolicyError) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          error.message,
+          { violations: error.violations }
+        );
+      }
+
+      if (error instanceof KiteApiError) {
+        return kiteErrorResult(error);
+      }
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Record a tool call in the audit log. The call has already run, so a failure to write the
+   * record is logged rather than returned to the client.
+   */
+  private audit(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    startedAt: number,
+    trace: CallTrace,
+    result: { response?: CallToolResult; error?: unknown }
+  ): void {
+    const structured = result.response?.structuredContent;
+    // A redemption is recorded with the previewed arguments it executed, and linked to the
+    // preview record by the confirmation ID
+    const token = args?.confirmation_token ?? (structured?.confirmation as Record<string, unknown> | undefined)?.confirmation_token;
+    const auditedArgs = typeof args?.confirmation_token === 'string' && trace.executedArgs
+      ? { ...trace.executedArgs, ...args }
+      : args ?? {};
+    const requestedAccount = typeof args?.account === 'string' ? args.account : undefined;
+    let account: string | null;
+    try {
+      account = this.services.accountManager.get(requestedAccount).account;
+    } catch {
+      account = requestedAccount ?? null;
+    }
+
+    let outcome: AuditOutcome = 'success';
+    let error: string | undefined;
+    if ('error' in result) {
+      outcome = 'error';
+      error = result.error instanceof Error ? result.error.message : String(result.error);
+    } else if (result.response?.isError) {
+      outcome = 'tool_error';
+      error = toolErrorMessage(result.response);
+    } else if (structured?.confirmation !== undefined) {
+      outcome = 'confirmation_required';
+    }
+
+    const client = this.server.getClientVersion();
+    try {
+      this.services.auditLog.append({
+        timestamp: new Date(startedAt).toISOString(),
+        session_id: this.id,
+        client: client ? { name: client.name, version: client.version } : null,
+        account,
+        tool: name,
+        arguments: redactArguments(auditedArgs),
+        symbols: extractSymbols(auditedArgs),
+        outcome,
+        ...(error !== undefined ? { error } : {}),
+        ...(typeof token === 'string' ? { confirmation_id: confirmationId(token) } : {}),
+        order_ids: findOrderIds(auditedArgs, structured?.result),
+        simulated: structured?.simulated === true,
+        latency_ms: Date.now() - startedAt
+      });
+    } catch (auditError) {
+      console.error(`Tool call ${name} was not audited: ${auditError instanceof Error ? auditError.message : String(auditError)}`);
+    }
+  }
+
+  /**
+   * Start serving the session over a transport
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
+  /**
+   * Close the transport and release the session's subscriptions and listeners
+   */
+  async close(): Promise<void> {
+    await this.server.close();
+    this.dispose();
+  }
+
+  private dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    for (const release of this.cleanup.splice(0)) {
+      release();
+    }
+  }
+}
+
+/**
+ * Report a Kite API failure. Business failures, such as an order rejected for insufficient
+ * margin, are tool results with isError set; session and infrastructure failures are protocol
+ * errors. Both carry the error type, status, retryability and hint.
+ */
+function kiteErrorResult(error: KiteApiError): CallToolResult {
+  if (BUSINESS_ERRORS.some(errorClass => error instanceof errorClass)) {
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(error.toJSON(), null, 2)
+        }
+      ]
+    };
+  }
+
+  throw new McpError(
+    error instanceof TokenException ? ErrorCode.InvalidRequest : ErrorCode.InternalError,
+    error.message,
+    error.toJSON()
+  );
+}
+
+/**
+ * The error message of an isError tool result, whose text is a JSON error report
+ */
+function toolErrorMessage(response: CallToolResult): string {
+  const text = response.content.find(item => item.type === 'text')?.text ?? '';
+  try {
+    return JSON.parse(text).error ?? text;
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessageSchema, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+// Comment lines keep proxies from closing an event stream that has nothing to send
+const KEEP_ALIVE_MS = 15000;
+
+/**
+ * Legacy HTTP+SSE transport (MCP protocol 2024-11-05) on web-standard streams. The client
+ * opens an event stream with GET, is told the endpoint to POST messages to, and receives
+ * all server messages on the stream. The SDK's SSE transport needs a Node ServerResponse,
+ * which Bun.serve does not provide.
+ */
+export class SseServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  private readonly endpoint: string;
+  private readonly encoder = new TextEncoder();
+  private controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(messagesPath: string) {
+    this.endpoint = `${messagesPath}?sessionId=${this.sessionId}`;
+  }
+
+  /**
+   * Build the event stream response for the GET request. The stream starts with the
+   * endpoint event; it closes the session when the client disconnects.
+   */
+  createResponse(headers: Record<string, string> = {}): Response {
+    const stream = new ReadableStream<Uint8Array>({
+      start: controller => {
+        this.controller = controller;
+        this.write(`event: endpoint\ndata: ${this.endpoint}\n\n`);
+      },
+      cancel: () => {
+        void this.close();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+      }
+    });
+  }
+
+  async start(): Promise<void> {
+    this.keepAliveTimer = setInterval(() => this.write(': keepalive\n\n'), KEEP_ALIVE_MS);
+    this.keepAliveTimer.unref();
+  }
+
+  /**
+   * Deliver a message the client POSTed to the endpoint. Throws if it is not JSON-RPC.
+   */
+  handleMessage(body: unknown): void {
+    let message: JSONRPCMessage;
+    try {
+      message = JSONRPCMessageSchema.parse(body);
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      throw new Error('Invalid JSON-RPC message');
+    }
+    this.onmessage?.(message);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Not connected');
+    }
+    this.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    try {
+      this.controller?.close();
+    } catch {
+      // Already closed by the client
+    }
+    this.onclose?.();
+  }
+
+  private write(chunk: string): void {
+    try {
+      this.controller?.enqueue(this.encoder.encode(chunk));
+    } catch {
+      // The client went away between writes
+      void this.close();
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { JsonSchema } from '../../api/schema.js';
+import { BaseTool, type ToolContext } from './base.js';
+
+export class ListAccountsTool extends BaseTool {
+  readonly name = 'list_accounts';
+  readonly description = 'List the Kite accounts this server can act for, with their authentication status and which one is the default. Pass an account ID as the account argument of other tools to use it.';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      default_account: { type: ['string', 'null'] },
+      accounts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            account: { type: 'string' },
+            user_name: { type: ['string', 'null'] },
+            default: { type: 'boolean' },
+            authenticated: { type: 'boolean' },
+            token_generated_at: { type: ['string', 'null'] },
+            token_expires_at: { type: ['string', 'null'] },
+            trading_mode: { type: 'string', enum: ['live', 'paper'] }
+          }
+        }
+      }
+    },
+    required: ['default_account', 'accounts']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return {
+      default_account: context.accountManager.getDefaultAccountId(),
+      accounts: context.accountManager.listAccounts()
+    };
+  }
+}
+
+export class GetCombinedHoldingsTool extends BaseTool {
+  readonly name = 'get_combined_holdings';
+  readonly description = 'Holdings of all authenticated accounts combined per instrument, with a per-account breakdown and totals';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      accounts: { type: 'array', items: { type: 'string' }, description: 'Accounts whose holdings are included' },
+      unavailable: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { account: { type: 'string' }, reason: { type: 'string' } }
+        }
+      },
+      totals: {
+        type: 'object',
+        properties: {
+          invested: { type: 'number' },
+          current_value: { type: 'number' },
+          pnl: { type: 'number' },
+          pnl_pct: { type: 'number' }
+        }
+      },
+      holdings: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            instrument: { type: 'string' },
+            quantity: { type: 'number' },
+            average_price: { type: 'number' },
+            last_price: { type: 'number' },
+            invested: { type: 'number' },
+            current_value: { type: 'number' },
+            pnl: { type: 'number' },
+            pnl_pct: { type: 'number' },
+            accounts: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  account: { type: 'string' },
+                  quantity: { type: 'number' },
+                  average_price: { type: 'number' }
+                }
+              }
+            }
+          }
+        }
+      }
+    },
+    required: ['accounts', 'unavailable', 'totals', 'holdings']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const combined = new Map<string, any>();
+    const included: string[] = [];
+    const unavailable: Array<{ account: string; reason: string }> = [];
+
+    for (const summary of context.accountManager.listAccounts()) {
+      if (!summary.authenticated) {
+        unavailable.push({ account: summary.account, reason: 'Not authenticated' });
+        continue;
+      }
+
+      let holdings: any[];
+      try {
+        holdings = await context.accountManager.get(summary.account).kiteClient.getHoldings() || [];
+      } catch (error) {
+        unavailable.push({ account: summary.account, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+      included.push(summary.account);
+
+      for (const holding of holdings) {
+        const instrument = `${holding.exchange}:${holding.tradingsymbol}`;
+        const quantity = (holding.quantity ?? 0) + (holding.t1_quantity ?? 0);
+        const row = combined.get(instrument) ?? {
+          instrument,
+          quantity: 0,
+          invested: 0,
+          current_value: 0,
+          last_price: holding.last_price,
+          accounts: []
+        };
+        row.quantity += quantity;
+        row.invested += quantity * holding.average_price;
+        row.current_value += quantity * holding.last_price;
+        row.accounts.push({ account: summary.account, quantity, average_price: holding.average_price });
+        combined.set(instrument, row);
+      }
+    }
+
+    const rows = [...combined.values()]
+      .map(row => ({
+        ...row,
+        average_price: row.quantity > 0 ? round(row.invested / row.quantity) : 0,
+        invested: round(row.invested),
+        current_value: round(row.current_value),
+        pnl: round(row.current_value - row.invested),
+        pnl_pct: row.invested > 0 ? round((row.current_value - row.invested) / row.invested * 100) : 0
+      }))
+      .sort((a, b) => b.current_value - a.current_value);
+
+    const invested = rows.reduce((sum, row) => sum + row.invested, 0);
+    const currentValue = rows.reduce((sum, row) => sum + row.current_value, 0);
+
+    return {
+      accounts: included,
+      unavailable,
+      totals: {
+        invested: round(invested),
+        current_value: round(currentValue),
+        pnl: round(currentValue - invested),
+        pnl_pct: invested > 0 ? round((currentValue - invested) / invested * 100) : 0
+      },
+      holdings: rows
+    };
+  }
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export const ACCOUNT_TOOLS = [
+  new ListAccountsTool(),
+  new GetCombinedHoldingsTool()
+];
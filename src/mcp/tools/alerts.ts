@@ -0,0 +1,217 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { JsonSchema } from '../../api/schema.js';
+import { ALERT_CONDITION_TYPES, DEFAULT_VOLUME_LOOKBACK_DAYS, MAX_VOLUME_LOOKBACK_DAYS } from '../../alerts/alert-engine.js';
+import { BaseTool, type ToolContext } from './base.js';
+
+const ALERT_CONDITION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ALERT_CONDITION_TYPES },
+    value: { type: 'number' },
+    lookback_days: { type: 'number' }
+  }
+};
+
+const ALERT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    instrument: { type: 'string' },
+    instrument_token: { type: 'number' },
+    condition: ALERT_CONDITION_SCHEMA,
+    note: { type: 'string' },
+    status: { type: 'string', enum: ['active', 'triggered'] },
+    created_at: { type: 'string' },
+    triggered_at: { type: 'string' }
+  },
+  required: ['id', 'instrument', 'condition', 'status']
+};
+
+const ALERT_EVENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    alert_id: { type: 'string' },
+    instrument: { type: 'string' },
+    condition: ALERT_CONDITION_SCHEMA,
+    note: { type: 'string' },
+    message: { type: 'string' },
+    observed: {
+      type: 'object',
+      properties: {
+        last_price: { type: 'number' },
+        close: { type: ['number', 'null'] },
+        volume: { type: ['number', 'null'] },
+        change_pct: { type: ['number', 'null'] },
+        average_volume: { type: 'number' }
+      }
+    },
+    source: { type: 'string', enum: ['stream', 'poll'] },
+    triggered_at: { type: 'string' }
+  }
+};
+
+export class CreateAlertTool extends BaseTool {
+  readonly name = 'create_alert';
+  readonly description = 'Create a price alert that fires once when its condition is met. Triggers are sent to the client as log notifications and recorded in the alert history.';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      alert: ALERT_SCHEMA,
+      message: { type: 'string' }
+    },
+    required: ['alert']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instrument: {
+            type: 'string',
+            description: 'Instrument as EXCHANGE:SYMBOL (e.g., NSE:RELIANCE, NSE:NIFTY 50) or instrument token'
+          },
+          condition: {
+            type: 'string',
+            description: 'price_above / price_below: last price at or beyond value. change_pct_above / change_pct_below: day change in percent from the previous close at or beyond value (e.g., -3 for down 3%). volume_spike: day volume at least value times the average daily volume.',
+            enum: ALERT_CONDITION_TYPES
+          },
+          value: {
+            type: 'number',
+            description: 'Price level, percent change, or volume multiple (e.g., 2 for twice the average), depending on the condition'
+          },
+          lookback_days: {
+            type: 'number',
+            description: `Sessions averaged for volume_spike (default ${DEFAULT_VOLUME_LOOKBACK_DAYS})`,
+            minimum: 1,
+            maximum: MAX_VOLUME_LOOKBACK_DAYS
+          },
+          note: {
+            type: 'string',
+            description: 'Free-text note included in the notification'
+          }
+        },
+        required: ['instrument', 'condition', 'value']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const record = await context.instrumentStore.resolve(args.instrument);
+    if (!record) {
+      throw new Error(`Unknown instrument: ${args.instrument}. Use EXCHANGE:SYMBOL (e.g., NSE:INFY) or an instrument token.`);
+    }
+
+    const alert = await context.alertEngine.create({
+      instrument: `${record.exchange}:${record.tradingsymbol}`,
+      instrument_token: record.instrument_token,
+      condition: {
+        type: args.condition,
+        value: args.value,
+        ...(args.lookback_days !== undefined ? { lookback_days: args.lookback_days } : {})
+      },
+      note: args.note
+    });
+
+    return alert.status === 'triggered'
+      ? { alert, message: 'The condition already holds, so the alert fired immediately' }
+      : { alert };
+  }
+}
+
+export class ListAlertsTool extends BaseTool {
+  readonly name = 'list_alerts';
+  readonly description = 'List price alerts and, optionally, the history of triggered alerts';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      count: { type: 'number' },
+      alerts: { type: 'array', items: ALERT_SCHEMA },
+      history: { type: 'array', items: ALERT_EVENT_SCHEMA }
+    },
+    required: ['count', 'alerts']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          status: {
+            type: 'string',
+            description: 'Filter by status (default all)',
+            enum: ['active', 'triggered', 'all'],
+            default: 'all'
+          },
+          include_history: {
+            type: 'boolean',
+            description: 'Include triggered alert events, newest first (default false)'
+          },
+          history_limit: {
+            type: 'number',
+            description: 'Maximum history events to return (default 50)',
+            minimum: 1,
+            default: 50
+          }
+        }
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const status = args.status && args.status !== 'all' ? args.status : undefined;
+    const alerts = context.alertEngine.list(status);
+
+    return {
+      count: alerts.length,
+      alerts,
+      ...(args.include_history ? { history: context.alertEngine.getHistory(args.history_limit ?? 50) } : {})
+    };
+  }
+}
+
+export class DeleteAlertTool extends BaseTool {
+  readonly name = 'delete_alert';
+  readonly description = 'Delete a price alert';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: { deleted: ALERT_SCHEMA },
+    required: ['deleted']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          alert_id: {
+            type: 'string',
+            description: 'Alert ID to delete'
+          }
+        },
+        required: ['alert_id']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return {
+      deleted: context.alertEngine.delete(args.alert_id)
+    };
+  }
+}
+
+export const ALERT_TOOLS = [
+  new CreateAlertTool(),
+  new ListAlertsTool(),
+  new DeleteAlertTool()
+];
@@ -0,0 +1,149 @@
+import type { FieldError } from '../../api/schema.js';
+
+/**
+ * The input schema keywords tool arguments are checked against
+ */
+interface ArgumentSchema {
+  type?: string;
+  properties?: Record<string, ArgumentSchema>;
+  required?: string[];
+  items?: ArgumentSchema;
+  enum?: readonly unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Raised when tool arguments do not match the tool's input schema or its cross-field rules
+ */
+export class InvalidArgumentsError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(toolName: string, errors: FieldError[]) {
+    super(`Invalid arguments for ${toolName}: ${errors.map(e => e.message).join('; ')}`);
+    this.name = 'InvalidArgumentsError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Check arguments against an input schema. Values that clients commonly send in the wrong form
+ * are coerced (numeric strings, "true"/"false", a single value for a list, enum values in the
+ * wrong case) and missing arguments with a default are filled in. Arguments the schema does not
+ * describe are passed through unchanged.
+ */
+export function prepareArguments(schema: object, args: Record<string, unknown>): { args: Record<string, any>; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const prepared = prepareObject(schema as ArgumentSchema, args, '', errors);
+  return { args: prepared, errors };
+}
+
+function prepareObject(schema: ArgumentSchema, value: Record<string, unknown>, path: string, errors: FieldError[]): Record<string, any> {
+  const result: Record<string, any> = { ...value };
+
+  for (const [field, fieldSchema] of Object.entries(schema.properties ?? {})) {
+    const fieldPath = path ? `${path}.${field}` : field;
+    if (value[field] === undefined || value[field] === null) {
+      delete result[field];
+      if (fieldSchema.default !== undefined) {
+        result[field] = fieldSchema.default;
+      } else if (schema.required?.includes(field)) {
+        errors.push({ field: fieldPath, message: `${fieldPath} is required` });
+      }
+      continue;
+    }
+    result[field] = prepareValue(fieldSchema, value[field], fieldPath, errors);
+  }
+
+  return result;
+}
+
+function prepareValue(schema: ArgumentSchema, value: unknown, path: string, errors: FieldError[]): unknown {
+  const coerced = coerce(schema, value);
+  const fail = (message: string) => {
+    errors.push({ field: path, message: `${path} ${message}` });
+    return coerced;
+  };
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      if (typeof coerced !== 'number' || !Number.isFinite(coerced)) {
+        return fail(`must be a number (got ${JSON.stringify(value)})`);
+      }
+      if (schema.type === 'integer' && !Number.isInteger(coerced)) {
+        return fail(`must be an integer (got ${coerced})`);
+      }
+      if (schema.minimum !== undefined && coerced < schema.minimum) {
+        return fail(`must be at least ${schema.minimum} (got ${coerced})`);
+      }
+      if (schema.maximum !== undefined && coerced > schema.maximum) {
+        return fail(`must be at most ${schema.maximum} (got ${coerced})`);
+      }
+      break;
+
+    case 'string':
+      if (typeof coerced !== 'string') {
+        return fail(`must be a string (got ${JSON.stringify(value)})`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof coerced !== 'boolean') {
+        return fail(`must be true or false (got ${JSON.stringify(value)})`);
+      }
+      break;
+
+    case 'array':
+      if (!Array.isArray(coerced)) {
+        return fail('must be a list');
+      }
+      return schema.items
+        ? coerced.map((item, index) => prepareValue(schema.items!, item, `${path}[${index}]`, errors))
+        : coerced;
+
+    case 'object':
+      if (typeof coerced !== 'object' || coerced === null || Array.isArray(coerced)) {
+        return fail('must be an object');
+      }
+      return prepareObject(schema, coerced as Record<string, unknown>, path, errors);
+  }
+
+  if (schema.enum && !schema.enum.includes(coerced)) {
+    return fail(`must be one of ${schema.enum.join(', ')} (got ${JSON.stringify(value)})`);
+  }
+  return coerced;
+}
+
+function coerce(schema: ArgumentSchema, value: unknown): unknown {
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        return Number(value);
+      }
+      return value;
+
+    case 'boolean':
+      if (value === 'true' || value === 'false') {
+        return value === 'true';
+      }
+      return value;
+
+    case 'string': {
+      const text = typeof value === 'number' ? String(value) : value;
+      // Accept enum values in any case, e.g. "buy" for BUY
+      if (typeof text === 'string' && schema.enum && !schema.enum.includes(text)) {
+        return schema.enum.find(option => typeof option === 'string' && option.toLowerCase() === text.toLowerCase()) ?? text;
+      }
+      return text;
+    }
+
+    case 'array':
+      return Array.isArray(value) ? value : [value];
+
+    default:
+      return value;
+  }
+}
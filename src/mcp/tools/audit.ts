@@ -0,0 +1,112 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { FieldError, JsonSchema } from '../../api/schema.js';
+import { AUDIT_OUTCOMES, DEFAULT_AUDIT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT, parseAuditDate } from '../../audit/audit-log.js';
+import { BaseTool, type ToolContext } from './base.js';
+
+const AUDIT_RECORD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    seq: { type: 'number' },
+    timestamp: { type: 'string' },
+    session_id: { type: 'string' },
+    client: {
+      type: ['object', 'null'],
+      properties: {
+        name: { type: 'string' },
+        version: { type: 'string' }
+      }
+    },
+    account: { type: ['string', 'null'] },
+    tool: { type: 'string' },
+    arguments: { type: 'object' },
+    symbols: { type: 'array', items: { type: 'string' } },
+    outcome: { type: 'string', enum: AUDIT_OUTCOMES },
+    error: { type: 'string' },
+    confirmation_id: { type: 'string', description: 'Links a confirmation preview to the call that redeemed it' },
+    order_ids: { type: 'array', items: { type: 'string' } },
+    simulated: { type: 'boolean' },
+    latency_ms: { type: 'number' },
+    prev_hash: { type: 'string' },
+    hash: { type: 'string' }
+  },
+  required: ['seq', 'timestamp', 'session_id', 'tool', 'outcome', 'hash']
+};
+
+export class QueryAuditLogTool extends BaseTool {
+  readonly name = 'query_audit_log';
+  readonly description = 'Search the audit log of tool calls made through this server, newest first. Each record has the client, session, account, redacted arguments, outcome, Kite order IDs and latency.';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      count: { type: 'number' },
+      matched: { type: 'number', description: 'Records matching the filters, before the limit' },
+      records: { type: 'array', items: AUDIT_RECORD_SCHEMA }
+    },
+    required: ['count', 'matched', 'records']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from: {
+            type: 'string',
+            description: 'Earliest call: a date (YYYY-MM-DD, IST) or an ISO timestamp'
+          },
+          to: {
+            type: 'string',
+            description: 'Latest call: a date (YYYY-MM-DD, IST, inclusive) or an ISO timestamp'
+          },
+          tool: {
+            type: 'string',
+            description: 'Only calls to this tool (e.g., place_order)'
+          },
+          symbol: {
+            type: 'string',
+            description: 'Only calls naming this instrument, as SYMBOL or EXCHANGE:SYMBOL (e.g., INFY, NSE:INFY)'
+          },
+          outcome: {
+            type: 'string',
+            description: 'Only calls with this outcome',
+            enum: AUDIT_OUTCOMES
+          },
+          limit: {
+            type: 'number',
+            description: `Maximum records to return (default ${DEFAULT_AUDIT_QUERY_LIMIT})`,
+            minimum: 1,
+            maximum: MAX_AUDIT_QUERY_LIMIT,
+            default: DEFAULT_AUDIT_QUERY_LIMIT
+          }
+        }
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any): Promise<FieldError[]> {
+    const errors: FieldError[] = [];
+    for (const field of ['from', 'to'] as const) {
+      if (args[field] === undefined) {
+        continue;
+      }
+      try {
+        parseAuditDate(args[field], field === 'to');
+      } catch {
+        errors.push({ field, message: `${field} must be a date (YYYY-MM-DD) or an ISO timestamp (got ${JSON.stringify(args[field])})` });
+      }
+    }
+    return errors;
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const { matched, records } = context.auditLog.query(args);
+    return { count: records.length, matched, records };
+  }
+}
+
+export const AUDIT_TOOLS = [
+  new QueryAuditLogTool()
+];
@@ -0,0 +1,76 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { JsonSchema } from '../../api/schema.js';
+import { BaseTool, type ToolContext } from './base.js';
+
+export class LoginTool extends BaseTool {
+  readonly name = 'login';
+  readonly description = 'Log in to Kite without restarting the server. Returns a login URL for the user to open in a browser; once they complete the Zerodha login the token is saved and used straight away, and a notification is sent. Also use this to renew an expired session or add another account.';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      login_url: { type: 'string' },
+      redirect_url: { type: 'string' },
+      already_pending: { type: 'boolean', description: 'Whether a login started earlier is still waiting for its callback' },
+      started_at: { type: 'string' },
+      expires_at: { type: 'string' },
+      instructions: { type: 'string' }
+    },
+    required: ['login_url', 'expires_at']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const status = await context.loginManager.startLogin();
+    return {
+      ...status,
+      instructions: `Open ${status.login_url} in a browser and complete the Zerodha login before ${status.expires_at}. Kite redirects to ${status.redirect_url}, which must be reachable from that browser; this is the redirect URL configured for the Kite Connect app. Check get_auth_status afterwards.`
+    };
+  }
+}
+
+export class LogoutTool extends BaseTool {
+  readonly name = 'logout';
+  readonly description = 'Log out of a Kite account: invalidates the access token on Kite\'s side and deletes the stored token. The account must log in again before it can be used.';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      account: { type: 'string' },
+      session_invalidated: { type: 'boolean' },
+      remaining_accounts: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['account', 'session_invalidated']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return await context.loginManager.logout(context.account ?? undefined);
+  }
+}
+
+export const AUTH_TOOLS = [
+  new LoginTool(),
+  new LogoutTool()
+];
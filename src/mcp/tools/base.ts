@@ -0,0 +1,251 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { AccountManager, type AccountContext } from '../../accounts/account-manager.js';
+import { InstrumentStore } from '../../instruments/instrument-store.js';
+import { TickerManager } from '../../streaming/ticker-manager.js';
+import { AlertEngine } from '../../alerts/alert-engine.js';
+import { LoginManager } from '../../auth/login-manager.js';
+import { AuditLog } from '../../audit/audit-log.js';
+import { TradeStore } from '../../tax/trade-store.js';
+import { TradeSyncer } from '../../tax/trade-sync.js';
+import { toOutputSchema, type FieldError, type JsonSchema } from '../../api/schema.js';
+import type { OrderParams } from '../../api/kite-client.js';
+import { InvalidArgumentsError, prepareArguments } from './arguments.js';
+import {
+  findOrderErrors,
+  type OrderValidationOptions,
+  EXCHANGES,
+  TRANSACTION_TYPES,
+  ORDER_TYPES,
+  PRODUCTS,
+  VALIDITIES,
+  VARIETIES,
+  ICEBERG_MIN_LEGS,
+  ICEBERG_MAX_LEGS,
+  TTL_MAX_MINUTES
+} from '../../api/order-validation.js';
+
+/**
+ * Services available to a tool call. The account fields belong to the account the call
+ * was routed to with its `account` argument.
+ */
+export interface ToolContext extends AccountContext {
+  accountManager: AccountManager;
+  instrumentStore: InstrumentStore;
+  tickerManager: TickerManager;
+  alertEngine: AlertEngine;
+  loginManager: LoginManager;
+  auditLog: AuditLog;
+  tradeStore: TradeStore;
+  tradeSyncer: TradeSyncer;
+  // MCP client session the call belongs to
+  sessionId: string;
+}
+
+export abstract class BaseTool {
+  abstract readonly name: string;
+  abstract readonly description: string;
+  // Whether the tool works on one account's data and accepts the account argument
+  readonly accountScoped: boolean = true;
+  // Shape of what execute returns, published as the result field of the output schema
+  abstract readonly resultSchema: JsonSchema;
+
+  abstract getDefinition(): Tool;
+  abstract execute(args: any, context: ToolContext): Promise<any>;
+
+  /**
+   * Check arguments against the input schema, coercing values and filling in defaults, then
+   * apply the tool's cross-field rules. Returns the arguments to execute with.
+   */
+  async validate(args: Record<string, unknown>, context: ToolContext): Promise<any> {
+    const prepared = prepareArguments(this.getDefinition().inputSchema, args);
+    // Cross-field rules assume each field is well formed
+    const errors = prepared.errors.length > 0 ? prepared.errors : await this.checkArguments(prepared.args, context);
+    if (errors.length > 0) {
+      throw new InvalidArgumentsError(this.name, errors);
+    }
+    return prepared.args;
+  }
+
+  /**
+   * Rules the input schema cannot express, such as fields required by another field's value
+   */
+  protected async checkArguments(args: any, context: ToolContext): Promise<FieldError[]> {
+    return [];
+  }
+
+  /**
+   * Describe what execute would do without doing it. Used for two-phase confirmation.
+   */
+  async preview(args: any, context: ToolContext): Promise<any> {
+    return { tool: this.name, arguments: args };
+  }
+}
+
+/**
+ * Add the optional account argument to an account-scoped tool's definition
+ */
+export function withAccountArgument(definition: Tool): Tool {
+  return {
+    ...definition,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: {
+        ...definition.inputSchema.properties,
+        account: {
+          type: 'string',
+          description: 'Kite user ID of the account to use (see list_accounts). Defaults to the default account.'
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Add the output schema. Structured content carries the tool's result, marked as simulated in
+ * paper trading mode, or the confirmation request when the call has to be confirmed first.
+ */
+export function withOutputSchema(definition: Tool, resultSchema: JsonSchema): Tool {
+  return {
+    ...definition,
+    outputSchema: {
+      type: 'object',
+      properties: {
+        result: toOutputSchema(resultSchema),
+        simulated: {
+          type: 'boolean',
+          description: 'True when the result comes from paper trading rather than the live account'
+        },
+        trading_mode: {
+          type: 'string',
+          enum: ['paper']
+        },
+        confirmation: {
+          type: 'object',
+          description: 'Returned instead of result when the call needs confirmation: the preview, or the declined elicitation'
+        }
+      }
+    }
+  };
+}
+
+// Exchanges where quantity is in units and must be a whole number of lots. MCX and CDS orders
+// are placed in lots, so any quantity is valid there.
+const LOT_QUANTITY_EXCHANGES = ['NFO', 'BFO'];
+
+/**
+ * Cross-field rules for order arguments: the order validation rules, and quantity in whole lots
+ * for F&O contracts. Errors are attributed to their argument, prefixed with path for nested orders.
+ */
+export async function checkOrderArguments(
+  order: Partial<OrderParams>,
+  context: ToolContext,
+  options: OrderValidationOptions & { path?: string } = {}
+): Promise<FieldError[]> {
+  const { path, ...validationOptions } = options;
+  const errors = findOrderErrors(order, validationOptions);
+
+  const { exchange, tradingsymbol, quantity } = order;
+  if (exchange && tradingsymbol && Number.isInteger(quantity) && LOT_QUANTITY_EXCHANGES.includes(exchange)
+    && !errors.some(error => error.field === 'quantity')) {
+    const lotSize = await findLotSize(`${exchange}:${tradingsymbol}`, context);
+    if (lotSize && lotSize > 1 && quantity! % lotSize !== 0) {
+      errors.push({
+        field: 'quantity',
+        message: `quantity must be a multiple of the lot size ${lotSize} for ${exchange}:${tradingsymbol} (got ${quantity})`
+      });
+    }
+  }
+
+  return path
+    ? errors.map(error => ({ field: `${path}.${error.field}`, message: `${path}: ${error.message}` }))
+    : errors;
+}
+
+/**
+ * Lot size from the instrument master. Unknown symbols are left for Kite to reject, and the
+ * check is skipped when the instrument master cannot be loaded.
+ */
+async function findLotSize(instrument: string, context: ToolContext): Promise<number | undefined> {
+  try {
+    return (await context.instrumentStore.resolve(instrument))?.lot_size;
+  } catch (error) {
+    console.error(`Skipping lot size check for ${instrument}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+// Shared order parameter schema, used by every tool that accepts order fields
+export const ORDER_PROPERTIES = {
+  exchange: {
+    type: 'string',
+    description: 'Exchange (NSE, BSE, etc.)',
+    enum: [...EXCHANGES]
+  },
+  tradingsymbol: {
+    type: 'string',
+    description: 'Trading symbol (e.g., INFY, SBIN)'
+  },
+  transaction_type: {
+    type: 'string',
+    description: 'Transaction type',
+    enum: [...TRANSACTION_TYPES]
+  },
+  order_type: {
+    type: 'string',
+    description: 'Order type',
+    enum: [...ORDER_TYPES]
+  },
+  quantity: {
+    type: 'number',
+    description: 'Number of shares to trade'
+  },
+  price: {
+    type: 'number',
+    description: 'Price per share (required for LIMIT orders)'
+  },
+  trigger_price: {
+    type: 'number',
+    description: 'Trigger price (required for SL and SL-M orders)'
+  },
+  product: {
+    type: 'string',
+    description: 'Product type',
+    enum: [...PRODUCTS]
+  },
+  validity: {
+    type: 'string',
+    description: 'Order validity (TTL requires validity_ttl)',
+    enum: [...VALIDITIES]
+  },
+  validity_ttl: {
+    type: 'number',
+    description: `Order lifetime in minutes for TTL validity (1-${TTL_MAX_MINUTES})`
+  },
+  disclosed_quantity: {
+    type: 'number',
+    description: 'Quantity to disclose publicly (cannot exceed quantity)'
+  },
+  iceberg_legs: {
+    type: 'number',
+    description: `Number of legs for iceberg orders (${ICEBERG_MIN_LEGS}-${ICEBERG_MAX_LEGS})`
+  },
+  iceberg_quantity: {
+    type: 'number',
+    description: 'Quantity per iceberg leg (legs x iceberg_quantity must cover quantity)'
+  },
+  auction_number: {
+    type: 'string',
+    description: 'Auction number (required for auction orders)'
+  },
+  tag: {
+    type: 'string',
+    description: 'Alphanumeric tag (max 20 characters) to identify the order'
+  }
+};
+
+export const VARIETY_PROPERTY = {
+  type: 'string',
+  description: 'Order variety: regular, amo (after market, only outside market hours), co (cover order), iceberg or auction. Defaults to regular',
+  enum: [...VARIETIES],
+  default: 'regular'
+};
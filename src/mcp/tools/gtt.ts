@@ -0,0 +1,435 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { GTTOrderLeg, GTTParams, OrderParams } from '../../api/kite-client.js';
+import type { FieldError, JsonSchema } from '../../api/schema.js';
+import type { RiskViolation } from '../../risk/risk-manager.js';
+import { BaseTool, ORDER_PROPERTIES, checkOrderArguments, type ToolContext } from './base.js';
+
+// Schema of a single GTT order leg, reusing the regular order field definitions
+const GTT_ORDER_LEG_SCHEMA = {
+  type: 'object',
+  properties: {
+    transaction_type: ORDER_PROPERTIES.transaction_type,
+    quantity: ORDER_PROPERTIES.quantity,
+    product: ORDER_PROPERTIES.product,
+    order_type: {
+      type: 'string',
+      description: 'Order type (GTT orders are always LIMIT)',
+      enum: ['LIMIT']
+    },
+    price: {
+      type: 'number',
+      description: 'Limit price of the order placed when the trigger fires'
+    }
+  },
+  required: ['transaction_type', 'quantity', 'product', 'price']
+};
+
+const GTT_TRIGGER_PROPERTIES = {
+  trigger_type: {
+    type: 'string',
+    description: 'single: one trigger and one order. two-leg: OCO with a stop-loss (lower) and target (upper) trigger',
+    enum: ['single', 'two-leg']
+  },
+  exchange: ORDER_PROPERTIES.exchange,
+  tradingsymbol: ORDER_PROPERTIES.tradingsymbol,
+  trigger_values: {
+    type: 'array',
+    items: { type: 'number' },
+    description: 'Trigger prices. One value for single, [lower, upper] for two-leg'
+  },
+  last_price: {
+    type: 'number',
+    description: 'Current last traded price (fetched automatically when omitted)'
+  },
+  orders: {
+    type: 'array',
+    items: GTT_ORDER_LEG_SCHEMA,
+    description: 'Orders placed when triggered, in the same order as trigger_values'
+  }
+};
+
+// Distance of each trigger from the current LTP, added to GTT results when the LTP is known
+const TRIGGER_DISTANCE_PROPERTIES: Record<string, JsonSchema> = {
+  current_ltp: { type: 'number' },
+  trigger_distance: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        trigger_value: { type: 'number' },
+        distance: { type: 'number' },
+        distance_pct: { type: ['number', 'null'] }
+      }
+    }
+  }
+};
+
+const GTT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    type: { type: 'string', enum: ['single', 'two-leg'] },
+    status: { type: 'string' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' },
+    expires_at: { type: 'string' },
+    condition: {
+      type: 'object',
+      properties: {
+        exchange: { type: 'string' },
+        tradingsymbol: { type: 'string' },
+        instrument_token: { type: 'number' },
+        trigger_values: { type: 'array', items: { type: 'number' } },
+        last_price: { type: 'number' }
+      }
+    },
+    orders: { type: 'array', items: { type: 'object' } },
+    ...TRIGGER_DISTANCE_PROPERTIES
+  },
+  required: ['id', 'type', 'status', 'condition', 'orders']
+};
+
+const GTT_WRITE_RESULT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    trigger_id: { type: 'number' },
+    ...TRIGGER_DISTANCE_PROPERTIES
+  },
+  required: ['trigger_id']
+};
+
+export class GetGTTsTool extends BaseTool {
+  readonly name = 'get_gtts';
+  readonly description = 'Get all GTT (Good Till Triggered) orders with trigger distance from the current LTP';
+  readonly resultSchema: JsonSchema = { type: 'array', items: GTT_SCHEMA };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const triggers: any[] = await context.kiteClient.getGTTs() || [];
+    const instruments = [...new Set(triggers.map(instrumentOf).filter(Boolean))] as string[];
+    const ltps = await fetchLTPs(instruments, context);
+
+    return triggers.map(trigger => withTriggerDistance(trigger, ltps[instrumentOf(trigger) ?? '']));
+  }
+}
+
+export class GetGTTTool extends BaseTool {
+  readonly name = 'get_gtt';
+  readonly description = 'Get a GTT order by trigger ID with trigger distance from the current LTP';
+  readonly resultSchema: JsonSchema = GTT_SCHEMA;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          trigger_id: {
+            type: 'string',
+            description: 'GTT trigger ID'
+          }
+        },
+        required: ['trigger_id']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const trigger = await context.kiteClient.getGTT(args.trigger_id);
+    const instrument = instrumentOf(trigger);
+    const ltps = instrument ? await fetchLTPs([instrument], context) : {};
+
+    return withTriggerDistance(trigger, ltps[instrument ?? '']);
+  }
+}
+
+export class PlaceGTTTool extends BaseTool {
+  readonly name = 'place_gtt';
+  readonly description = 'Place a GTT order: a single trigger or a two-leg OCO (stop-loss and target)';
+  readonly resultSchema: JsonSchema = GTT_WRITE_RESULT_SCHEMA;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: GTT_TRIGGER_PROPERTIES,
+        required: ['trigger_type', 'exchange', 'tradingsymbol', 'trigger_values', 'orders']
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any, context: ToolContext): Promise<FieldError[]> {
+    return await checkLegArguments(args, context);
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const gttParams = await buildGTTParams(args, context);
+    await assertLegsAllowed(gttParams, context);
+    const result = await context.kiteClient.placeGTT(gttParams);
+
+    return {
+      ...result,
+      ...triggerDistance(gttParams.trigger_values, gttParams.last_price)
+    };
+  }
+
+  override async preview(args: any, context: ToolContext): Promise<any> {
+    const gttParams = await buildGTTParams(args, context);
+    return {
+      tool: this.name,
+      gtt: gttParams,
+      risk_violations: await checkLegs(gttParams, context)
+    };
+  }
+}
+
+export class ModifyGTTTool extends BaseTool {
+  readonly name = 'modify_gtt';
+  readonly description = 'Modify a GTT order. Omitted fields keep their current values';
+  readonly resultSchema: JsonSchema = GTT_WRITE_RESULT_SCHEMA;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          trigger_id: {
+            type: 'string',
+            description: 'GTT trigger ID to modify'
+          },
+          ...GTT_TRIGGER_PROPERTIES
+        },
+        required: ['trigger_id']
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any, context: ToolContext): Promise<FieldError[]> {
+    // Omitted fields come from the existing GTT, which is only fetched on execute
+    return await checkLegArguments(args, context, { partial: args.exchange === undefined || args.tradingsymbol === undefined });
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const { gttParams } = await resolveModifiedGTT(args, context);
+    await assertLegsAllowed(gttParams, context);
+    const result = await context.kiteClient.modifyGTT(args.trigger_id, gttParams);
+
+    return {
+      ...result,
+      ...triggerDistance(gttParams.trigger_values, gttParams.last_price)
+    };
+  }
+
+  override async preview(args: any, context: ToolContext): Promise<any> {
+    const { existing, gttParams } = await resolveModifiedGTT(args, context);
+    return {
+      tool: this.name,
+      trigger_id: args.trigger_id,
+      current_gtt: existing,
+      gtt: gttParams,
+      risk_violations: await checkLegs(gttParams, context)
+    };
+  }
+}
+
+/**
+ * The GTT as it will look after a modification, with omitted fields taken from the existing one
+ */
+async function resolveModifiedGTT(args: any, context: ToolContext): Promise<{ existing: any; gttParams: GTTParams }> {
+  const existing = await context.kiteClient.getGTT(args.trigger_id);
+  const gttParams = await buildGTTParams({
+    trigger_type: args.trigger_type ?? existing.type,
+    exchange: args.exchange ?? existing.condition?.exchange,
+    tradingsymbol: args.tradingsymbol ?? existing.condition?.tradingsymbol,
+    trigger_values: args.trigger_values ?? existing.condition?.trigger_values,
+    last_price: args.last_price,
+    orders: args.orders ?? existing.orders
+  }, context);
+  return { existing, gttParams };
+}
+
+/**
+ * Order rules for each leg, as the order Kite places when the trigger fires
+ */
+async function checkLegArguments(args: any, context: ToolContext, options: { partial?: boolean } = {}): Promise<FieldError[]> {
+  const errors: FieldError[] = [];
+  for (const [index, leg] of (args.orders ?? []).entries()) {
+    errors.push(...await checkOrderArguments(
+      { ...leg, order_type: 'LIMIT', exchange: args.exchange, tradingsymbol: args.tradingsymbol },
+      context,
+      { ...options, path: `orders[${index}]` }
+    ));
+  }
+  return errors;
+}
+
+/**
+ * Risk policy violations of every leg, each priced at its limit price
+ */
+async function checkLegs(gttParams: GTTParams, context: ToolContext): Promise<RiskViolation[]> {
+  const violations: RiskViolation[] = [];
+  for (const order of legOrders(gttParams)) {
+    for (const violation of await context.riskManager.checkOrder(order, 'gtt')) {
+      // Rules on the instrument itself are broken by both legs of an OCO alike
+      if (!violations.some(v => v.message === violation.message)) {
+        violations.push(violation);
+      }
+    }
+  }
+  return violations;
+}
+
+async function assertLegsAllowed(gttParams: GTTParams, context: ToolContext): Promise<void> {
+  for (const order of legOrders(gttParams)) {
+    await context.riskManager.assertOrderAllowed(order, 'gtt');
+  }
+}
+
+function legOrders(gttParams: GTTParams): Partial<OrderParams>[] {
+  return gttParams.orders.map(leg => ({
+    exchange: gttParams.exchange,
+    tradingsymbol: gttParams.tradingsymbol,
+    transaction_type: leg.transaction_type,
+    order_type: 'LIMIT',
+    quantity: leg.quantity,
+    product: leg.product,
+    price: leg.price
+  }));
+}
+
+export class DeleteGTTTool extends BaseTool {
+  readonly name = 'delete_gtt';
+  readonly description = 'Delete a GTT order';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: { trigger_id: { type: 'number' } },
+    required: ['trigger_id']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          trigger_id: {
+            type: 'string',
+            description: 'GTT trigger ID to delete'
+          }
+        },
+        required: ['trigger_id']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return await context.kiteClient.deleteGTT(args.trigger_id);
+  }
+}
+
+/**
+ * Build GTT parameters from tool arguments, fetching the last price when it is not supplied
+ */
+async function buildGTTParams(args: any, context: ToolContext): Promise<GTTParams> {
+  const instrument = `${args.exchange}:${args.tradingsymbol}`;
+  let lastPrice = args.last_price;
+  if (lastPrice === undefined) {
+    const ltps = await fetchLTPs([instrument], context);
+    lastPrice = ltps[instrument];
+    if (lastPrice === undefined) {
+      throw new Error(`Could not fetch last price for ${instrument}. Pass last_price explicitly.`);
+    }
+  }
+
+  const orders: GTTOrderLeg[] = (args.orders || []).map((leg: any) => ({
+    transaction_type: leg.transaction_type,
+    quantity: leg.quantity,
+    product: leg.product,
+    order_type: 'LIMIT',
+    price: leg.price
+  }));
+
+  return {
+    trigger_type: args.trigger_type,
+    exchange: args.exchange,
+    tradingsymbol: args.tradingsymbol,
+    trigger_values: args.trigger_values,
+    last_price: lastPrice,
+    orders
+  };
+}
+
+function instrumentOf(trigger: any): string | undefined {
+  const condition = trigger?.condition;
+  return condition ? `${condition.exchange}:${condition.tradingsymbol}` : undefined;
+}
+
+/**
+ * Fetch LTPs keyed by instrument. Trigger distance is informational, so failures yield no prices.
+ */
+async function fetchLTPs(instruments: string[], context: ToolContext): Promise<Record<string, number>> {
+  if (instruments.length === 0) {
+    return {};
+  }
+
+  try {
+    const response = await context.kiteClient.getLTP(instruments);
+    const ltps: Record<string, number> = {};
+    for (const [instrument, data] of Object.entries<any>(response || {})) {
+      ltps[instrument] = data.last_price;
+    }
+    return ltps;
+  } catch (error) {
+    console.error(`Failed to fetch LTP for GTT trigger distance: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+}
+
+function withTriggerDistance(trigger: any, ltp: number | undefined): any {
+  if (ltp === undefined) {
+    return trigger;
+  }
+  return {
+    ...trigger,
+    ...triggerDistance(trigger.condition?.trigger_values || [], ltp)
+  };
+}
+
+/**
+ * Distance of each trigger value from the LTP, in absolute terms and as a percentage of the LTP
+ */
+function triggerDistance(triggerValues: number[], ltp: number): any {
+  return {
+    current_ltp: ltp,
+    trigger_distance: triggerValues.map(value => ({
+      trigger_value: value,
+      distance: Number((value - ltp).toFixed(2)),
+      distance_pct: ltp > 0 ? Number((((value - ltp) / ltp) * 100).toFixed(2)) : null
+    }))
+  };
+}
+
+export const GTT_TOOLS = [
+  new GetGTTsTool(),
+  new GetGTTTool(),
+  new PlaceGTTTool(),
+  new ModifyGTTTool(),
+  new DeleteGTTTool()
+];
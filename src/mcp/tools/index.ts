@@ -1,22 +1,61 @@
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { KiteClient } from '../../api/kite-client.js';
-
-export interface ToolContext {
-  kiteClient: KiteClient;
-}
-
-export abstract class BaseTool {
-  abstract readonly name: string;
-  abstract readonly description: string;
-
-  abstract getDefinition(): Tool;
-  abstract execute(args: any, context: ToolContext): Promise<any>;
-}
+import { HISTORICAL_MAX_DAYS } from '../../api/kite-client.js';
+import { EXCHANGES } from '../../api/order-validation.js';
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from '../../instruments/instrument-store.js';
+import type { FieldError, JsonSchema } from '../../api/schema.js';
+import {
+  CANDLE_SCHEMA,
+  HOLDING_SCHEMA,
+  INSTRUMENT_RECORD_SCHEMA,
+  LTP_QUOTE_SCHEMA,
+  MARGINS_SCHEMA,
+  ORDER_SCHEMA,
+  POSITIONS_SCHEMA,
+  PROFILE_SCHEMA,
+  QUOTE_SCHEMA,
+  TRADE_SCHEMA,
+  quoteMapSchema
+} from '../../api/models.js';
+import { BaseTool, ORDER_PROPERTIES, VARIETY_PROPERTY, checkOrderArguments, type ToolContext } from './base.js';
+import { GTT_TOOLS } from './gtt.js';
+import { OPTIONS_TOOLS } from './options.js';
+import { MARGIN_TOOLS } from './margins.js';
+import { PORTFOLIO_TOOLS } from './portfolio.js';
+import { MARKET_DATA_TOOLS } from './market-data.js';
+import { ALERT_TOOLS } from './alerts.js';
+import { ACCOUNT_TOOLS } from './accounts.js';
+import { AUTH_TOOLS } from './auth.js';
+import { AUDIT_TOOLS } from './audit.js';
+import { TAX_TOOLS } from './tax.js';
+
+export { BaseTool, withAccountArgument, withOutputSchema, type ToolContext } from './base.js';
+
+// Fields of an open order that Kite allows to be changed
+const MODIFIABLE_ORDER_FIELDS = [
+  'order_type',
+  'quantity',
+  'price',
+  'trigger_price',
+  'validity',
+  'validity_ttl',
+  'disclosed_quantity'
+] as const;
+
+// What Kite returns for an order placed, modified or cancelled
+const ORDER_RESULT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    order_id: { type: 'string' },
+    status: { type: 'string', description: 'Order status after the simulated fill (paper trading only)' }
+  },
+  required: ['order_id']
+};
 
 // Profile Tools
 export class GetProfileTool extends BaseTool {
   readonly name = 'get_profile';
   readonly description = 'Get user profile information from Kite';
+  readonly resultSchema: JsonSchema = PROFILE_SCHEMA;
 
   getDefinition(): Tool {
     return {
@@ -39,6 +78,7 @@ export class GetProfileTool extends BaseTool {
 export class GetPositionsTool extends BaseTool {
   readonly name = 'get_positions';
   readonly description = 'Get current trading positions';
+  readonly resultSchema: JsonSchema = POSITIONS_SCHEMA;
 
   getDefinition(): Tool {
     return {
@@ -60,6 +100,7 @@ export class GetPositionsTool extends BaseTool {
 export class GetHoldingsTool extends BaseTool {
   readonly name = 'get_holdings';
   readonly description = 'Get long-term stock holdings';
+  readonly resultSchema: JsonSchema = { type: 'array', items: HOLDING_SCHEMA };
 
   getDefinition(): Tool {
     return {
@@ -82,6 +123,7 @@ export class GetHoldingsTool extends BaseTool {
 export class GetOrdersTool extends BaseTool {
   readonly name = 'get_orders';
   readonly description = 'Get list of orders for the day';
+  readonly resultSchema: JsonSchema = { type: 'array', items: ORDER_SCHEMA };
 
   getDefinition(): Tool {
     return {
@@ -103,6 +145,7 @@ export class GetOrdersTool extends BaseTool {
 export class PlaceOrderTool extends BaseTool {
   readonly name = 'place_order';
   readonly description = 'Place a new trading order';
+  readonly resultSchema: JsonSchema = ORDER_RESULT_SCHEMA;
 
   getDefinition(): Tool {
     return {
@@ -111,61 +154,324 @@ export class PlaceOrderTool extends BaseTool {
       inputSchema: {
         type: 'object',
         properties: {
-          exchange: {
-            type: 'string',
-            description: 'Exchange (NSE, BSE, etc.)',
-            enum: ['NSE', 'BSE', 'NFO', 'BFO', 'CDS', 'MCX']
-          },
-          tradingsymbol: {
-            type: 'string',
-            description: 'Trading symbol (e.g., INFY, SBIN)'
-          },
-          transaction_type: {
+          variety: VARIETY_PROPERTY,
+          ...ORDER_PROPERTIES
+        },
+        required: ['exchange', 'tradingsymbol', 'transaction_type', 'order_type', 'quantity', 'product']
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any, context: ToolContext): Promise<FieldError[]> {
+    const { variety, ...orderParams } = args;
+    return await checkOrderArguments(orderParams, context, { variety });
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const { variety = 'regular', ...orderParams } = args;
+    await context.riskManager.assertOrderAllowed(orderParams, 'place');
+    return await context.kiteClient.placeOrder(orderParams, variety);
+  }
+
+  override async preview(args: any, context: ToolContext): Promise<any> {
+    const { variety = 'regular', ...orderParams } = args;
+    return {
+      tool: this.name,
+      variety,
+      order: orderParams,
+      risk_violations: await context.riskManager.checkOrder(orderParams, 'place'),
+      ...await estimateOrderCost({ ...orderParams, variety }, context)
+    };
+  }
+}
+
+export class CancelOrderTool extends BaseTool {
+  readonly name = 'cancel_order';
+  readonly description = 'Cancel an existing order';
+  readonly resultSchema: JsonSchema = ORDER_RESULT_SCHEMA;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          order_id: {
             type: 'string',
-            description: 'Transaction type',
-            enum: ['BUY', 'SELL']
+            description: 'Order ID to cancel'
           },
-          order_type: {
+          variety: VARIETY_PROPERTY,
+          parent_order_id: {
             type: 'string',
-            description: 'Order type',
-            enum: ['MARKET', 'LIMIT', 'SL', 'SL-M']
-          },
-          quantity: {
-            type: 'number',
-            description: 'Number of shares to trade'
-          },
-          price: {
-            type: 'number',
-            description: 'Price per share (required for LIMIT orders)'
-          },
-          trigger_price: {
-            type: 'number',
-            description: 'Trigger price (required for SL and SL-M orders)'
-          },
-          product: {
+            description: 'Parent order ID (required when exiting the stop-loss leg of a cover order)'
+          }
+        },
+        required: ['order_id']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return await context.kiteClient.cancelOrder(args.order_id, args.variety || 'regular', args.parent_order_id);
+  }
+
+  override async preview(args: any, context: ToolContext): Promise<any> {
+    return {
+      tool: this.name,
+      order_id: args.order_id,
+      variety: args.variety || 'regular',
+      order: await fetchCurrentOrder(args.order_id, context)
+    };
+  }
+}
+
+export class ModifyOrderTool extends BaseTool {
+  readonly name = 'modify_order';
+  readonly description = 'Modify price, quantity, trigger price, order type or validity of an open order';
+  readonly resultSchema: JsonSchema = ORDER_RESULT_SCHEMA;
+
+  getDefinition(): Tool {
+    const properties: Record<string, any> = {
+      order_id: {
+        type: 'string',
+        description: 'Order ID to modify'
+      },
+      variety: VARIETY_PROPERTY,
+      parent_order_id: {
+        type: 'string',
+        description: 'Parent order ID (required when modifying the stop-loss leg of a cover order)'
+      }
+    };
+    for (const field of MODIFIABLE_ORDER_FIELDS) {
+      properties[field] = ORDER_PROPERTIES[field];
+    }
+
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties,
+        required: ['order_id']
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any, context: ToolContext): Promise<FieldError[]> {
+    const { order_id, variety, parent_order_id, ...changes } = args;
+    // Only the changed fields are known here; the full order is checked against the risk policy on execute
+    return await checkOrderArguments(changes, context, { variety, partial: true });
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const { order_id, variety = 'regular', parent_order_id, ...rest } = args;
+    const orderParams: Record<string, any> = {};
+    for (const field of MODIFIABLE_ORDER_FIELDS) {
+      if (rest[field] !== undefined) {
+        orderParams[field] = rest[field];
+      }
+    }
+
+    if (Object.keys(orderParams).length === 0) {
+      throw new Error(`Nothing to modify. Provide at least one of: ${MODIFIABLE_ORDER_FIELDS.join(', ')}`);
+    }
+
+    // Check the order as it will look after the modification
+    const current = await fetchCurrentOrder(order_id, context);
+    if (orderParams.validity_ttl !== undefined && (orderParams.validity ?? current.validity) !== 'TTL') {
+      throw new Error('validity_ttl can only be set on an order with TTL validity');
+    }
+    await context.riskManager.assertOrderAllowed({ ...current, ...orderParams }, 'modify');
+
+    if (parent_order_id) {
+      orderParams.parent_order_id = parent_order_id;
+    }
+
+    return await context.kiteClient.modifyOrder(order_id, orderParams, variety);
+  }
+
+  override async preview(args: any, context: ToolContext): Promise<any> {
+    const { order_id, variety = 'regular' } = args;
+    const current = await fetchCurrentOrder(order_id, context);
+    const changes: Record<string, any> = {};
+    for (const field of MODIFIABLE_ORDER_FIELDS) {
+      if (args[field] !== undefined) {
+        changes[field] = args[field];
+      }
+    }
+    const resolved = { ...current, ...changes };
+
+    return {
+      tool: this.name,
+      order_id,
+      variety,
+      current_order: current,
+      changes,
+      order: resolved,
+      risk_violations: await context.riskManager.checkOrder(resolved, 'modify'),
+      ...await estimateOrderCost({ ...resolved, variety }, context)
+    };
+  }
+}
+
+/**
+ * Get the latest state of an order as order parameters
+ */
+async function fetchCurrentOrder(orderId: string, context: ToolContext): Promise<any> {
+  const history: any[] = await context.kiteClient.getOrderHistory(orderId) || [];
+  const current = history[history.length - 1];
+  if (!current) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+
+  return {
+    exchange: current.exchange,
+    tradingsymbol: current.tradingsymbol,
+    transaction_type: current.transaction_type,
+    product: current.product,
+    order_type: current.order_type,
+    quantity: current.quantity,
+    price: current.price || undefined,
+    trigger_price: current.trigger_price || undefined,
+    validity: current.validity,
+    validity_ttl: current.validity_ttl || undefined,
+    status: current.status
+  };
+}
+
+/**
+ * Estimate margin and charges for an order. Estimation is best effort and never blocks a preview.
+ */
+async function estimateOrderCost(order: any, context: ToolContext): Promise<any> {
+  try {
+    const { status, ...orderParams } = order;
+    const [margin] = await context.kiteClient.getOrderMargins([orderParams]) || [];
+    return {
+      estimated_margin: margin?.total ?? null,
+      estimated_charges: margin?.charges ?? null
+    };
+  } catch (error) {
+    return {
+      estimated_margin: null,
+      estimated_charges: null,
+      estimate_error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+export class GetOrderHistoryTool extends BaseTool {
+  readonly name = 'get_order_history';
+  readonly description = 'Get every status transition of an order, including rejection reasons';
+  readonly resultSchema: JsonSchema = { type: 'array', items: ORDER_SCHEMA };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          order_id: {
             type: 'string',
-            description: 'Product type',
-            enum: ['NRML', 'MIS', 'CNC']
-          },
-          validity: {
+            description: 'Order ID to look up'
+          }
+        },
+        required: ['order_id']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return await context.kiteClient.getOrderHistory(args.order_id);
+  }
+}
+
+export class GetTradesTool extends BaseTool {
+  readonly name = 'get_trades';
+  readonly description = 'Get list of trades executed during the day';
+  readonly resultSchema: JsonSchema = { type: 'array', items: TRADE_SCHEMA };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return await context.kiteClient.getTrades();
+  }
+}
+
+export class GetOrderTradesTool extends BaseTool {
+  readonly name = 'get_order_trades';
+  readonly description = 'Get trades (fills) generated by a specific order';
+  readonly resultSchema: JsonSchema = { type: 'array', items: TRADE_SCHEMA };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          order_id: {
             type: 'string',
-            description: 'Order validity',
-            enum: ['DAY', 'IOC']
+            description: 'Order ID to look up'
           }
         },
-        required: ['exchange', 'tradingsymbol', 'transaction_type', 'order_type', 'quantity', 'product']
+        required: ['order_id']
       }
     };
   }
 
   async execute(args: any, context: ToolContext): Promise<any> {
-    return await context.kiteClient.placeOrder(args);
+    return await context.kiteClient.getOrderTrades(args.order_id);
   }
 }
 
-export class CancelOrderTool extends BaseTool {
-  readonly name = 'cancel_order';
-  readonly description = 'Cancel an existing order';
+export class GetOrderTimelineTool extends BaseTool {
+  readonly name = 'get_order_timeline';
+  readonly description = 'Get a single chronological view of an order\'s status transitions and fills';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      order_id: { type: 'string' },
+      tradingsymbol: { type: 'string' },
+      exchange: { type: 'string' },
+      transaction_type: { type: 'string' },
+      status: { type: 'string' },
+      status_message: { type: 'string' },
+      quantity: { type: 'number' },
+      filled_quantity: { type: 'number' },
+      average_fill_price: { type: 'number' },
+      events: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            timestamp: { type: ['string', 'null'] },
+            type: { type: 'string', enum: ['status', 'fill'] },
+            status: { type: 'string' },
+            message: { type: 'string' },
+            trade_id: { type: 'string' },
+            price: { type: 'number' },
+            trigger_price: { type: 'number' },
+            quantity: { type: 'number' },
+            filled_quantity: { type: 'number' },
+            pending_quantity: { type: 'number' }
+          }
+        }
+      }
+    },
+    required: ['order_id', 'events']
+  };
 
   getDefinition(): Tool {
     return {
@@ -176,7 +482,7 @@ export class CancelOrderTool extends BaseTool {
         properties: {
           order_id: {
             type: 'string',
-            description: 'Order ID to cancel'
+            description: 'Order ID to look up'
           }
         },
         required: ['order_id']
@@ -185,7 +491,95 @@ export class CancelOrderTool extends BaseTool {
   }
 
   async execute(args: any, context: ToolContext): Promise<any> {
-    return await context.kiteClient.cancelOrder(args.order_id);
+    const [history, trades] = await Promise.all([
+      context.kiteClient.getOrderHistory(args.order_id),
+      context.kiteClient.getOrderTrades(args.order_id)
+    ]);
+
+    return buildOrderTimeline(args.order_id, history || [], trades || []);
+  }
+}
+
+/**
+ * Merge order history entries and trades into one time-ordered list of events
+ */
+function buildOrderTimeline(orderId: string, history: any[], trades: any[]): any {
+  const events: any[] = [];
+
+  for (const entry of history) {
+    events.push({
+      timestamp: entry.exchange_update_timestamp || entry.exchange_timestamp || entry.order_timestamp,
+      type: 'status',
+      status: entry.status,
+      message: entry.status_message || undefined,
+      price: entry.price,
+      trigger_price: entry.trigger_price,
+      quantity: entry.quantity,
+      filled_quantity: entry.filled_quantity,
+      pending_quantity: entry.pending_quantity
+    });
+  }
+
+  for (const trade of trades) {
+    events.push({
+      timestamp: trade.fill_timestamp || trade.exchange_timestamp || trade.order_timestamp,
+      type: 'fill',
+      trade_id: trade.trade_id,
+      quantity: trade.quantity ?? trade.filled,
+      price: trade.average_price
+    });
+  }
+
+  // Events without a readable timestamp go last, in the order they were reported
+  const times = new Map(events.map(event => [event, eventTime(event.timestamp)]));
+  events.sort((a, b) => {
+    const timeA = times.get(a);
+    const timeB = times.get(b);
+    if (timeA === undefined || timeB === undefined) {
+      return (timeA === undefined ? 1 : 0) - (timeB === undefined ? 1 : 0);
+    }
+    return timeA - timeB;
+  });
+
+  const latest = history[history.length - 1];
+  const filledQuantity = trades.reduce((sum, t) => sum + (t.quantity ?? t.filled ?? 0), 0);
+  const filledValue = trades.reduce((sum, t) => sum + (t.quantity ?? t.filled ?? 0) * t.average_price, 0);
+
+  return {
+    order_id: orderId,
+    tradingsymbol: latest?.tradingsymbol,
+    exchange: latest?.exchange,
+    transaction_type: latest?.transaction_type,
+    status: latest?.status,
+    status_message: latest?.status_message || undefined,
+    quantity: latest?.quantity,
+    filled_quantity: filledQuantity,
+    average_fill_price: filledQuantity > 0 ? filledValue / filledQuantity : undefined,
+    events
+  };
+}
+
+/**
+ * Sort key for an order or trade timestamp, or undefined when it is missing or unreadable.
+ * kiteconnect parses Kite's IST timestamps as local time, so a Date's local fields hold the
+ * IST wall-clock time, which is compared in the form parseKiteDate returns.
+ */
+function eventTime(value: string | Date | null | undefined): number | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? undefined
+      : Date.UTC(value.getFullYear(), value.getMonth(), value.getDate(), value.getHours(), value.getMinutes(), value.getSeconds());
+  }
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return parseKiteDate(value, 'start').getTime();
+  } catch {
+    // Paper trading records ISO timestamps
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : time;
   }
 }
 
@@ -193,6 +587,7 @@ export class CancelOrderTool extends BaseTool {
 export class GetLTPTool extends BaseTool {
   readonly name = 'get_ltp';
   readonly description = 'Get Last Traded Price for instruments';
+  readonly resultSchema: JsonSchema = quoteMapSchema(LTP_QUOTE_SCHEMA);
 
   getDefinition(): Tool {
     return {
@@ -222,6 +617,7 @@ export class GetLTPTool extends BaseTool {
 export class GetQuoteTool extends BaseTool {
   readonly name = 'get_quote';
   readonly description = 'Get detailed market quote for instruments';
+  readonly resultSchema: JsonSchema = quoteMapSchema(QUOTE_SCHEMA);
 
   getDefinition(): Tool {
     return {
@@ -248,9 +644,109 @@ export class GetQuoteTool extends BaseTool {
   }
 }
 
+export class GetHistoricalDataTool extends BaseTool {
+  readonly name = 'get_historical_data';
+  readonly description = 'Get historical OHLCV candles for an instrument over a date range';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      instrument: { type: 'string' },
+      instrument_token: { type: 'number' },
+      interval: { type: 'string' },
+      count: { type: 'number' },
+      candles: { type: 'array', items: CANDLE_SCHEMA }
+    },
+    required: ['instrument', 'interval', 'count', 'candles']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instrument: {
+            type: 'string',
+            description: 'Instrument as EXCHANGE:SYMBOL (e.g., "NSE:INFY") or a numeric instrument token'
+          },
+          interval: {
+            type: 'string',
+            description: 'Candle interval',
+            enum: Object.keys(HISTORICAL_MAX_DAYS)
+          },
+          from_date: {
+            type: 'string',
+            description: 'Start of range in IST, "YYYY-MM-DD" or "YYYY-MM-DD HH:mm:ss"'
+          },
+          to_date: {
+            type: 'string',
+            description: 'End of range in IST, "YYYY-MM-DD" or "YYYY-MM-DD HH:mm:ss"'
+          },
+          continuous: {
+            type: 'boolean',
+            description: 'Stitch expired futures contracts into a continuous series (NFO/MCX futures only)'
+          },
+          oi: {
+            type: 'boolean',
+            description: 'Include open interest in each candle'
+          }
+        },
+        required: ['instrument', 'interval', 'from_date', 'to_date']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const input = String(args.instrument).trim();
+    const instrument = await context.instrumentStore.resolve(input);
+
+    // Tokens of expired contracts are no longer in the instrument master but still have history
+    if (!instrument && !/^\d+$/.test(input)) {
+      throw new Error(`Unknown instrument: ${input}. Use EXCHANGE:SYMBOL (e.g., NSE:INFY) or an instrument token.`);
+    }
+
+    const candles = await context.kiteClient.getHistoricalData({
+      instrumentToken: instrument?.instrument_token ?? input,
+      interval: args.interval,
+      from: parseKiteDate(args.from_date, 'start'),
+      to: parseKiteDate(args.to_date, 'end'),
+      continuous: Boolean(args.continuous),
+      oi: Boolean(args.oi)
+    });
+
+    return {
+      instrument: instrument ? `${instrument.exchange}:${instrument.tradingsymbol}` : input,
+      instrument_token: instrument?.instrument_token ?? Number(input),
+      interval: args.interval,
+      count: candles.length,
+      candles
+    };
+  }
+}
+
+/**
+ * Parse an IST date string into a Date whose UTC fields hold the IST wall-clock time,
+ * which is the form kiteconnect serialises historical data ranges in
+ */
+function parseKiteDate(value: string, boundary: 'start' | 'end'): Date {
+  const match = /^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2})?))?$/.exec(String(value).trim());
+  if (!match) {
+    throw new Error(`Invalid date "${value}". Use YYYY-MM-DD or YYYY-MM-DD HH:mm:ss`);
+  }
+
+  const time = match[2] ?? (boundary === 'start' ? '00:00:00' : '23:59:59');
+  const date = new Date(`${match[1]}T${time.length === 5 ? `${time}:00` : time}Z`);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${value}"`);
+  }
+  return date;
+}
+
 export class GetInstrumentsTool extends BaseTool {
   readonly name = 'get_instruments';
-  readonly description = 'Get list of tradable instruments for an exchange';
+  readonly description = 'Get the full list of tradable instruments for an exchange (very large; prefer search_instruments)';
+  readonly resultSchema: JsonSchema = { type: 'array', items: INSTRUMENT_RECORD_SCHEMA };
 
   getDefinition(): Tool {
     return {
@@ -271,7 +767,87 @@ export class GetInstrumentsTool extends BaseTool {
   }
 
   async execute(args: any, context: ToolContext): Promise<any> {
-    return await context.kiteClient.getInstruments(args.exchange);
+    const instruments = await context.instrumentStore.getAll();
+    return args.exchange ? instruments.filter(i => i.exchange === args.exchange) : instruments;
+  }
+}
+
+export class SearchInstrumentsTool extends BaseTool {
+  readonly name = 'search_instruments';
+  readonly description = 'Search the instrument master by name or symbol, exchange, segment, type, expiry, strike and lot size';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      total: { type: 'number', description: 'Matches before pagination' },
+      offset: { type: 'number' },
+      limit: { type: 'number' },
+      has_more: { type: 'boolean' },
+      results: { type: 'array', items: INSTRUMENT_RECORD_SCHEMA }
+    },
+    required: ['total', 'offset', 'limit', 'has_more', 'results']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Case-insensitive substring of the trading symbol or name (e.g., "INFY", "NIFTY24")'
+          },
+          exchange: {
+            type: 'string',
+            description: 'Exchange',
+            enum: [...EXCHANGES]
+          },
+          segment: {
+            type: 'string',
+            description: 'Segment (e.g., NSE, NFO-OPT, NFO-FUT, BFO-OPT, MCX-FUT, INDICES)'
+          },
+          instrument_type: {
+            type: 'string',
+            description: 'Instrument type',
+            enum: ['EQ', 'FUT', 'CE', 'PE']
+          },
+          expiry_from: {
+            type: 'string',
+            description: 'Earliest expiry date, YYYY-MM-DD'
+          },
+          expiry_to: {
+            type: 'string',
+            description: 'Latest expiry date, YYYY-MM-DD'
+          },
+          strike_min: {
+            type: 'number',
+            description: 'Minimum strike price'
+          },
+          strike_max: {
+            type: 'number',
+            description: 'Maximum strike price'
+          },
+          lot_size: {
+            type: 'number',
+            description: 'Exact lot size'
+          },
+          limit: {
+            type: 'number',
+            description: `Results per page (default ${DEFAULT_SEARCH_LIMIT}, max ${MAX_SEARCH_LIMIT})`
+          },
+          offset: {
+            type: 'number',
+            description: 'Number of results to skip, for pagination'
+          }
+        },
+        required: []
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return await context.instrumentStore.search(args);
   }
 }
 
@@ -279,6 +855,7 @@ export class GetInstrumentsTool extends BaseTool {
 export class GetMarginsTool extends BaseTool {
   readonly name = 'get_margins';
   readonly description = 'Get account margins and available funds';
+  readonly resultSchema: JsonSchema = MARGINS_SCHEMA;
 
   getDefinition(): Tool {
     return {
@@ -300,6 +877,19 @@ export class GetMarginsTool extends BaseTool {
 export class GetAuthStatusTool extends BaseTool {
   readonly name = 'get_auth_status';
   readonly description = 'Get current authentication status';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      account: { type: 'string' },
+      authenticated: { type: 'boolean' },
+      user: { type: 'string' },
+      tokenGeneratedAt: { type: 'string' },
+      tokenExpiry: { type: 'string' },
+      expiresInMinutes: { type: 'number' },
+      tradingMode: { type: 'string', enum: ['live', 'paper'] }
+    },
+    required: ['authenticated', 'tradingMode']
+  };
 
   getDefinition(): Tool {
     return {
@@ -325,10 +915,27 @@ export const ALL_TOOLS = [
   new GetHoldingsTool(),
   new GetOrdersTool(),
   new PlaceOrderTool(),
+  new ModifyOrderTool(),
   new CancelOrderTool(),
+  new GetOrderHistoryTool(),
+  new GetTradesTool(),
+  new GetOrderTradesTool(),
+  new GetOrderTimelineTool(),
   new GetLTPTool(),
   new GetQuoteTool(),
+  new GetHistoricalDataTool(),
   new GetInstrumentsTool(),
+  new SearchInstrumentsTool(),
   new GetMarginsTool(),
-  new GetAuthStatusTool()
+  new GetAuthStatusTool(),
+  ...GTT_TOOLS,
+  ...OPTIONS_TOOLS,
+  ...MARGIN_TOOLS,
+  ...PORTFOLIO_TOOLS,
+  ...MARKET_DATA_TOOLS,
+  ...ALERT_TOOLS,
+  ...ACCOUNT_TOOLS,
+  ...AUTH_TOOLS,
+  ...AUDIT_TOOLS,
+  ...TAX_TOOLS
 ];
@@ -0,0 +1,231 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { FieldError, JsonSchema } from '../../api/schema.js';
+import { BaseTool, ORDER_PROPERTIES, VARIETY_PROPERTY, checkOrderArguments, type ToolContext } from './base.js';
+
+// Orders take the same shape as place_order arguments
+const MARGIN_ORDERS_PROPERTY = {
+  type: 'array',
+  description: 'Orders, each with the same fields as place_order',
+  items: {
+    type: 'object',
+    properties: {
+      variety: VARIETY_PROPERTY,
+      ...ORDER_PROPERTIES
+    },
+    required: ['exchange', 'tradingsymbol', 'transaction_type', 'order_type', 'quantity', 'product']
+  }
+};
+
+// Margin breakdown Kite returns per order and for a basket as a whole
+const ORDER_MARGIN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    exchange: { type: 'string' },
+    tradingsymbol: { type: 'string' },
+    span: { type: 'number' },
+    exposure: { type: 'number' },
+    option_premium: { type: 'number' },
+    additional: { type: 'number' },
+    bo: { type: 'number' },
+    cash: { type: 'number' },
+    var: { type: 'number' },
+    pnl: { type: 'object' },
+    leverage: { type: 'number' },
+    charges: { type: 'object' },
+    total: { type: 'number' }
+  }
+};
+
+export class GetOrderMarginsTool extends BaseTool {
+  readonly name = 'get_order_margins';
+  readonly description = 'Calculate the margin required for each order individually, with SPAN, exposure and other components';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      total_margin: { type: 'number' },
+      orders: { type: 'array', items: ORDER_MARGIN_SCHEMA }
+    },
+    required: ['total_margin', 'orders']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          orders: MARGIN_ORDERS_PROPERTY
+        },
+        required: ['orders']
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any, context: ToolContext): Promise<FieldError[]> {
+    return await checkMarginOrders(args.orders, context);
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const margins: any[] = await context.kiteClient.getOrderMargins(args.orders) || [];
+    return {
+      total_margin: sum(margins.map(m => m.total)),
+      orders: margins
+    };
+  }
+}
+
+export class GetBasketMarginsTool extends BaseTool {
+  readonly name = 'get_basket_margins';
+  readonly description = 'Calculate the combined margin for a multi-leg basket and the margin benefit from hedging';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      margin_without_hedging: { type: 'number' },
+      margin_required: { type: 'number' },
+      hedging_benefit: { type: 'number' },
+      hedging_benefit_pct: { type: 'number' },
+      initial: ORDER_MARGIN_SCHEMA,
+      final: ORDER_MARGIN_SCHEMA,
+      orders: { type: 'array', items: ORDER_MARGIN_SCHEMA }
+    },
+    required: ['margin_without_hedging', 'margin_required', 'hedging_benefit']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          orders: MARGIN_ORDERS_PROPERTY,
+          consider_positions: {
+            type: 'boolean',
+            description: 'Take existing open positions into account (default true)',
+            default: true
+          }
+        },
+        required: ['orders']
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any, context: ToolContext): Promise<FieldError[]> {
+    return await checkMarginOrders(args.orders, context);
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const basket = await context.kiteClient.getBasketMargins(args.orders, args.consider_positions ?? true);
+    const initial = basket?.initial?.total ?? 0;
+    const final = basket?.final?.total ?? 0;
+
+    return {
+      // initial is the margin without spread/hedge benefit, final is what is actually blocked
+      margin_without_hedging: initial,
+      margin_required: final,
+      hedging_benefit: initial - final,
+      hedging_benefit_pct: initial > 0 ? Number((((initial - final) / initial) * 100).toFixed(2)) : 0,
+      initial: basket?.initial,
+      final: basket?.final,
+      orders: basket?.orders
+    };
+  }
+}
+
+export class GetOrderChargesTool extends BaseTool {
+  readonly name = 'get_order_charges';
+  readonly description = 'Estimate charges per order: brokerage, STT/CTT, exchange transaction fees, SEBI fees, GST and stamp duty';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      total_charges: { type: 'number' },
+      orders: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            exchange: { type: 'string' },
+            tradingsymbol: { type: 'string' },
+            transaction_type: { type: 'string' },
+            brokerage: { type: 'number' },
+            transaction_tax: { type: 'number' },
+            transaction_tax_type: { type: 'string' },
+            exchange_turnover_charge: { type: 'number' },
+            sebi_turnover_charge: { type: 'number' },
+            gst: { type: 'number' },
+            stamp_duty: { type: 'number' },
+            total: { type: 'number' }
+          }
+        }
+      }
+    },
+    required: ['total_charges', 'orders']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          orders: MARGIN_ORDERS_PROPERTY
+        },
+        required: ['orders']
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any, context: ToolContext): Promise<FieldError[]> {
+    return await checkMarginOrders(args.orders, context);
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const margins: any[] = await context.kiteClient.getOrderMargins(args.orders) || [];
+
+    const orders = margins.map(margin => {
+      const charges = margin.charges ?? {};
+      return {
+        exchange: margin.exchange,
+        tradingsymbol: margin.tradingsymbol,
+        transaction_type: margin.transaction_type,
+        brokerage: charges.brokerage ?? 0,
+        transaction_tax: charges.transaction_tax ?? 0,
+        transaction_tax_type: charges.transaction_tax_type,
+        exchange_turnover_charge: charges.exchange_turnover_charge ?? 0,
+        sebi_turnover_charge: charges.sebi_turnover_charge ?? 0,
+        gst: charges.gst?.total ?? 0,
+        stamp_duty: charges.stamp_duty ?? 0,
+        total: charges.total ?? 0
+      };
+    });
+
+    return {
+      total_charges: sum(orders.map(o => o.total)),
+      orders
+    };
+  }
+}
+
+/**
+ * Check each order of a margin request. Estimates are hypothetical, so market hours do not matter.
+ */
+async function checkMarginOrders(orders: any[], context: ToolContext): Promise<FieldError[]> {
+  const errors: FieldError[] = [];
+  for (const [index, { variety, ...order }] of orders.entries()) {
+    errors.push(...await checkOrderArguments(order, context, { variety, checkMarketHours: false, path: `orders[${index}]` }));
+  }
+  return errors;
+}
+
+function sum(values: number[]): number {
+  return Number(values.reduce((total, value) => total + (value || 0), 0).toFixed(2));
+}
+
+export const MARGIN_TOOLS = [
+  new GetOrderMarginsTool(),
+  new GetBasketMarginsTool(),
+  new GetOrderChargesTool()
+];
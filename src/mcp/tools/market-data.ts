@@ -0,0 +1,240 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { JsonSchema } from '../../api/schema.js';
+import { TICK_MODES } from '../../streaming/ticker-manager.js';
+import { tickResourceUri } from '../market-data-resources.js';
+import { BaseTool, type ToolContext } from './base.js';
+
+const INSTRUMENTS_PROPERTY = {
+  type: 'array',
+  description: 'Instruments as EXCHANGE:SYMBOL (e.g., NSE:INFY) or instrument tokens',
+  items: { type: 'string' }
+};
+
+const SUBSCRIPTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    instrument: { type: 'string' },
+    instrument_token: { type: 'number' },
+    mode: { type: 'string', enum: TICK_MODES },
+    resource_uri: { type: 'string' }
+  }
+};
+
+const TICKER_STATUS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    state: { type: 'string', enum: ['idle', 'connecting', 'connected', 'reconnecting', 'failed'] },
+    connected: { type: 'boolean' },
+    connected_at: { type: ['string', 'null'] },
+    subscriptions: { type: 'number' },
+    max_subscriptions: { type: 'number' },
+    modes: { type: 'object', additionalProperties: { type: 'number' } },
+    reconnect_attempts: { type: 'number' },
+    last_tick_at: { type: ['string', 'null'] },
+    last_error: { type: ['string', 'null'] }
+  },
+  required: ['state', 'connected', 'subscriptions']
+};
+
+/**
+ * Resolve EXCHANGE:SYMBOL strings or tokens, failing on the first unknown instrument
+ */
+async function resolveInstruments(inputs: string[], context: ToolContext): Promise<Array<{ instrument: string; instrument_token: number }>> {
+  const resolved = [];
+  for (const input of inputs) {
+    const record = await context.instrumentStore.resolve(input);
+    if (!record) {
+      throw new Error(`Unknown instrument: ${input}. Use EXCHANGE:SYMBOL (e.g., NSE:INFY) or an instrument token.`);
+    }
+    resolved.push({ instrument: `${record.exchange}:${record.tradingsymbol}`, instrument_token: record.instrument_token });
+  }
+  return resolved;
+}
+
+export class SubscribeMarketDataTool extends BaseTool {
+  readonly name = 'subscribe_market_data';
+  readonly description = 'Stream live ticks for instruments over the Kite WebSocket. Subscribed instruments become kite://ticks resources that clients can subscribe to for update notifications.';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      subscribed: { type: 'array', items: SUBSCRIPTION_SCHEMA },
+      status: TICKER_STATUS_SCHEMA
+    },
+    required: ['subscribed', 'status']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instruments: INSTRUMENTS_PROPERTY,
+          mode: {
+            type: 'string',
+            description: 'ltp (last price only), quote (adds OHLC, volume and buy/sell quantities) or full (adds market depth and OI). Switches the mode of already subscribed instruments. Default quote.',
+            enum: TICK_MODES,
+            default: 'quote'
+          }
+        },
+        required: ['instruments']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const instruments = await resolveInstruments(args.instruments || [], context);
+    const subscriptions = context.tickerManager.subscribe(instruments, args.mode || 'quote');
+    return {
+      subscribed: subscriptions.map(s => ({ ...s, resource_uri: tickResourceUri(s.instrument) })),
+      status: context.tickerManager.getStatus()
+    };
+  }
+}
+
+export class UnsubscribeMarketDataTool extends BaseTool {
+  readonly name = 'unsubscribe_market_data';
+  readonly description = 'Stop streaming live ticks for instruments';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      unsubscribed: { type: 'array', items: { type: 'string' } },
+      not_subscribed: { type: 'array', items: { type: 'string' } },
+      status: TICKER_STATUS_SCHEMA
+    },
+    required: ['unsubscribed', 'not_subscribed', 'status']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instruments: INSTRUMENTS_PROPERTY
+        },
+        required: ['instruments']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const instruments = await resolveInstruments(args.instruments || [], context);
+    const removed = context.tickerManager.unsubscribe(instruments.map(i => i.instrument_token));
+    return {
+      unsubscribed: removed.map(s => s.instrument),
+      not_subscribed: instruments
+        .filter(i => !removed.some(r => r.instrument_token === i.instrument_token))
+        .map(i => i.instrument),
+      status: context.tickerManager.getStatus()
+    };
+  }
+}
+
+export class GetLiveTicksTool extends BaseTool {
+  readonly name = 'get_live_ticks';
+  readonly description = 'Get the latest streamed tick for subscribed instruments, from memory without an API call';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      ticks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            instrument: { type: 'string' },
+            instrument_token: { type: 'number' },
+            received_at: { type: 'string' },
+            tick: { type: 'object', description: 'Tick as sent by the Kite WebSocket for the subscription mode' }
+          }
+        }
+      },
+      missing: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { instrument: { type: 'string' }, subscribed: { type: 'boolean' } }
+        }
+      }
+    },
+    required: ['ticks', 'missing']
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          instruments: {
+            ...INSTRUMENTS_PROPERTY,
+            description: `${INSTRUMENTS_PROPERTY.description}. Defaults to every subscribed instrument.`
+          }
+        }
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const instruments = args.instruments?.length
+      ? await resolveInstruments(args.instruments, context)
+      : context.tickerManager.getSubscriptions();
+    const ticks = context.tickerManager.getLastTicks(instruments.map(i => i.instrument_token));
+
+    return {
+      ticks,
+      // Subscribed but nothing received yet, or not subscribed at all
+      missing: instruments
+        .filter(i => !ticks.some(t => t.instrument_token === i.instrument_token))
+        .map(i => ({
+          instrument: i.instrument,
+          subscribed: context.tickerManager.getSubscription(i.instrument_token) !== undefined
+        }))
+    };
+  }
+}
+
+export class GetTickerStatusTool extends BaseTool {
+  readonly name = 'get_ticker_status';
+  readonly description = 'Get the live market data connection state and the list of subscribed instruments';
+  readonly resultSchema: JsonSchema = {
+    ...TICKER_STATUS_SCHEMA,
+    properties: {
+      ...TICKER_STATUS_SCHEMA.properties,
+      subscribed_instruments: { type: 'array', items: SUBSCRIPTION_SCHEMA }
+    }
+  };
+  override readonly accountScoped = false;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return {
+      ...context.tickerManager.getStatus(),
+      subscribed_instruments: context.tickerManager.getSubscriptions()
+        .map(s => ({ ...s, resource_uri: tickResourceUri(s.instrument) }))
+    };
+  }
+}
+
+export const MARKET_DATA_TOOLS = [
+  new SubscribeMarketDataTool(),
+  new UnsubscribeMarketDataTool(),
+  new GetLiveTicksTool(),
+  new GetTickerStatusTool()
+];
@@ -0,0 +1,122 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { OI_CHANGE_STRIKES_AROUND_ATM, OptionChainBuilder } from '../../options/option-chain.js';
+import type { JsonSchema } from '../../api/schema.js';
+import { BaseTool, type ToolContext } from './base.js';
+
+// One side of a strike; quote_available is false when Kite returned no quote for the option
+const OPTION_LEG_SCHEMA: JsonSchema = {
+  type: ['object', 'null'],
+  properties: {
+    tradingsymbol: { type: 'string' },
+    instrument_token: { type: 'number' },
+    quote_available: { type: 'boolean' },
+    ltp: { type: 'number' },
+    bid: { type: ['number', 'null'] },
+    ask: { type: ['number', 'null'] },
+    volume: { type: 'number' },
+    oi: { type: 'number' },
+    oi_change: { type: ['number', 'null'], description: 'OI change since the previous session; null unless include_oi_change was set and the strike is near ATM' },
+    iv: { type: ['number', 'null'], description: 'Implied volatility in percent' },
+    delta: { type: ['number', 'null'] },
+    gamma: { type: ['number', 'null'] },
+    theta: { type: ['number', 'null'] },
+    vega: { type: ['number', 'null'] }
+  }
+};
+
+const OPTION_CHAIN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    underlying: { type: 'string' },
+    exchange: { type: 'string' },
+    expiry: { type: 'string' },
+    available_expiries: { type: 'array', items: { type: 'string' } },
+    underlying_price: { type: 'number' },
+    days_to_expiry: { type: 'number' },
+    risk_free_rate: { type: 'number' },
+    lot_size: { type: 'number' },
+    atm_strike: { type: 'number' },
+    pcr_oi: { type: ['number', 'null'] },
+    pcr_volume: { type: ['number', 'null'] },
+    max_pain: { type: ['number', 'null'] },
+    total_call_oi: { type: 'number' },
+    total_put_oi: { type: 'number' },
+    strikes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          strike: { type: 'number' },
+          call: OPTION_LEG_SCHEMA,
+          put: OPTION_LEG_SCHEMA
+        }
+      }
+    }
+  },
+  required: ['underlying', 'expiry', 'underlying_price', 'strikes']
+};
+
+export class GetOptionChainTool extends BaseTool {
+  readonly name = 'get_option_chain';
+  readonly description = 'Get an option chain with OI, optional change in OI near ATM, volume, bid/ask, LTP, IV and greeks per strike, plus PCR and max pain';
+  readonly resultSchema: JsonSchema = OPTION_CHAIN_SCHEMA;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          underlying: {
+            type: 'string',
+            description: 'Underlying name as used in the instrument master (e.g., NIFTY, BANKNIFTY, RELIANCE)'
+          },
+          expiry: {
+            type: 'string',
+            description: 'Expiry date, YYYY-MM-DD (defaults to the nearest expiry)'
+          },
+          exchange: {
+            type: 'string',
+            description: 'Derivatives exchange (defaults to any)',
+            enum: ['NFO', 'BFO', 'MCX', 'CDS']
+          },
+          strikes_around_atm: {
+            type: 'number',
+            description: 'Number of strikes to return on each side of the ATM strike (default 10, 0 for all)'
+          },
+          underlying_price: {
+            type: 'number',
+            description: 'Underlying price to use for IV and greeks (defaults to the spot LTP)'
+          },
+          risk_free_rate: {
+            type: 'number',
+            description: 'Annualised risk-free rate as a decimal (default 0.07)'
+          },
+          include_oi_change: {
+            type: 'boolean',
+            description: `Fetch the previous session OI to compute change in OI for the ${OI_CHANGE_STRIKES_AROUND_ATM} strikes on each side of ATM (default false). Takes one historical data call per option, so it is slow; other strikes get a null oi_change.`
+          }
+        },
+        required: ['underlying']
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const builder = new OptionChainBuilder(context.kiteClient, context.instrumentStore);
+    return await builder.build({
+      underlying: args.underlying,
+      expiry: args.expiry,
+      exchange: args.exchange,
+      strikesAroundAtm: args.strikes_around_atm,
+      underlyingPrice: args.underlying_price,
+      riskFreeRate: args.risk_free_rate,
+      includeOiChange: args.include_oi_change
+    });
+  }
+}
+
+export const OPTIONS_TOOLS = [
+  new GetOptionChainTool()
+];
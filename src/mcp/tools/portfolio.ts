@@ -0,0 +1,156 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { JsonSchema } from '../../api/schema.js';
+import { BaseTool, type ToolContext } from './base.js';
+
+const ALLOCATION_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      sector: { type: 'string' },
+      industry: { type: 'string' },
+      value: { type: 'number' },
+      weight_pct: { type: 'number' },
+      unrealised_pnl: { type: 'number' },
+      holdings: { type: 'array', items: { type: 'string' } }
+    }
+  }
+};
+
+// Top contributors and detractors carry unrealised_pnl; top gainers and losers carry day_change
+const RANKING_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      tradingsymbol: { type: 'string' },
+      unrealised_pnl: { type: 'number' },
+      day_change: { type: 'number' },
+      weight_pct: { type: 'number' }
+    }
+  }
+};
+
+const PORTFOLIO_ANALYTICS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    as_of: { type: 'string' },
+    summary: {
+      type: 'object',
+      properties: {
+        holdings_count: { type: 'number' },
+        positions_count: { type: 'number' },
+        invested: { type: 'number' },
+        current_value: { type: 'number' },
+        unrealised_pnl: { type: 'number' },
+        unrealised_pnl_pct: { type: 'number' },
+        realised_pnl: { type: 'number' },
+        day_change: { type: 'number' },
+        day_change_pct: { type: 'number' }
+      }
+    },
+    holdings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          instrument: { type: 'string' },
+          tradingsymbol: { type: 'string' },
+          exchange: { type: 'string' },
+          quantity: { type: 'number' },
+          average_price: { type: 'number' },
+          last_price: { type: 'number' },
+          close_price: { type: 'number' },
+          invested: { type: 'number' },
+          value: { type: 'number' },
+          unrealised_pnl: { type: 'number' },
+          unrealised_pnl_pct: { type: 'number' },
+          day_change: { type: 'number' },
+          day_change_pct: { type: 'number' },
+          weight_pct: { type: 'number' },
+          sector: { type: 'string' },
+          industry: { type: 'string' }
+        }
+      }
+    },
+    positions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          instrument: { type: 'string' },
+          tradingsymbol: { type: 'string' },
+          product: { type: 'string' },
+          quantity: { type: 'number' },
+          average_price: { type: 'number' },
+          last_price: { type: 'number' },
+          realised_pnl: { type: 'number' },
+          unrealised_pnl: { type: 'number' },
+          pnl: { type: 'number' },
+          day_pnl: { type: 'number' }
+        }
+      }
+    },
+    allocation: {
+      type: 'object',
+      properties: {
+        by_sector: ALLOCATION_SCHEMA,
+        by_industry: ALLOCATION_SCHEMA
+      }
+    },
+    concentration: {
+      type: 'object',
+      properties: {
+        largest_holding_pct: { type: 'number' },
+        top_3_pct: { type: 'number' },
+        top_5_pct: { type: 'number' },
+        top_10_pct: { type: 'number' },
+        herfindahl_index: { type: 'number' },
+        effective_holdings: { type: 'number' }
+      }
+    },
+    top_contributors: RANKING_SCHEMA,
+    top_detractors: RANKING_SCHEMA,
+    top_day_gainers: RANKING_SCHEMA,
+    top_day_losers: RANKING_SCHEMA
+  },
+  required: ['as_of', 'summary', 'holdings', 'positions']
+};
+
+export class GetPortfolioAnalyticsTool extends BaseTool {
+  readonly name = 'get_portfolio_analytics';
+  readonly description = 'Analyse holdings and positions at live prices: P&L summary, sector and industry allocation, concentration, and top contributors and detractors';
+  readonly resultSchema: JsonSchema = PORTFOLIO_ANALYTICS_SCHEMA;
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          top_n: {
+            type: 'number',
+            description: 'Number of top contributors, detractors, gainers and losers to list (default 5)',
+            minimum: 1
+          },
+          include_positions: {
+            type: 'boolean',
+            description: 'Include open positions in P&L figures (default true)'
+          }
+        }
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    return context.portfolioAnalyzer.analyze({
+      topN: args.top_n,
+      includePositions: args.include_positions
+    });
+  }
+}
+
+export const PORTFOLIO_TOOLS = [
+  new GetPortfolioAnalyticsTool()
+];
@@ -0,0 +1,390 @@
+import * as fs from 'fs';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { FieldError, JsonSchema } from '../../api/schema.js';
+import {
+  GAIN_CATEGORIES,
+  GRANDFATHERING_DATE,
+  capitalGainsToCsv,
+  computeCapitalGains,
+  currentFinancialYear,
+  financialYearRange
+} from '../../tax/capital-gains.js';
+import type { TradebookTrade } from '../../tax/trade-store.js';
+import { BaseTool, type ToolContext } from './base.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CATEGORY_SUMMARY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    trades: { type: 'number' },
+    buy_value: { type: 'number' },
+    sell_value: { type: 'number' },
+    realised_pnl: { type: 'number' },
+    turnover: { type: 'number', description: 'Sum of absolute profits and losses (business income only)' }
+  },
+  required: ['trades', 'buy_value', 'sell_value', 'realised_pnl']
+};
+
+const REALISED_TRADE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    tradingsymbol: { type: 'string' },
+    segment: { type: 'string' },
+    category: { type: 'string', enum: GAIN_CATEGORIES },
+    quantity: { type: 'number' },
+    buy_date: { type: 'string' },
+    buy_price: { type: 'number' },
+    cost_price: { type: 'number' },
+    sell_date: { type: 'string' },
+    sell_price: { type: 'number' },
+    buy_value: { type: 'number' },
+    sell_value: { type: 'number' },
+    pnl: { type: 'number' },
+    holding_days: { type: 'number' },
+    grandfathered: { type: 'boolean' }
+  },
+  required: ['tradingsymbol', 'category', 'quantity', 'buy_date', 'sell_date', 'pnl']
+};
+
+export class ImportTradebookTool extends BaseTool {
+  readonly name = 'import_tradebook';
+  readonly description = 'Import a tradebook CSV exported from Zerodha Console into the local tradebook used for capital gains. Trades already in the tradebook are skipped, so overlapping exports can be imported.';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      account: { type: 'string' },
+      added: { type: 'number' },
+      duplicates: { type: 'number' },
+      skipped: {
+        type: 'array',
+        description: 'Rows that could not be read',
+        items: {
+          type: 'object',
+          properties: {
+            line: { type: 'number' },
+            reason: { type: 'string' }
+          }
+        }
+      },
+      total_trades: { type: 'number', description: 'Trades in the account\'s tradebook after the import' }
+    },
+    required: ['account', 'added', 'duplicates', 'skipped', 'total_trades']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          csv: {
+            type: 'string',
+            description: 'Contents of the tradebook CSV'
+          },
+          file: {
+            type: 'string',
+            description: 'Path of a tradebook .csv file on the server, instead of csv'
+          }
+        },
+        required: []
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any): Promise<FieldError[]> {
+    if ((args.csv === undefined) === (args.file === undefined)) {
+      return [{ field: 'csv', message: '`csv` or `file` is required, but not both' }];
+    }
+    if (args.file !== undefined && !/\.csv$/i.test(args.file)) {
+      return [{ field: 'file', message: `\`file\` must be a .csv file (got ${JSON.stringify(args.file)})` }];
+    }
+    return [];
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const account = requireAccount(context);
+    let csv: string = args.csv;
+    if (args.file !== undefined) {
+      try {
+        csv = fs.readFileSync(args.file, 'utf-8');
+      } catch (error) {
+        throw new Error(`Failed to read ${args.file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    const result = context.tradeStore.importCsv(account, csv);
+    return { account, ...result, total_trades: context.tradeStore.list(account).length };
+  }
+}
+
+const GAPS_SCHEMA: JsonSchema = {
+  type: 'array',
+  description: 'Weekdays no Console import or trades sync covers, which may be missing trades (or be exchange holidays)',
+  items: {
+    type: 'object',
+    properties: {
+      from: { type: 'string' },
+      to: { type: 'string' }
+    }
+  }
+};
+
+export class SyncTradesTool extends BaseTool {
+  readonly name = 'sync_trades';
+  readonly description = 'Add today\'s trades from Kite to the local tradebook used for capital gains. Kite only returns the current day\'s trades, so a day that is never synced must be imported from a Console tradebook. The server also syncs automatically after the close.';
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      account: { type: 'string' },
+      trade_date: { type: 'string' },
+      added: { type: 'number' },
+      duplicates: { type: 'number' },
+      total_trades: { type: 'number', description: 'Trades in the account\'s tradebook after the sync' }
+    },
+    required: ['account', 'trade_date', 'added', 'duplicates', 'total_trades']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    };
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const account = requireAccount(context);
+    const result = await context.tradeSyncer.sync(account, context.kiteClient);
+    return { ...result, total_trades: context.tradeStore.list(account).length };
+  }
+}
+
+export class GetCapitalGainsReportTool extends BaseTool {
+  readonly name = 'get_capital_gains_report';
+  readonly description = `Realised P&L for a financial year from the local tradebook, matched FIFO and classified as intraday speculative, short term (STCG) or long term (LTCG) capital gains, or F&O business income. Shares bought on or before ${GRANDFATHERING_DATE} are grandfathered when their fair market value is given, and expired derivatives are closed at their settlement price. Today's trades are synced from Kite first; import Console tradebooks for earlier days, and check coverage_gaps for days neither covers.`;
+  readonly resultSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+      account: { type: 'string' },
+      financial_year: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      format: { type: 'string', enum: ['json', 'csv'] },
+      synced: {
+        type: 'object',
+        description: 'Today\'s trades added from Kite',
+        properties: {
+          added: { type: 'number' },
+          duplicates: { type: 'number' }
+        }
+      },
+      summary: {
+        type: 'object',
+        properties: {
+          ...Object.fromEntries(GAIN_CATEGORIES.map(category => [category, CATEGORY_SUMMARY_SCHEMA])),
+          total_realised_pnl: { type: 'number' }
+        },
+        required: [...GAIN_CATEGORIES, 'total_realised_pnl']
+      },
+      by_symbol: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            tradingsymbol: { type: 'string' },
+            segment: { type: 'string' },
+            ...Object.fromEntries(GAIN_CATEGORIES.map(category => [category, { type: 'number' }])),
+            total: { type: 'number' }
+          },
+          required: ['tradingsymbol', 'segment', 'total']
+        }
+      },
+      realised: { type: 'array', items: REALISED_TRADE_SCHEMA },
+      open_positions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            tradingsymbol: { type: 'string' },
+            segment: { type: 'string' },
+            quantity: { type: 'number' },
+            average_price: { type: 'number' },
+            since: { type: 'string' }
+          }
+        }
+      },
+      csv: { type: 'string', description: 'One row per FIFO match (csv format only)' },
+      coverage_gaps: GAPS_SCHEMA,
+      warnings: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['account', 'from', 'to', 'format', 'summary', 'warnings']
+  };
+
+  getDefinition(): Tool {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          financial_year: {
+            type: 'string',
+            description: 'Financial year, e.g. "2024-25" (defaults to the current one)'
+          },
+          from: {
+            type: 'string',
+            description: 'Start of a custom period, YYYY-MM-DD (instead of financial_year)'
+          },
+          to: {
+            type: 'string',
+            description: 'End of a custom period, YYYY-MM-DD, inclusive'
+          },
+          format: {
+            type: 'string',
+            description: 'json returns every FIFO match as objects; csv returns them as CSV text for a spreadsheet or tax filing',
+            enum: ['json', 'csv'],
+            default: 'json'
+          },
+          sync: {
+            type: 'boolean',
+            description: 'Add today\'s trades from Kite to the tradebook first (default true)',
+            default: true
+          },
+          fair_market_values: {
+            type: 'object',
+            description: `Fair market value per share on ${GRANDFATHERING_DATE} by trading symbol or ISIN, e.g. {"INFY": 1165.5}, for grandfathering long term gains`,
+            additionalProperties: { type: 'number' }
+          },
+          settlement_prices: {
+            type: 'object',
+            description: 'Final settlement price of expired futures, and of options that expired in the money, by trading symbol, e.g. {"NIFTY24JULFUT": 24951.15}. Expired options without one are closed at 0.',
+            additionalProperties: { type: 'number' }
+          }
+        },
+        required: []
+      }
+    };
+  }
+
+  protected override async checkArguments(args: any): Promise<FieldError[]> {
+    const errors: FieldError[] = [];
+    if (args.financial_year !== undefined) {
+      if (args.from !== undefined || args.to !== undefined) {
+        errors.push({ field: 'financial_year', message: '`financial_year` cannot be combined with `from` or `to`' });
+      } else {
+        try {
+          financialYearRange(args.financial_year);
+        } catch {
+          errors.push({ field: 'financial_year', message: `\`financial_year\` must look like 2024-25 (got ${JSON.stringify(args.financial_year)})` });
+        }
+      }
+    }
+
+    for (const field of ['from', 'to'] as const) {
+      if (args[field] !== undefined && (!DATE_PATTERN.test(args[field]) || isNaN(Date.parse(args[field])))) {
+        errors.push({ field, message: `\`${field}\` must be a date, YYYY-MM-DD (got ${JSON.stringify(args[field])})` });
+      }
+    }
+    if (errors.length === 0 && (args.from === undefined) !== (args.to === undefined)) {
+      errors.push({ field: args.from === undefined ? 'from' : 'to', message: '`from` and `to` must be given together' });
+    }
+    if (errors.length === 0 && args.from !== undefined && args.from > args.to) {
+      errors.push({ field: 'from', message: `\`from\` must not be after \`to\` (got ${args.from} > ${args.to})` });
+    }
+    return errors;
+  }
+
+  async execute(args: any, context: ToolContext): Promise<any> {
+    const account = requireAccount(context);
+    const financialYear = args.from === undefined ? args.financial_year ?? currentFinancialYear() : undefined;
+    const { from, to } = financialYear ? financialYearRange(financialYear) : { from: args.from, to: args.to };
+    const warnings: string[] = [];
+
+    // The trades API only covers today, so each report also records the day's fills
+    let synced: { added: number; duplicates: number } | undefined;
+    if (args.sync !== false) {
+      if (context.kiteClient.isSimulated()) {
+        warnings.push('Paper trading is on, so simulated trades were not added to the tradebook.');
+      } else {
+        try {
+          const { added, duplicates } = await context.tradeSyncer.sync(account, context.kiteClient);
+          synced = { added, duplicates };
+        } catch (error) {
+          warnings.push(`Today's trades were not synced: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+
+    const trades = context.tradeStore.list(account);
+    if (trades.length === 0) {
+      warnings.push('The tradebook is empty. Import tradebook CSVs from Console with import_tradebook.');
+    }
+
+    const gaps = context.tradeStore.findGaps(account, from, to);
+    if (gaps.length > 0) {
+      const days = gaps.map(gap => gap.from === gap.to ? gap.from : `${gap.from} to ${gap.to}`);
+      warnings.push(`No import or sync covers ${days.slice(0, 5).join(', ')}${days.length > 5 ? ` and ${days.length - 5} more gaps` : ''}. Trades on those days are missing unless they were holidays; import a Console tradebook covering them.`);
+    }
+
+    const report = computeCapitalGains(account, trades, {
+      from,
+      to,
+      fairMarketValues: args.fair_market_values,
+      settlementPrices: args.settlement_prices,
+      contractExpiries: await findContractExpiries(trades, context)
+    });
+    const { realised, ...rest } = report;
+    return {
+      ...rest,
+      financial_year: financialYear,
+      format: args.format ?? 'json',
+      synced,
+      coverage_gaps: gaps,
+      ...(args.format === 'csv' ? { csv: capitalGainsToCsv(report) } : { realised }),
+      warnings: [...warnings, ...report.warnings]
+    };
+  }
+}
+
+/**
+ * The tradebook is kept per Kite user ID, so the call needs a logged-in account
+ */
+function requireAccount(context: ToolContext): string {
+  if (!context.account) {
+    throw new Error('No Kite account is logged in. Log in first so trades are kept under your user ID.');
+  }
+  return context.account;
+}
+
+/**
+ * Expiry dates from the instrument master for derivatives trades recorded without one. The
+ * master only lists contracts that have not expired; the report falls back to the trading
+ * symbol for the rest, or when the master cannot be loaded.
+ */
+async function findContractExpiries(trades: TradebookTrade[], context: ToolContext): Promise<Record<string, string>> {
+  const contracts = new Map(trades.filter(trade => trade.segment !== 'EQ' && !trade.expiry).map(trade => [trade.tradingsymbol, trade.exchange]));
+  const expiries: Record<string, string> = {};
+  try {
+    for (const [tradingsymbol, exchange] of contracts) {
+      const expiry = (await context.instrumentStore.findBySymbol(exchange, tradingsymbol))?.expiry;
+      if (expiry) {
+        expiries[tradingsymbol] = expiry;
+      }
+    }
+  } catch (error) {
+    console.error(`Contract expiries not looked up in the instrument master: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return expiries;
+}
+
+export const TAX_TOOLS = [
+  new ImportTradebookTool(),
+  new SyncTradesTool(),
+  new GetCapitalGainsReportTool()
+];
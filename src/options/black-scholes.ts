@@ -0,0 +1,130 @@
+export type OptionType = 'CE' | 'PE';
+
+export interface OptionInputs {
+  type: OptionType;
+  spot: number;
+  strike: number;
+  /**
+   * Time to expiry in years
+   */
+  timeToExpiry: number;
+  /**
+   * Annualised risk-free rate, e.g. 0.07 for 7%
+   */
+  rate: number;
+  /**
+   * Annualised volatility, e.g. 0.15 for 15%
+   */
+  volatility: number;
+}
+
+export interface Greeks {
+  delta: number;
+  gamma: number;
+  /**
+   * Price change per calendar day
+   */
+  theta: number;
+  /**
+   * Price change per 1 percentage point change in volatility
+   */
+  vega: number;
+}
+
+const MIN_VOLATILITY = 0.0001;
+const MAX_VOLATILITY = 5;
+const IV_TOLERANCE = 1e-6;
+const IV_MAX_ITERATIONS = 100;
+
+/**
+ * Standard normal probability density
+ */
+function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 26.2.17)
+ */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normalPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+function d1d2(inputs: OptionInputs): [number, number] {
+  const { spot, strike, timeToExpiry: t, rate, volatility: sigma } = inputs;
+  const d1 = (Math.log(spot / strike) + (rate + 0.5 * sigma * sigma) * t) / (sigma * Math.sqrt(t));
+  return [d1, d1 - sigma * Math.sqrt(t)];
+}
+
+/**
+ * Black-Scholes theoretical price of a European option
+ */
+export function optionPrice(inputs: OptionInputs): number {
+  const { type, spot, strike, timeToExpiry: t, rate } = inputs;
+  if (t <= 0) {
+    return Math.max(0, type === 'CE' ? spot - strike : strike - spot);
+  }
+
+  const [d1, d2] = d1d2(inputs);
+  const discount = Math.exp(-rate * t);
+  return type === 'CE'
+    ? spot * normalCdf(d1) - strike * discount * normalCdf(d2)
+    : strike * discount * normalCdf(-d2) - spot * normalCdf(-d1);
+}
+
+/**
+ * Black-Scholes greeks of a European option
+ */
+export function optionGreeks(inputs: OptionInputs): Greeks {
+  const { type, spot, strike, timeToExpiry: t, rate, volatility: sigma } = inputs;
+  const [d1, d2] = d1d2(inputs);
+  const discount = Math.exp(-rate * t);
+  const sqrtT = Math.sqrt(t);
+
+  const delta = type === 'CE' ? normalCdf(d1) : normalCdf(d1) - 1;
+  const gamma = normalPdf(d1) / (spot * sigma * sqrtT);
+  const vega = spot * normalPdf(d1) * sqrtT / 100;
+  const decay = -(spot * normalPdf(d1) * sigma) / (2 * sqrtT);
+  const thetaYear = type === 'CE'
+    ? decay - rate * strike * discount * normalCdf(d2)
+    : decay + rate * strike * discount * normalCdf(-d2);
+
+  return { delta, gamma, theta: thetaYear / 365, vega };
+}
+
+/**
+ * Solve for the volatility that reproduces the market price, or null if no volatility in
+ * range does (e.g. a price below intrinsic value)
+ */
+export function impliedVolatility(inputs: Omit<OptionInputs, 'volatility'>, marketPrice: number): number | null {
+  if (inputs.timeToExpiry <= 0 || marketPrice <= 0) {
+    return null;
+  }
+
+  const priceAt = (volatility: number) => optionPrice({ ...inputs, volatility });
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+  if (marketPrice < priceAt(low) || marketPrice > priceAt(high)) {
+    return null;
+  }
+
+  // Newton-Raphson from a reasonable guess, falling back to bisection when it misbehaves
+  let sigma = 0.3;
+  for (let i = 0; i < IV_MAX_ITERATIONS; i++) {
+    const diff = priceAt(sigma) - marketPrice;
+    if (Math.abs(diff) < IV_TOLERANCE) {
+      return sigma;
+    }
+
+    if (diff > 0) high = sigma; else low = sigma;
+
+    const vega = optionGreeks({ ...inputs, volatility: sigma }).vega * 100;
+    const next = vega > 1e-8 ? sigma - diff / vega : NaN;
+    sigma = next > low && next < high ? next : (low + high) / 2;
+  }
+
+  return sigma;
+}
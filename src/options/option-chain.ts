@@ -0,0 +1,258 @@
+import { KiteClient } from '../api/kite-client.js';
+import { InstrumentStore, type InstrumentRecord } from '../instruments/instrument-store.js';
+import { impliedVolatility, optionGreeks, type OptionType } from './black-scholes.js';
+
+export interface OptionChainParams {
+  underlying: string;
+  expiry?: string;
+  exchange?: string;
+  strikesAroundAtm?: number;
+  underlyingPrice?: number;
+  riskFreeRate?: number;
+  includeOiChange?: boolean;
+}
+
+// Spot instruments for index underlyings, whose names differ from their derivative names
+const INDEX_SPOT_INSTRUMENTS: Record<string, string> = {
+  NIFTY: 'NSE:NIFTY 50',
+  BANKNIFTY: 'NSE:NIFTY BANK',
+  FINNIFTY: 'NSE:NIFTY FIN SERVICE',
+  MIDCPNIFTY: 'NSE:NIFTY MID SELECT',
+  NIFTYNXT50: 'NSE:NIFTY NEXT 50',
+  SENSEX: 'BSE:SENSEX',
+  BANKEX: 'BSE:BANKEX'
+};
+
+export const DEFAULT_RISK_FREE_RATE = 0.07;
+const DEFAULT_STRIKES_AROUND_ATM = 10;
+// Change in OI needs one historical call per option, so it is only fetched this close to ATM
+export const OI_CHANGE_STRIKES_AROUND_ATM = 5;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds option chains from the instrument master and live quotes, with Black-Scholes IV
+ * and greeks computed locally
+ */
+export class OptionChainBuilder {
+  private readonly kiteClient: KiteClient;
+  private readonly instrumentStore: InstrumentStore;
+
+  constructor(kiteClient: KiteClient, instrumentStore: InstrumentStore) {
+    this.kiteClient = kiteClient;
+    this.instrumentStore = instrumentStore;
+  }
+
+  /**
+   * List available expiries for an underlying
+   */
+  async getExpiries(underlying: string, exchange?: string): Promise<string[]> {
+    const options = await this.findOptions(underlying.toUpperCase(), exchange);
+    return [...new Set(options.map(o => o.expiry!))].sort();
+  }
+
+  /**
+   * Build the option chain for an underlying and expiry (nearest expiry when omitted)
+   */
+  async build(params: OptionChainParams): Promise<any> {
+    const underlying = params.underlying.trim().toUpperCase();
+    const rate = params.riskFreeRate ?? DEFAULT_RISK_FREE_RATE;
+    const allOptions = await this.findOptions(underlying, params.exchange);
+    const expiries = [...new Set(allOptions.map(o => o.expiry!))].sort();
+
+    if (expiries.length === 0) {
+      throw new Error(`No options found for ${underlying}${params.exchange ? ` on ${params.exchange}` : ''}`);
+    }
+
+    const expiry = params.expiry ?? expiries[0]!;
+    const options = allOptions.filter(o => o.expiry === expiry);
+    if (options.length === 0) {
+      throw new Error(`No ${underlying} options expire on ${expiry}. Available expiries: ${expiries.join(', ')}`);
+    }
+
+    const quotes = await this.fetchQuotes(options.map(instrumentKey));
+    const spot = params.underlyingPrice ?? await this.fetchUnderlyingPrice(underlying, options[0]!.exchange);
+
+    // Options expire at 15:30 IST on the expiry date
+    const expiryTime = new Date(`${expiry}T15:30:00+05:30`).getTime();
+    const timeToExpiry = Math.max(0, (expiryTime - Date.now()) / YEAR_MS);
+
+    const byStrike = new Map<number, { CE?: InstrumentRecord; PE?: InstrumentRecord }>();
+    for (const option of options) {
+      const row = byStrike.get(option.strike) ?? {};
+      row[option.instrument_type as OptionType] = option;
+      byStrike.set(option.strike, row);
+    }
+    const strikes = [...byStrike.keys()].sort((a, b) => a - b);
+
+    const atmStrike = strikes.reduce((best, strike) => Math.abs(strike - spot) < Math.abs(best - spot) ? strike : best, strikes[0]!);
+    const atmIndex = strikes.indexOf(atmStrike);
+    const around = params.strikesAroundAtm ?? DEFAULT_STRIKES_AROUND_ATM;
+    const visibleStrikes = around > 0
+      ? strikes.slice(Math.max(0, atmIndex - around), atmIndex + around + 1)
+      : strikes;
+
+    const oiChangeOptions = strikes.slice(Math.max(0, atmIndex - OI_CHANGE_STRIKES_AROUND_ATM), atmIndex + OI_CHANGE_STRIKES_AROUND_ATM + 1)
+      .filter(strike => visibleStrikes.includes(strike))
+      .flatMap(strike => [byStrike.get(strike)!.CE, byStrike.get(strike)!.PE])
+      .filter((o): o is InstrumentRecord => o !== undefined);
+    const previousOi = params.includeOiChange ? await this.fetchPreviousOi(oiChangeOptions) : {};
+
+    const leg = (option: InstrumentRecord | undefined) => {
+      if (!option) return null;
+      const quote = quotes[instrumentKey(option)];
+      if (!quote) return { tradingsymbol: option.tradingsymbol, instrument_token: option.instrument_token, quote_available: false };
+
+      const bid = quote.depth?.buy?.[0]?.price || null;
+      const ask = quote.depth?.sell?.[0]?.price || null;
+      const marketPrice = bid && ask ? (bid + ask) / 2 : quote.last_price;
+      const inputs = { type: option.instrument_type as OptionType, spot, strike: option.strike, timeToExpiry, rate };
+      const iv = impliedVolatility(inputs, marketPrice);
+      const greeks = iv !== null ? optionGreeks({ ...inputs, volatility: iv }) : null;
+      const prevOi = previousOi[option.instrument_token];
+
+      return {
+        tradingsymbol: option.tradingsymbol,
+        instrument_token: option.instrument_token,
+        ltp: quote.last_price,
+        bid,
+        ask,
+        volume: quote.volume ?? 0,
+        oi: quote.oi ?? 0,
+        oi_change: prevOi !== undefined ? (quote.oi ?? 0) - prevOi : null,
+        iv: iv !== null ? round(iv * 100, 2) : null,
+        delta: greeks ? round(greeks.delta, 4) : null,
+        gamma: greeks ? round(greeks.gamma, 6) : null,
+        theta: greeks ? round(greeks.theta, 4) : null,
+        vega: greeks ? round(greeks.vega, 4) : null
+      };
+    };
+
+    // PCR and max pain use every strike of the expiry, not just the visible window
+    let callOi = 0, putOi = 0, callVolume = 0, putVolume = 0;
+    const oiByStrike = strikes.map(strike => {
+      const row = byStrike.get(strike)!;
+      const ce = row.CE ? quotes[instrumentKey(row.CE)] : undefined;
+      const pe = row.PE ? quotes[instrumentKey(row.PE)] : undefined;
+      callOi += ce?.oi ?? 0;
+      putOi += pe?.oi ?? 0;
+      callVolume += ce?.volume ?? 0;
+      putVolume += pe?.volume ?? 0;
+      return { strike, callOi: ce?.oi ?? 0, putOi: pe?.oi ?? 0 };
+    });
+
+    return {
+      underlying,
+      exchange: options[0]!.exchange,
+      expiry,
+      available_expiries: expiries,
+      underlying_price: spot,
+      days_to_expiry: round(Math.max(0, expiryTime - Date.now()) / DAY_MS, 2),
+      risk_free_rate: rate,
+      lot_size: options[0]!.lot_size,
+      atm_strike: atmStrike,
+      pcr_oi: callOi > 0 ? round(putOi / callOi, 3) : null,
+      pcr_volume: callVolume > 0 ? round(putVolume / callVolume, 3) : null,
+      max_pain: maxPain(oiByStrike),
+      total_call_oi: callOi,
+      total_put_oi: putOi,
+      strikes: visibleStrikes.map(strike => ({
+        strike,
+        call: leg(byStrike.get(strike)!.CE),
+        put: leg(byStrike.get(strike)!.PE)
+      }))
+    };
+  }
+
+  private async findOptions(underlying: string, exchange?: string): Promise<InstrumentRecord[]> {
+    const instruments = await this.instrumentStore.getAll();
+    return instruments.filter(i =>
+      i.name === underlying
+      && (i.instrument_type === 'CE' || i.instrument_type === 'PE')
+      && i.expiry !== null
+      && (exchange ? i.exchange === exchange : true)
+    );
+  }
+
+  private async fetchQuotes(instruments: string[]): Promise<Record<string, any>> {
+    // KiteClient splits the list into requests Kite accepts
+    return await this.kiteClient.getQuote(instruments) || {};
+  }
+
+  private async fetchUnderlyingPrice(underlying: string, optionExchange: string): Promise<number> {
+    const instrument = underlyingSpotInstrument(underlying, optionExchange);
+    const ltp = await this.kiteClient.getLTP([instrument]);
+    const price = ltp?.[instrument]?.last_price;
+    if (!price) {
+      throw new Error(`Could not fetch the underlying price from ${instrument}. Pass underlying_price explicitly.`);
+    }
+    return price;
+  }
+
+  /**
+   * Previous session's closing OI per instrument token, from daily historical candles
+   */
+  private async fetchPreviousOi(options: InstrumentRecord[]): Promise<Record<number, number>> {
+    const previousOi: Record<number, number> = {};
+    const today = new Date(Date.now() + (5 * 60 + 30) * 60 * 1000).toISOString().slice(0, 10);
+    const from = new Date(`${today}T00:00:00Z`);
+    from.setUTCDate(from.getUTCDate() - 7);
+    const to = new Date(`${today}T00:00:00Z`);
+    to.setUTCSeconds(-1);
+
+    // Sequential to stay within the historical data rate limit
+    for (const option of options) {
+      try {
+        const candles = await this.kiteClient.getHistoricalData({
+          instrumentToken: option.instrument_token,
+          interval: 'day',
+          from,
+          to,
+          oi: true
+        });
+        const last = candles[candles.length - 1];
+        if (last?.oi !== undefined) {
+          previousOi[option.instrument_token] = last.oi;
+        }
+      } catch (error) {
+        console.error(`Failed to fetch previous OI for ${option.tradingsymbol}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return previousOi;
+  }
+}
+
+/**
+ * Spot instrument (EXCHANGE:SYMBOL) for an option underlying
+ */
+export function underlyingSpotInstrument(underlying: string, optionExchange: string): string {
+  const spotExchange = optionExchange === 'BFO' ? 'BSE' : 'NSE';
+  return INDEX_SPOT_INSTRUMENTS[underlying] ?? `${spotExchange}:${underlying}`;
+}
+
+/**
+ * Expiry price at which option writers pay out the least
+ */
+function maxPain(oiByStrike: Array<{ strike: number; callOi: number; putOi: number }>): number | null {
+  let best: { strike: number; payout: number } | null = null;
+
+  for (const { strike: settle } of oiByStrike) {
+    const payout = oiByStrike.reduce((sum, { strike, callOi, putOi }) =>
+      sum + callOi * Math.max(0, settle - strike) + putOi * Math.max(0, strike - settle), 0);
+    if (!best || payout < best.payout) {
+      best = { strike: settle, payout };
+    }
+  }
+
+  return best?.strike ?? null;
+}
+
+function instrumentKey(instrument: InstrumentRecord): string {
+  return `${instrument.exchange}:${instrument.tradingsymbol}`;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
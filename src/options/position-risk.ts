@@ -0,0 +1,113 @@
+import { KiteClient } from '../api/kite-client.js';
+import { InstrumentStore, type InstrumentRecord } from '../instruments/instrument-store.js';
+import { impliedVolatility, optionGreeks, type OptionType } from './black-scholes.js';
+import { DEFAULT_RISK_FREE_RATE, underlyingSpotInstrument } from './option-chain.js';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Position-level greeks for open option and futures positions, aggregated per underlying
+ */
+export class OptionPositionRisk {
+  private readonly kiteClient: KiteClient;
+  private readonly instrumentStore: InstrumentStore;
+
+  constructor(kiteClient: KiteClient, instrumentStore: InstrumentStore) {
+    this.kiteClient = kiteClient;
+    this.instrumentStore = instrumentStore;
+  }
+
+  async analyze(underlying?: string): Promise<any[]> {
+    const positions = await this.kiteClient.getPositions();
+    const legs: Array<{ position: any; instrument: InstrumentRecord }> = [];
+
+    for (const position of positions?.net || []) {
+      if (!position.quantity) continue;
+      const instrument = await this.instrumentStore.findBySymbol(position.exchange, position.tradingsymbol);
+      if (!instrument || !['CE', 'PE', 'FUT'].includes(instrument.instrument_type)) continue;
+      if (underlying && instrument.name !== underlying.toUpperCase()) continue;
+      legs.push({ position, instrument });
+    }
+
+    if (legs.length === 0) {
+      return [];
+    }
+
+    const quotes = await this.kiteClient.getQuote(legs.map(l => `${l.instrument.exchange}:${l.instrument.tradingsymbol}`)) || {};
+    const spotInstruments = new Map(legs.map(l => [l.instrument.name, underlyingSpotInstrument(l.instrument.name, l.instrument.exchange)]));
+    const spots = await this.kiteClient.getLTP([...new Set(spotInstruments.values())]) || {};
+
+    const byUnderlying = new Map<string, any[]>();
+    for (const { position, instrument } of legs) {
+      const spot = spots[spotInstruments.get(instrument.name)!]?.last_price ?? null;
+      const quote = quotes[`${instrument.exchange}:${instrument.tradingsymbol}`];
+      const rows = byUnderlying.get(instrument.name) ?? [];
+      rows.push(this.legRisk(position, instrument, quote, spot));
+      byUnderlying.set(instrument.name, rows);
+    }
+
+    return [...byUnderlying.entries()].map(([name, rows]) => {
+      const spot = spots[spotInstruments.get(name)!]?.last_price ?? null;
+      const total = (key: string) => round(rows.reduce((sum, row) => sum + (row[key] ?? 0), 0), 4);
+      const netDelta = total('position_delta');
+      return {
+        underlying: name,
+        spot,
+        net_delta: netDelta,
+        delta_notional: spot !== null ? round(netDelta * spot, 2) : null,
+        net_gamma: total('position_gamma'),
+        net_theta_per_day: total('position_theta'),
+        net_vega_per_vol_point: total('position_vega'),
+        nearest_expiry: rows.map(row => row.expiry).filter(Boolean).sort()[0] ?? null,
+        unpriced_legs: rows.filter(row => row.instrument_type !== 'FUT' && row.iv === null).map(row => row.tradingsymbol),
+        legs: rows
+      };
+    });
+  }
+
+  private legRisk(position: any, instrument: InstrumentRecord, quote: any, spot: number | null): any {
+    const quantity = position.quantity;
+    const base = {
+      tradingsymbol: instrument.tradingsymbol,
+      instrument_type: instrument.instrument_type,
+      strike: instrument.strike || null,
+      expiry: instrument.expiry,
+      quantity,
+      average_price: position.average_price,
+      last_price: quote?.last_price ?? position.last_price,
+      pnl: position.pnl
+    };
+
+    if (instrument.instrument_type === 'FUT') {
+      return { ...base, iv: null, position_delta: quantity, position_gamma: 0, position_theta: 0, position_vega: 0 };
+    }
+
+    const expiryTime = new Date(`${instrument.expiry}T15:30:00+05:30`).getTime();
+    const timeToExpiry = Math.max(0, (expiryTime - Date.now()) / YEAR_MS);
+    const bid = quote?.depth?.buy?.[0]?.price || null;
+    const ask = quote?.depth?.sell?.[0]?.price || null;
+    const marketPrice = bid && ask ? (bid + ask) / 2 : base.last_price;
+    const inputs = { type: instrument.instrument_type as OptionType, spot: spot ?? 0, strike: instrument.strike, timeToExpiry, rate: DEFAULT_RISK_FREE_RATE };
+    const iv = spot !== null && marketPrice ? impliedVolatility(inputs, marketPrice) : null;
+
+    if (iv === null) {
+      return { ...base, iv: null, position_delta: null, position_gamma: null, position_theta: null, position_vega: null };
+    }
+
+    const greeks = optionGreeks({ ...inputs, volatility: iv });
+    return {
+      ...base,
+      iv: round(iv * 100, 2),
+      delta: round(greeks.delta, 4),
+      position_delta: round(greeks.delta * quantity, 4),
+      position_gamma: round(greeks.gamma * quantity, 6),
+      position_theta: round(greeks.theta * quantity, 2),
+      position_vega: round(greeks.vega * quantity, 2)
+    };
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,71 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigManager } from '../config/environment.js';
+import { TokenManager } from '../auth/token-manager.js';
+import { PaperTradingClient } from './paper-trading-client.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'paper-trading-'));
+Object.assign(process.env, {
+  API_KEY: 'key',
+  API_SECRET: 'secret',
+  TOKEN_STORE: 'plaintext',
+  TOKEN_FILE: path.join(dir, 'access_token.json'),
+  PAPER_STATE_FILE: path.join(dir, 'paper_trading.json'),
+  PAPER_STARTING_CAPITAL: '1000000'
+});
+
+let client: PaperTradingClient;
+let ltp = 100;
+
+beforeEach(() => {
+  fs.rmSync(path.join(dir, 'paper_trading.json'), { force: true });
+  const config = new ConfigManager();
+  client = new PaperTradingClient(config, new TokenManager(config));
+  client.isReady = () => true;
+  client.getLTP = async (instruments: string[]) => Object.fromEntries(instruments.map(instrument => [instrument, { instrument_token: 0, last_price: ltp }]));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function trade(transaction_type: 'BUY' | 'SELL', quantity: number, price: number): Promise<void> {
+  ltp = price;
+  await client.placeOrder({ exchange: 'NFO', tradingsymbol: 'NIFTY24JULFUT', transaction_type, order_type: 'MARKET', quantity, product: 'NRML' });
+}
+
+async function position() {
+  const { net } = await client.getPositions();
+  return net[0]!;
+}
+
+describe('PaperTradingClient positions', () => {
+  test('starts a new average price when a position is reopened after going flat', async () => {
+    await trade('BUY', 10, 100);
+    await trade('SELL', 10, 110);
+    await trade('BUY', 10, 120);
+
+    expect(await position()).toMatchObject({ quantity: 10, average_price: 120, realised: 100, unrealised: 0, pnl: 100 });
+
+    await trade('SELL', 10, 130);
+    expect(await position()).toMatchObject({ quantity: 0, realised: 200, unrealised: 0 });
+  });
+
+  test('blends the average when adding to a position and keeps it when reducing', async () => {
+    await trade('BUY', 10, 100);
+    await trade('BUY', 10, 110);
+    await trade('SELL', 5, 120);
+
+    expect(await position()).toMatchObject({ quantity: 15, average_price: 105, realised: 75 });
+  });
+
+  test('prices a position that flips side at the flipping fill', async () => {
+    await trade('BUY', 10, 100);
+    await trade('SELL', 15, 90);
+    ltp = 80;
+
+    expect(await position()).toMatchObject({ quantity: -5, average_price: 90, realised: -100, unrealised: 50 });
+  });
+});
@@ -0,0 +1,689 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../config/environment.js';
+import { TokenManager } from '../auth/token-manager.js';
+import { KiteClient, type OrderParams, type OrderVariety } from '../api/kite-client.js';
+import { assertValidOrderParams, isMarketHours } from '../api/order-validation.js';
+import { classifyKiteError, type KiteApiError } from '../api/errors.js';
+import { RequestScheduler } from '../api/request-scheduler.js';
+import type { Holding, Margins, Order, Positions, Trade } from '../api/models.js';
+
+interface PaperOrder {
+  order_id: string;
+  variety: OrderVariety;
+  status: string;
+  status_message: string | null;
+  exchange: string;
+  tradingsymbol: string;
+  transaction_type: 'BUY' | 'SELL';
+  order_type: OrderParams['order_type'];
+  product: OrderParams['product'];
+  validity: string;
+  quantity: number;
+  price: number;
+  trigger_price: number;
+  average_price: number;
+  filled_quantity: number;
+  pending_quantity: number;
+  cancelled_quantity: number;
+  tag: string | null;
+  order_timestamp: string;
+  exchange_update_timestamp: string | null;
+}
+
+interface PaperTrade {
+  trade_id: string;
+  order_id: string;
+  exchange: string;
+  tradingsymbol: string;
+  transaction_type: 'BUY' | 'SELL';
+  product: string;
+  quantity: number;
+  average_price: number;
+  fill_timestamp: string;
+}
+
+interface PaperPosition {
+  exchange: string;
+  tradingsymbol: string;
+  product: string;
+  buy_quantity: number;
+  buy_value: number;
+  sell_quantity: number;
+  sell_value: number;
+  realised: number;
+  // Average price of the open quantity, reset when the position goes flat or flips side
+  average_price: number;
+}
+
+interface PaperHolding {
+  exchange: string;
+  tradingsymbol: string;
+  quantity: number;
+  average_price: number;
+}
+
+interface PaperState {
+  starting_capital: number;
+  realised_pnl: number;
+  sequence: number;
+  orders: PaperOrder[];
+  order_history: Record<string, PaperOrder[]>;
+  trades: PaperTrade[];
+  positions: PaperPosition[];
+  holdings: PaperHolding[];
+}
+
+// Share of order value blocked as margin per product. Approximations, not exchange SPAN margins.
+const PRODUCT_MARGIN_RATE: Record<string, number> = {
+  CNC: 1,
+  NRML: 1,
+  MIS: 0.2
+};
+
+const PENDING_STATUSES = ['OPEN', 'TRIGGER PENDING', 'AMO REQ RECEIVED'];
+
+/**
+ * The default account keeps PAPER_STATE_FILE; other accounts get their own file next to it,
+ * e.g. paper_trading.AB1234.json
+ */
+function paperStateFileFor(stateFile: string, tokenManager: TokenManager, accountId?: string): string {
+  if (!accountId || accountId === tokenManager.getDefaultAccountId()) {
+    return stateFile;
+  }
+  const extension = path.extname(stateFile);
+  return `${stateFile.slice(0, stateFile.length - extension.length)}.${accountId}${extension}`;
+}
+
+/**
+ * Simulated broker with the same surface as KiteClient. Market data comes from Kite;
+ * orders, trades, positions, holdings and margins are simulated locally and persisted to disk.
+ */
+export class PaperTradingClient extends KiteClient {
+  private readonly stateFile: string;
+  private state: PaperState;
+
+  constructor(config: ConfigManager, tokenManager: TokenManager, accountId?: string, scheduler?: RequestScheduler) {
+    super(config, tokenManager, accountId, scheduler);
+    this.stateFile = paperStateFileFor(config.getPaperStateFile(), tokenManager, accountId);
+    this.state = this.loadState(config.getPaperStartingCapital());
+  }
+
+  override isSimulated(): boolean {
+    return true;
+  }
+
+  private loadState(startingCapital: number): PaperState {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const state = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8')) as PaperState;
+        // State saved before positions tracked their open average falls back to the day's average
+        for (const position of state.positions) {
+          const quantity = position.buy_quantity - position.sell_quantity;
+          position.average_price ??= quantity > 0 ? averageOf(position.buy_value, position.buy_quantity)
+            : quantity < 0 ? averageOf(position.sell_value, position.sell_quantity) : 0;
+        }
+        console.error(`Paper trading state loaded from: ${this.stateFile}`);
+        return state;
+      }
+    } catch (error) {
+      throw new Error(`Failed to load paper trading state from ${this.stateFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    console.error(`Paper trading state not found, starting with capital ${startingCapital}`);
+    return {
+      starting_capital: startingCapital,
+      realised_pnl: 0,
+      sequence: 0,
+      orders: [],
+      order_history: {},
+      trades: [],
+      positions: [],
+      holdings: []
+    };
+  }
+
+  private saveState(): void {
+    try {
+      const stateDir = path.dirname(this.stateFile);
+      if (!fs.existsSync(stateDir)) {
+        fs.mkdirSync(stateDir, { recursive: true });
+      }
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      throw new Error(`Failed to save paper trading state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Place a simulated order and try to fill it against the current LTP
+   */
+  override async placeOrder(orderParams: OrderParams, variety: OrderVariety = 'regular'): Promise<any> {
+    this.ensureReady();
+    assertValidOrderParams(orderParams, { variety });
+
+    const now = new Date().toISOString();
+    const isStopOrder = orderParams.order_type === 'SL' || orderParams.order_type === 'SL-M';
+    const order: PaperOrder = {
+      order_id: this.nextId('PAPER'),
+      variety,
+      status: variety === 'amo' ? 'AMO REQ RECEIVED' : isStopOrder ? 'TRIGGER PENDING' : 'OPEN',
+      status_message: null,
+      exchange: orderParams.exchange,
+      tradingsymbol: orderParams.tradingsymbol,
+      transaction_type: orderParams.transaction_type,
+      order_type: orderParams.order_type,
+      product: orderParams.product,
+      validity: orderParams.validity || 'DAY',
+      quantity: orderParams.quantity,
+      price: orderParams.price || 0,
+      trigger_price: orderParams.trigger_price || 0,
+      average_price: 0,
+      filled_quantity: 0,
+      pending_quantity: orderParams.quantity,
+      cancelled_quantity: 0,
+      tag: orderParams.tag || null,
+      order_timestamp: now,
+      exchange_update_timestamp: null
+    };
+
+    const ltp = await this.fetchMarginLTPs(order);
+    const rejection = this.checkFunds(order, ltp);
+    if (rejection) {
+      this.transition(order, 'REJECTED', rejection);
+      this.state.orders.push(order);
+      this.saveState();
+      return { order_id: order.order_id, status: order.status, status_message: rejection };
+    }
+
+    this.state.orders.push(order);
+    this.recordHistory(order);
+    this.matchOrders(ltp);
+    this.saveState();
+
+    return { order_id: order.order_id, status: order.status };
+  }
+
+  /**
+   * Modify a pending simulated order. The modified order must still be funded, otherwise the
+   * modification is rejected and the order is left as it was, as Kite does.
+   */
+  override async modifyOrder(
+    orderId: string,
+    orderParams: Partial<OrderParams> & { parent_order_id?: string },
+    variety: OrderVariety = 'regular'
+  ): Promise<any> {
+    this.ensureReady();
+    assertValidOrderParams(orderParams, { partial: true, variety });
+
+    const order = this.findPendingOrder(orderId, 'modifyOrder');
+    const modified: PaperOrder = { ...order };
+    if (orderParams.quantity !== undefined) {
+      modified.quantity = orderParams.quantity;
+      modified.pending_quantity = orderParams.quantity - order.filled_quantity;
+    }
+    if (orderParams.price !== undefined) modified.price = orderParams.price;
+    if (orderParams.trigger_price !== undefined) modified.trigger_price = orderParams.trigger_price;
+    if (orderParams.order_type !== undefined) modified.order_type = orderParams.order_type;
+    if (orderParams.validity !== undefined) modified.validity = orderParams.validity;
+
+    const ltps = await this.fetchMarginLTPs(order);
+    const rejection = this.checkFunds(modified, ltps, order);
+    if (rejection) {
+      throw paperError('OrderException', 'modifyOrder', `Order modification rejected: ${rejection}`);
+    }
+
+    Object.assign(order, modified);
+    this.transition(order, order.status, 'Order modified');
+    this.matchOrders(ltps);
+    this.saveState();
+
+    return { order_id: order.order_id, status: order.status };
+  }
+
+  /**
+   * Cancel a pending simulated order
+   */
+  override async cancelOrder(orderId: string, variety: OrderVariety = 'regular', parentOrderId?: string): Promise<any> {
+    this.ensureReady();
+
+    const order = this.findPendingOrder(orderId, 'cancelOrder');
+    order.cancelled_quantity = order.pending_quantity;
+    order.pending_quantity = 0;
+    this.transition(order, 'CANCELLED', 'Cancelled by user');
+    this.saveState();
+
+    return { order_id: order.order_id, status: order.status };
+  }
+
+  override async getOrders(): Promise<Order[]> {
+    await this.syncPendingOrders();
+    return this.state.orders.map(order => ({ ...order }));
+  }
+
+  override async getOrderHistory(orderId: string): Promise<Order[]> {
+    await this.syncPendingOrders();
+    const history = this.state.order_history[orderId];
+    if (!history) {
+      throw paperError('InputException', 'getOrderHistory', `order ${orderId} not found`);
+    }
+    return history.map(entry => ({ ...entry }));
+  }
+
+  override async getTrades(): Promise<Trade[]> {
+    await this.syncPendingOrders();
+    return this.state.trades.map(trade => ({ ...trade }));
+  }
+
+  override async getOrderTrades(orderId: string): Promise<Trade[]> {
+    await this.syncPendingOrders();
+    return this.state.trades.filter(trade => trade.order_id === orderId).map(trade => ({ ...trade }));
+  }
+
+  override async getPositions(): Promise<Positions> {
+    await this.syncPendingOrders();
+    const ltps = await this.fetchLTPs(this.state.positions.map(instrumentKey));
+
+    const net = this.state.positions.map(position => {
+      const quantity = position.buy_quantity - position.sell_quantity;
+      const lastPrice = ltps[instrumentKey(position)] ?? 0;
+      const unrealised = quantity !== 0 ? quantity * (lastPrice - position.average_price) : 0;
+
+      return {
+        exchange: position.exchange,
+        tradingsymbol: position.tradingsymbol,
+        product: position.product,
+        quantity,
+        average_price: quantity !== 0 ? position.average_price : 0,
+        last_price: lastPrice,
+        buy_quantity: position.buy_quantity,
+        buy_price: averageOf(position.buy_value, position.buy_quantity),
+        buy_value: position.buy_value,
+        sell_quantity: position.sell_quantity,
+        sell_price: averageOf(position.sell_value, position.sell_quantity),
+        sell_value: position.sell_value,
+        realised: position.realised,
+        unrealised,
+        pnl: position.realised + unrealised
+      };
+    });
+
+    return { net, day: net };
+  }
+
+  override async getHoldings(): Promise<Holding[]> {
+    await this.syncPendingOrders();
+    const ltps = await this.fetchLTPs(this.state.holdings.map(instrumentKey));
+
+    return this.state.holdings.map(holding => {
+      const lastPrice = ltps[instrumentKey(holding)] ?? 0;
+      return {
+        exchange: holding.exchange,
+        tradingsymbol: holding.tradingsymbol,
+        product: 'CNC',
+        quantity: holding.quantity,
+        average_price: holding.average_price,
+        last_price: lastPrice,
+        pnl: (lastPrice - holding.average_price) * holding.quantity
+      };
+    });
+  }
+
+  override async getMargins(): Promise<Margins> {
+    await this.syncPendingOrders();
+    const used = this.usedMargin(await this.fetchMarginLTPs());
+    const live = this.state.starting_capital + this.state.realised_pnl;
+
+    return {
+      equity: {
+        enabled: true,
+        net: live - used.total,
+        available: {
+          cash: live - used.total,
+          opening_balance: this.state.starting_capital,
+          live_balance: live - used.total
+        },
+        utilised: {
+          debits: used.total,
+          delivery: used.holdings,
+          span: used.positions,
+          exposure: used.pending
+        }
+      }
+    };
+  }
+
+  override async getGTTs(): Promise<any> {
+    throw paperError('InputException', 'getGTTs', 'GTT orders are not supported in paper trading mode');
+  }
+
+  override async getGTT(): Promise<any> {
+    throw paperError('InputException', 'getGTT', 'GTT orders are not supported in paper trading mode');
+  }
+
+  override async placeGTT(): Promise<any> {
+    throw paperError('InputException', 'placeGTT', 'GTT orders are not supported in paper trading mode');
+  }
+
+  override async modifyGTT(): Promise<any> {
+    throw paperError('InputException', 'modifyGTT', 'GTT orders are not supported in paper trading mode');
+  }
+
+  override async deleteGTT(): Promise<any> {
+    throw paperError('InputException', 'deleteGTT', 'GTT orders are not supported in paper trading mode');
+  }
+
+  /**
+   * Reset the simulated account to its starting capital
+   */
+  reset(startingCapital?: number): void {
+    this.state = {
+      starting_capital: startingCapital ?? this.state.starting_capital,
+      realised_pnl: 0,
+      sequence: 0,
+      orders: [],
+      order_history: {},
+      trades: [],
+      positions: [],
+      holdings: []
+    };
+    this.saveState();
+  }
+
+  private ensureReady(): void {
+    // Fills are priced from live market data, so a Kite session is still required
+    if (!this.isReady()) {
+      throw new Error('Not authenticated. Please run authentication first.');
+    }
+  }
+
+  private nextId(prefix: string): string {
+    this.state.sequence += 1;
+    return `${prefix}-${Date.now()}-${this.state.sequence}`;
+  }
+
+  private findPendingOrder(orderId: string, operation: string): PaperOrder {
+    const order = this.state.orders.find(o => o.order_id === orderId);
+    if (!order) {
+      throw paperError('InputException', operation, `Order ${orderId} not found`);
+    }
+    if (!PENDING_STATUSES.includes(order.status)) {
+      throw paperError('OrderException', operation, `Order ${orderId} is ${order.status} and can no longer be changed`);
+    }
+    return order;
+  }
+
+  private transition(order: PaperOrder, status: string, message: string | null = null): void {
+    order.status = status;
+    order.status_message = message;
+    order.exchange_update_timestamp = new Date().toISOString();
+    this.recordHistory(order);
+  }
+
+  private recordHistory(order: PaperOrder): void {
+    const history = this.state.order_history[order.order_id] ?? [];
+    history.push({ ...order });
+    this.state.order_history[order.order_id] = history;
+  }
+
+  /**
+   * Re-evaluate pending orders against fresh prices
+   */
+  private async syncPendingOrders(): Promise<void> {
+    const pending = this.state.orders.filter(o => PENDING_STATUSES.includes(o.status));
+    if (pending.length === 0) {
+      return;
+    }
+
+    if (this.matchOrders(await this.fetchLTPs(pending.map(instrumentKey)))) {
+      this.saveState();
+    }
+  }
+
+  /**
+   * Fill every pending order whose price conditions are met. Returns true if any order changed.
+   */
+  private matchOrders(ltps: Record<string, number>): boolean {
+    let changed = false;
+
+    for (const order of this.state.orders) {
+      if (!PENDING_STATUSES.includes(order.status)) continue;
+
+      const ltp = ltps[instrumentKey(order)];
+      if (ltp === undefined) continue;
+
+      if (order.status === 'AMO REQ RECEIVED') {
+        if (!isMarketHours()) continue;
+        this.transition(order, order.order_type === 'SL' || order.order_type === 'SL-M' ? 'TRIGGER PENDING' : 'OPEN');
+        changed = true;
+      }
+
+      const isBuy = order.transaction_type === 'BUY';
+
+      if (order.status === 'TRIGGER PENDING') {
+        const triggered = isBuy ? ltp >= order.trigger_price : ltp <= order.trigger_price;
+        if (!triggered) continue;
+        this.transition(order, 'OPEN', 'Triggered');
+        changed = true;
+      }
+
+      let fillPrice: number | undefined;
+      if (order.order_type === 'MARKET' || order.order_type === 'SL-M') {
+        fillPrice = ltp;
+      } else if (isBuy ? ltp <= order.price : ltp >= order.price) {
+        fillPrice = isBuy ? Math.min(ltp, order.price) : Math.max(ltp, order.price);
+      }
+
+      if (fillPrice !== undefined) {
+        this.fill(order, fillPrice);
+        changed = true;
+      } else if (order.validity === 'IOC') {
+        order.cancelled_quantity = order.pending_quantity;
+        order.pending_quantity = 0;
+        this.transition(order, 'CANCELLED', 'IOC order not filled immediately');
+        changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  private fill(order: PaperOrder, price: number): void {
+    const quantity = order.pending_quantity;
+    const now = new Date().toISOString();
+
+    this.state.trades.push({
+      trade_id: this.nextId('TRADE'),
+      order_id: order.order_id,
+      exchange: order.exchange,
+      tradingsymbol: order.tradingsymbol,
+      transaction_type: order.transaction_type,
+      product: order.product,
+      quantity,
+      average_price: price,
+      fill_timestamp: now
+    });
+
+    order.filled_quantity += quantity;
+    order.pending_quantity = 0;
+    order.average_price = price;
+    this.transition(order, 'COMPLETE');
+
+    this.applyToPosition(order, quantity, price);
+    if (order.product === 'CNC') {
+      this.applyToHoldings(order, quantity, price);
+    }
+  }
+
+  private applyToPosition(order: PaperOrder, quantity: number, price: number): void {
+    let position = this.state.positions.find(p =>
+      p.exchange === order.exchange && p.tradingsymbol === order.tradingsymbol && p.product === order.product
+    );
+    if (!position) {
+      position = {
+        exchange: order.exchange,
+        tradingsymbol: order.tradingsymbol,
+        product: order.product,
+        buy_quantity: 0,
+        buy_value: 0,
+        sell_quantity: 0,
+        sell_value: 0,
+        realised: 0,
+        average_price: 0
+      };
+      this.state.positions.push(position);
+    }
+
+    const netBefore = position.buy_quantity - position.sell_quantity;
+    const closing = order.transaction_type === 'BUY' ? Math.max(0, Math.min(quantity, -netBefore)) : Math.max(0, Math.min(quantity, netBefore));
+
+    // Realise P&L on the part of the fill that closes an existing position
+    if (closing > 0 && order.product !== 'CNC') {
+      const pnl = order.transaction_type === 'BUY'
+        ? (position.average_price - price) * closing
+        : (price - position.average_price) * closing;
+      position.realised += pnl;
+      this.state.realised_pnl += pnl;
+    }
+
+    // A fill that opens or flips the position starts a new average; adding to it blends in
+    const netAfter = netBefore + (order.transaction_type === 'BUY' ? quantity : -quantity);
+    if (netAfter === 0) {
+      position.average_price = 0;
+    } else if (netBefore === 0 || Math.sign(netAfter) !== Math.sign(netBefore)) {
+      position.average_price = price;
+    } else if (closing === 0) {
+      position.average_price = (Math.abs(netBefore) * position.average_price + quantity * price) / Math.abs(netAfter);
+    }
+
+    if (order.transaction_type === 'BUY') {
+      position.buy_quantity += quantity;
+      position.buy_value += quantity * price;
+    } else {
+      position.sell_quantity += quantity;
+      position.sell_value += quantity * price;
+    }
+  }
+
+  private applyToHoldings(order: PaperOrder, quantity: number, price: number): void {
+    let holding = this.state.holdings.find(h => h.exchange === order.exchange && h.tradingsymbol === order.tradingsymbol);
+
+    if (order.transaction_type === 'BUY') {
+      if (!holding) {
+        holding = { exchange: order.exchange, tradingsymbol: order.tradingsymbol, quantity: 0, average_price: 0 };
+        this.state.holdings.push(holding);
+      }
+      holding.average_price = (holding.average_price * holding.quantity + price * quantity) / (holding.quantity + quantity);
+      holding.quantity += quantity;
+      return;
+    }
+
+    if (holding) {
+      const pnl = (price - holding.average_price) * quantity;
+      this.state.realised_pnl += pnl;
+      holding.quantity -= quantity;
+      if (holding.quantity <= 0) {
+        this.state.holdings = this.state.holdings.filter(h => h !== holding);
+      }
+    }
+  }
+
+  /**
+   * Return a rejection reason if the account cannot fund the order. When the order replaces a
+   * pending one, as in a modification, the margin the pending order holds is freed first.
+   */
+  private checkFunds(order: PaperOrder, ltps: Record<string, number>, replacing?: PaperOrder): string | null {
+    if (order.product === 'CNC' && order.transaction_type === 'SELL') {
+      const held = this.state.holdings.find(h => h.exchange === order.exchange && h.tradingsymbol === order.tradingsymbol)?.quantity ?? 0;
+      const pendingSells = this.state.orders
+        .filter(o => o !== replacing && PENDING_STATUSES.includes(o.status) && o.product === 'CNC' && o.transaction_type === 'SELL'
+          && o.exchange === order.exchange && o.tradingsymbol === order.tradingsymbol)
+        .reduce((sum, o) => sum + o.pending_quantity, 0);
+      return held - pendingSells >= order.quantity
+        ? null
+        : `Insufficient holdings: ${held - pendingSells} available to sell, ${order.quantity} requested`;
+    }
+
+    const price = marginPrice(order, ltps);
+    if (price === undefined) {
+      return `Could not determine a price for ${instrumentKey(order)}`;
+    }
+
+    const required = this.orderMargin(order, price);
+    const available = this.state.starting_capital + this.state.realised_pnl - this.usedMargin(ltps, replacing).total;
+    return required <= available
+      ? null
+      : `Insufficient funds. Required margin is ${required.toFixed(2)} but available margin is ${available.toFixed(2)}`;
+  }
+
+  private orderMargin(order: { product: string; quantity: number }, price: number): number {
+    return order.quantity * price * (PRODUCT_MARGIN_RATE[order.product] ?? 1);
+  }
+
+  /**
+   * Margin blocked by holdings, open positions and pending orders. Pending market orders have no
+   * price of their own and are valued at the LTP given for them.
+   */
+  private usedMargin(ltps: Record<string, number>, excluding?: PaperOrder): { holdings: number; positions: number; pending: number; total: number } {
+    const holdings = this.state.holdings.reduce((sum, h) => sum + h.quantity * h.average_price, 0);
+
+    const positions = this.state.positions
+      .filter(p => p.product !== 'CNC')
+      .reduce((sum, p) => {
+        const quantity = p.buy_quantity - p.sell_quantity;
+        const average = quantity > 0 ? averageOf(p.buy_value, p.buy_quantity) : averageOf(p.sell_value, p.sell_quantity);
+        return sum + this.orderMargin({ product: p.product, quantity: Math.abs(quantity) }, average);
+      }, 0);
+
+    const pending = this.state.orders
+      .filter(o => o !== excluding && PENDING_STATUSES.includes(o.status) && !(o.product === 'CNC' && o.transaction_type === 'SELL'))
+      .reduce((sum, o) => sum + this.orderMargin({ product: o.product, quantity: o.pending_quantity }, marginPrice(o, ltps) ?? 0), 0);
+
+    return { holdings, positions, pending, total: holdings + positions + pending };
+  }
+
+  /**
+   * LTPs needed to price margins: the order's instrument and those of pending market orders
+   */
+  private async fetchMarginLTPs(order?: PaperOrder): Promise<Record<string, number>> {
+    const pendingMarket = this.state.orders.filter(o => PENDING_STATUSES.includes(o.status) && !o.price && !o.trigger_price);
+    return await this.fetchLTPs([...(order ? [order] : []), ...pendingMarket].map(instrumentKey));
+  }
+
+  private async fetchLTPs(instruments: string[]): Promise<Record<string, number>> {
+    const unique = [...new Set(instruments)];
+    if (unique.length === 0) {
+      return {};
+    }
+
+    const response = await this.getLTP(unique);
+    const ltps: Record<string, number> = {};
+    for (const [instrument, data] of Object.entries<any>(response || {})) {
+      ltps[instrument] = data.last_price;
+    }
+    return ltps;
+  }
+}
+
+function instrumentKey(item: { exchange: string; tradingsymbol: string }): string {
+  return `${item.exchange}:${item.tradingsymbol}`;
+}
+
+/**
+ * Price an order's margin is computed at: its limit or trigger price, or the LTP for a market order
+ */
+function marginPrice(order: PaperOrder, ltps: Record<string, number>): number | undefined {
+  return order.price || order.trigger_price || ltps[instrumentKey(order)];
+}
+
+function averageOf(value: number, quantity: number): number {
+  return quantity > 0 ? value / quantity : 0;
+}
+
+/**
+ * A business error classified as if Kite had rejected the call with this error_type, so
+ * clients get the same error types and hints in paper and live mode
+ */
+function paperError(errorType: string, operation: string, message: string): KiteApiError {
+  return classifyKiteError({ error_type: errorType, message }, operation)!;
+}
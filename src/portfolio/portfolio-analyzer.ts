@@ -0,0 +1,328 @@
+import * as fs from 'fs';
+import { ConfigManager } from '../config/environment.js';
+import { KiteClient } from '../api/kite-client.js';
+import type { Holding, Position } from '../api/models.js';
+import bundledClassification from './sector-classification.json';
+
+export interface SectorClassification {
+  sector: string;
+  industry: string;
+}
+
+export interface PortfolioAnalyticsOptions {
+  includePositions?: boolean;
+  topN?: number;
+}
+
+export interface HoldingRow {
+  instrument: string;
+  tradingsymbol: string;
+  exchange: string;
+  quantity: number;
+  average_price: number;
+  last_price: number;
+  close_price: number;
+  invested: number;
+  value: number;
+  unrealised_pnl: number;
+  unrealised_pnl_pct: number;
+  day_change: number;
+  day_change_pct: number;
+  weight_pct: number;
+  sector: string;
+  industry: string;
+}
+
+export interface PositionRow {
+  instrument: string;
+  tradingsymbol: string;
+  product: string;
+  quantity: number;
+  average_price: number;
+  last_price: number;
+  realised_pnl: number;
+  unrealised_pnl: number;
+  pnl: number;
+  day_pnl: number;
+}
+
+// Holdings grouped by sector or industry; only the grouping field is set
+export interface GroupWeight {
+  sector?: string;
+  industry?: string;
+  value: number;
+  weight_pct: number;
+  unrealised_pnl: number;
+  holdings: string[];
+}
+
+export interface Concentration {
+  largest_holding_pct: number;
+  top_3_pct: number;
+  top_5_pct: number;
+  top_10_pct: number;
+  herfindahl_index: number;
+  effective_holdings: number;
+}
+
+// A holding ranked by unrealised P&L or day change; only the ranking field is set
+export interface Contributor {
+  tradingsymbol: string;
+  unrealised_pnl?: number;
+  day_change?: number;
+  weight_pct: number;
+}
+
+export interface PortfolioAnalytics {
+  as_of: string;
+  summary: {
+    holdings_count: number;
+    positions_count: number;
+    invested: number;
+    current_value: number;
+    unrealised_pnl: number;
+    unrealised_pnl_pct: number;
+    realised_pnl: number;
+    day_change: number;
+    day_change_pct: number;
+  };
+  holdings: HoldingRow[];
+  positions: PositionRow[];
+  allocation: {
+    by_sector: GroupWeight[];
+    by_industry: GroupWeight[];
+  };
+  concentration: Concentration;
+  top_contributors: Contributor[];
+  top_detractors: Contributor[];
+  top_day_gainers: Contributor[];
+  top_day_losers: Contributor[];
+}
+
+const UNCLASSIFIED = 'Unclassified';
+const DEFAULT_TOP_N = 5;
+
+/**
+ * Combines holdings, positions and live prices into P&L, allocation and concentration metrics
+ */
+export class PortfolioAnalyzer {
+  private readonly kiteClient: KiteClient;
+  private readonly classification: Record<string, SectorClassification>;
+
+  constructor(config: ConfigManager, kiteClient: KiteClient) {
+    this.kiteClient = kiteClient;
+    this.classification = this.loadClassification(config.getSectorClassificationFile());
+  }
+
+  private loadClassification(overrideFile?: string): Record<string, SectorClassification> {
+    const classification: Record<string, SectorClassification> = { ...bundledClassification };
+    if (!overrideFile) {
+      return classification;
+    }
+
+    try {
+      const overrides = JSON.parse(fs.readFileSync(overrideFile, 'utf-8')) as Record<string, SectorClassification>;
+      console.error(`Sector classification loaded from: ${overrideFile}`);
+      return { ...classification, ...overrides };
+    } catch (error) {
+      throw new Error(`Failed to load sector classification from ${overrideFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Look up the sector and industry of a trading symbol
+   */
+  classify(tradingsymbol: string): SectorClassification {
+    return this.classification[tradingsymbol]
+      ?? this.classification[tradingsymbol.replace(/-(BE|BZ|SM|ST)$/, '')]
+      ?? { sector: UNCLASSIFIED, industry: UNCLASSIFIED };
+  }
+
+  /**
+   * Build the full analytics report
+   */
+  async analyze(options: PortfolioAnalyticsOptions = {}): Promise<PortfolioAnalytics> {
+    const topN = options.topN ?? DEFAULT_TOP_N;
+    const includePositions = options.includePositions ?? true;
+
+    const [holdings, positions] = await Promise.all([
+      this.kiteClient.getHoldings(),
+      includePositions ? this.kiteClient.getPositions() : Promise.resolve({ net: [] as Position[] })
+    ]);
+    const netPositions = positions.net;
+
+    const instruments = [
+      ...holdings.map(h => `${h.exchange}:${h.tradingsymbol}`),
+      ...netPositions.map(p => `${p.exchange}:${p.tradingsymbol}`)
+    ];
+    const prices = await this.fetchPrices(instruments);
+
+    const rows = this.buildHoldingRows(holdings, prices);
+    const holdingsValue = sum(rows.map(r => r.value));
+    for (const row of rows) {
+      row.weight_pct = holdingsValue > 0 ? round(row.value / holdingsValue * 100) : 0;
+    }
+
+    const positionRows = netPositions.map(p => this.buildPositionRow(p, prices));
+    const invested = sum(rows.map(r => r.invested));
+    const holdingsUnrealised = sum(rows.map(r => r.unrealised_pnl));
+    const holdingsDayChange = sum(rows.map(r => r.day_change));
+    const positionsUnrealised = sum(positionRows.map(p => p.unrealised_pnl));
+    const positionsRealised = sum(positionRows.map(p => p.realised_pnl));
+    const positionsDayChange = sum(positionRows.map(p => p.day_pnl));
+
+    const byPnl = [...rows].sort((a, b) => b.unrealised_pnl - a.unrealised_pnl);
+    const byDayChange = [...rows].sort((a, b) => b.day_change - a.day_change);
+    const contributor = (r: HoldingRow, field: 'unrealised_pnl' | 'day_change'): Contributor => ({
+      tradingsymbol: r.tradingsymbol,
+      [field]: r[field],
+      weight_pct: r.weight_pct
+    });
+
+    return {
+      as_of: new Date().toISOString(),
+      summary: {
+        holdings_count: rows.length,
+        positions_count: positionRows.length,
+        invested: round(invested),
+        current_value: round(holdingsValue),
+        unrealised_pnl: round(holdingsUnrealised + positionsUnrealised),
+        unrealised_pnl_pct: invested > 0 ? round(holdingsUnrealised / invested * 100) : 0,
+        realised_pnl: round(positionsRealised),
+        day_change: round(holdingsDayChange + positionsDayChange),
+        day_change_pct: holdingsValue - holdingsDayChange > 0
+          ? round(holdingsDayChange / (holdingsValue - holdingsDayChange) * 100)
+          : 0
+      },
+      holdings: rows,
+      positions: positionRows,
+      allocation: {
+        by_sector: this.groupWeights(rows, 'sector', holdingsValue),
+        by_industry: this.groupWeights(rows, 'industry', holdingsValue)
+      },
+      concentration: this.concentration(rows),
+      top_contributors: byPnl.filter(r => r.unrealised_pnl > 0).slice(0, topN).map(r => contributor(r, 'unrealised_pnl')),
+      top_detractors: byPnl.filter(r => r.unrealised_pnl < 0).reverse().slice(0, topN).map(r => contributor(r, 'unrealised_pnl')),
+      top_day_gainers: byDayChange.filter(r => r.day_change > 0).slice(0, topN).map(r => contributor(r, 'day_change')),
+      top_day_losers: byDayChange.filter(r => r.day_change < 0).reverse().slice(0, topN).map(r => contributor(r, 'day_change'))
+    };
+  }
+
+  private buildHoldingRows(holdings: Holding[], prices: Record<string, { last: number; close: number }>): HoldingRow[] {
+    return holdings.map(holding => {
+      const instrument = `${holding.exchange}:${holding.tradingsymbol}`;
+      // Include T1 shares, which are bought but not yet delivered
+      const quantity = (holding.quantity ?? 0) + (holding.t1_quantity ?? 0);
+      const lastPrice = prices[instrument]?.last ?? holding.last_price ?? 0;
+      const closePrice = prices[instrument]?.close ?? holding.close_price ?? lastPrice;
+      const invested = quantity * (holding.average_price ?? 0);
+      const value = quantity * lastPrice;
+      const { sector, industry } = this.classify(holding.tradingsymbol);
+
+      return {
+        instrument,
+        tradingsymbol: holding.tradingsymbol,
+        exchange: holding.exchange,
+        quantity,
+        average_price: holding.average_price,
+        last_price: lastPrice,
+        close_price: closePrice,
+        invested: round(invested),
+        value: round(value),
+        unrealised_pnl: round(value - invested),
+        unrealised_pnl_pct: invested > 0 ? round((value - invested) / invested * 100) : 0,
+        day_change: round(quantity * (lastPrice - closePrice)),
+        day_change_pct: closePrice > 0 ? round((lastPrice - closePrice) / closePrice * 100) : 0,
+        weight_pct: 0,
+        sector,
+        industry
+      };
+    });
+  }
+
+  private buildPositionRow(position: Position, prices: Record<string, { last: number; close: number }>): PositionRow {
+    const instrument = `${position.exchange}:${position.tradingsymbol}`;
+    const lastPrice = prices[instrument]?.last ?? position.last_price ?? 0;
+    const multiplier = position.multiplier || 1;
+    const quantity = position.quantity ?? 0;
+
+    // Kite's P&L formula, re-evaluated at the live price
+    const pnl = ((position.sell_value ?? 0) - (position.buy_value ?? 0)) + quantity * lastPrice * multiplier;
+    const realised = position.realised ?? 0;
+    const closePrice = prices[instrument]?.close ?? position.close_price ?? lastPrice;
+    // Overnight quantity counts from the previous close, not from its purchase price
+    const overnight = position.overnight_quantity ?? 0;
+    const overnightGain = overnight * (closePrice - (position.average_price ?? closePrice)) * multiplier;
+
+    return {
+      instrument,
+      tradingsymbol: position.tradingsymbol,
+      product: position.product,
+      quantity,
+      average_price: position.average_price,
+      last_price: lastPrice,
+      realised_pnl: round(realised),
+      unrealised_pnl: round(pnl - realised),
+      pnl: round(pnl),
+      day_pnl: round(pnl - overnightGain)
+    };
+  }
+
+  private groupWeights(rows: HoldingRow[], field: 'sector' | 'industry', total: number): GroupWeight[] {
+    const groups = new Map<string, { value: number; unrealised_pnl: number; holdings: string[] }>();
+    for (const row of rows) {
+      const group = groups.get(row[field]) ?? { value: 0, unrealised_pnl: 0, holdings: [] };
+      group.value += row.value;
+      group.unrealised_pnl += row.unrealised_pnl;
+      group.holdings.push(row.tradingsymbol);
+      groups.set(row[field], group);
+    }
+
+    return [...groups.entries()]
+      .map(([name, group]) => ({
+        [field]: name,
+        value: round(group.value),
+        weight_pct: total > 0 ? round(group.value / total * 100) : 0,
+        unrealised_pnl: round(group.unrealised_pnl),
+        holdings: group.holdings
+      }))
+      .sort((a, b) => b.value - a.value);
+  }
+
+  /**
+   * Concentration metrics: largest weights and the Herfindahl-Hirschman index
+   */
+  private concentration(rows: HoldingRow[]): Concentration {
+    const weights = rows.map(r => r.weight_pct / 100).sort((a, b) => b - a);
+    const hhi = weights.reduce((total, w) => total + w * w, 0);
+
+    return {
+      largest_holding_pct: round((weights[0] ?? 0) * 100),
+      top_3_pct: round(weights.slice(0, 3).reduce((a, b) => a + b, 0) * 100),
+      top_5_pct: round(weights.slice(0, 5).reduce((a, b) => a + b, 0) * 100),
+      top_10_pct: round(weights.slice(0, 10).reduce((a, b) => a + b, 0) * 100),
+      herfindahl_index: round(hhi, 4),
+      effective_holdings: hhi > 0 ? round(1 / hhi, 1) : 0
+    };
+  }
+
+  private async fetchPrices(instruments: string[]): Promise<Record<string, { last: number; close: number }>> {
+    const prices: Record<string, { last: number; close: number }> = {};
+
+    const response = await this.kiteClient.getOHLC(instruments);
+    for (const [instrument, data] of Object.entries(response)) {
+      prices[instrument] = { last: data.last_price, close: data.ohlc?.close ?? data.last_price };
+    }
+
+    return prices;
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + (value || 0), 0);
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
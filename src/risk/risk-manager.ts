@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import { ConfigManager } from '../config/environment.js';
+import { KiteClient, type OrderParams } from '../api/kite-client.js';
+
+export interface RiskPolicy {
+  maxOrderValue?: number;
+  maxQuantity?: number;
+  maxQuantityPerSymbol?: Record<string, number>;
+  allowedExchanges?: string[];
+  blockedExchanges?: string[];
+  allowedProducts?: string[];
+  blockedProducts?: string[];
+  symbolAllowlist?: string[];
+  symbolDenylist?: string[];
+  maxOpenOrders?: number;
+  priceBandPercent?: number;
+}
+
+export interface RiskViolation {
+  rule: string;
+  message: string;
+  limit?: number | string | string[];
+  actual?: number | string;
+}
+
+// GTT legs are orders placed later, so they are not held to the open order limit
+export type OrderAction = 'place' | 'modify' | 'gtt';
+
+// Order statuses that count towards the open order limit. Listed explicitly so a status
+// Kite adds later is not counted as open by default.
+const OPEN_ORDER_STATUSES = [
+  'OPEN',
+  'TRIGGER PENDING',
+  'AMO REQ RECEIVED',
+  'OPEN PENDING',
+  'VALIDATION PENDING',
+  'PUT ORDER REQ RECEIVED',
+  'MODIFY PENDING',
+  'MODIFY VALIDATION PENDING',
+  'MODIFIED',
+  'CANCEL PENDING'
+];
+
+// How each policy field is checked when the policy is loaded
+const POLICY_FIELDS: Record<keyof RiskPolicy, 'number' | 'integer' | 'list' | 'limits'> = {
+  maxOrderValue: 'number',
+  maxQuantity: 'integer',
+  maxQuantityPerSymbol: 'limits',
+  allowedExchanges: 'list',
+  blockedExchanges: 'list',
+  allowedProducts: 'list',
+  blockedProducts: 'list',
+  symbolAllowlist: 'list',
+  symbolDenylist: 'list',
+  maxOpenOrders: 'integer',
+  priceBandPercent: 'number'
+};
+
+/**
+ * Raised when an order breaks the configured risk policy
+ */
+export class RiskPolicyError extends Error {
+  readonly violations: RiskViolation[];
+
+  constructor(violations: RiskViolation[]) {
+    super(`Order rejected by risk policy: ${violations.map(v => v.message).join('; ')}`);
+    this.name = 'RiskPolicyError';
+    this.violations = violations;
+  }
+}
+
+export class RiskManager {
+  private readonly policy: RiskPolicy;
+  private readonly kiteClient: KiteClient;
+
+  constructor(config: ConfigManager, kiteClient: KiteClient) {
+    this.kiteClient = kiteClient;
+    this.policy = this.loadPolicy(config.getRiskPolicyFile());
+  }
+
+  private loadPolicy(policyFile?: string): RiskPolicy {
+    if (!policyFile) {
+      return {};
+    }
+
+    try {
+      const policy = validatePolicy(JSON.parse(fs.readFileSync(policyFile, 'utf-8')));
+      console.error(`Risk policy loaded from: ${policyFile}`);
+      return policy;
+    } catch (error) {
+      throw new Error(`Failed to load risk policy from ${policyFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the active policy
+   */
+  getPolicy(): RiskPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Check an order against the policy and return every violation found
+   */
+  async checkOrder(order: Partial<OrderParams>, action: OrderAction = 'place'): Promise<RiskViolation[]> {
+    const policy = this.policy;
+    const violations: RiskViolation[] = [];
+    const exchange = order.exchange ?? '';
+    const symbol = order.tradingsymbol ?? '';
+    const instrument = `${exchange}:${symbol}`;
+
+    if (policy.allowedExchanges?.length && !policy.allowedExchanges.includes(exchange)) {
+      violations.push({ rule: 'allowedExchanges', message: `Exchange ${exchange} is not allowed`, limit: policy.allowedExchanges, actual: exchange });
+    }
+    if (policy.blockedExchanges?.includes(exchange)) {
+      violations.push({ rule: 'blockedExchanges', message: `Exchange ${exchange} is blocked`, actual: exchange });
+    }
+
+    const product = order.product ?? '';
+    if (policy.allowedProducts?.length && !policy.allowedProducts.includes(product)) {
+      violations.push({ rule: 'allowedProducts', message: `Product ${product} is not allowed`, limit: policy.allowedProducts, actual: product });
+    }
+    if (policy.blockedProducts?.includes(product)) {
+      violations.push({ rule: 'blockedProducts', message: `Product ${product} is blocked`, actual: product });
+    }
+
+    if (policy.symbolAllowlist?.length && !matchesSymbol(policy.symbolAllowlist, exchange, symbol)) {
+      violations.push({ rule: 'symbolAllowlist', message: `${instrument} is not in the symbol allowlist`, actual: instrument });
+    }
+    if (policy.symbolDenylist?.length && matchesSymbol(policy.symbolDenylist, exchange, symbol)) {
+      violations.push({ rule: 'symbolDenylist', message: `${instrument} is in the symbol denylist`, actual: instrument });
+    }
+
+    const maxQuantity = policy.maxQuantityPerSymbol?.[instrument]
+      ?? policy.maxQuantityPerSymbol?.[symbol]
+      ?? policy.maxQuantity;
+    if (maxQuantity !== undefined && order.quantity !== undefined && order.quantity > maxQuantity) {
+      violations.push({ rule: 'maxQuantity', message: `Quantity ${order.quantity} exceeds the limit of ${maxQuantity} for ${instrument}`, limit: maxQuantity, actual: order.quantity });
+    }
+
+    const needsLTP = policy.priceBandPercent !== undefined
+      || (policy.maxOrderValue !== undefined && order.price === undefined && order.trigger_price === undefined);
+    const ltp = needsLTP ? await this.fetchLTP(instrument) : undefined;
+
+    if (policy.maxOrderValue !== undefined && order.quantity !== undefined) {
+      const unitPrice = order.price ?? order.trigger_price ?? ltp;
+      if (unitPrice === undefined) {
+        violations.push({ rule: 'maxOrderValue', message: `Could not determine a price for ${instrument} to check the order value` });
+      } else {
+        const orderValue = unitPrice * order.quantity;
+        if (orderValue > policy.maxOrderValue) {
+          violations.push({ rule: 'maxOrderValue', message: `Order value ${orderValue.toFixed(2)} exceeds the limit of ${policy.maxOrderValue}`, limit: policy.maxOrderValue, actual: Number(orderValue.toFixed(2)) });
+        }
+      }
+    }
+
+    if (policy.priceBandPercent !== undefined) {
+      for (const field of ['price', 'trigger_price'] as const) {
+        const value = order[field];
+        if (value === undefined) continue;
+        if (ltp === undefined) {
+          violations.push({ rule: 'priceBandPercent', message: `Could not fetch LTP for ${instrument} to check the ${field} band` });
+          break;
+        }
+        const deviation = Math.abs(value - ltp) / ltp * 100;
+        if (deviation > policy.priceBandPercent) {
+          violations.push({ rule: 'priceBandPercent', message: `${field} ${value} is ${deviation.toFixed(2)}% away from LTP ${ltp} (limit ${policy.priceBandPercent}%)`, limit: policy.priceBandPercent, actual: Number(deviation.toFixed(2)) });
+        }
+      }
+    }
+
+    if (action === 'place' && policy.maxOpenOrders !== undefined) {
+      const orders: any[] = await this.kiteClient.getOrders() || [];
+      const openOrders = orders.filter(o => OPEN_ORDER_STATUSES.includes(o.status)).length;
+      if (openOrders >= policy.maxOpenOrders) {
+        violations.push({ rule: 'maxOpenOrders', message: `${openOrders} orders are already open (limit ${policy.maxOpenOrders})`, limit: policy.maxOpenOrders, actual: openOrders });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Throw a RiskPolicyError if the order breaks the policy
+   */
+  async assertOrderAllowed(order: Partial<OrderParams>, action: OrderAction = 'place'): Promise<void> {
+    const violations = await this.checkOrder(order, action);
+    if (violations.length > 0) {
+      throw new RiskPolicyError(violations);
+    }
+  }
+
+  private async fetchLTP(instrument: string): Promise<number | undefined> {
+    try {
+      const response = await this.kiteClient.getLTP([instrument]);
+      return response?.[instrument]?.last_price;
+    } catch (error) {
+      console.error(`Risk check could not fetch LTP for ${instrument}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Match an entry list that may contain plain symbols (INFY) or exchange-qualified ones (NSE:INFY)
+ */
+function matchesSymbol(list: string[], exchange: string, symbol: string): boolean {
+  return list.includes(symbol) || list.includes(`${exchange}:${symbol}`);
+}
+
+/**
+ * Check a parsed policy file, so a misspelt field or a limit given as a string fails at
+ * startup instead of silently not being enforced
+ */
+function validatePolicy(value: unknown): RiskPolicy {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('the policy must be a JSON object');
+  }
+
+  const problems: string[] = [];
+  const isLimit = (limit: unknown, integer: boolean) =>
+    typeof limit === 'number' && limit >= 0 && (integer ? Number.isInteger(limit) : Number.isFinite(limit));
+
+  for (const [field, limit] of Object.entries(value)) {
+    const kind = Object.hasOwn(POLICY_FIELDS, field) ? POLICY_FIELDS[field as keyof RiskPolicy] : undefined;
+    if (kind === undefined) {
+      problems.push(`unknown field ${field} (expected one of ${Object.keys(POLICY_FIELDS).join(', ')})`);
+    } else if ((kind === 'number' || kind === 'integer') && !isLimit(limit, kind === 'integer')) {
+      problems.push(`${field} must be a non-negative ${kind} (got ${JSON.stringify(limit)})`);
+    } else if (kind === 'list' && !(Array.isArray(limit) && limit.every(entry => typeof entry === 'string'))) {
+      problems.push(`${field} must be an array of strings (got ${JSON.stringify(limit)})`);
+    } else if (kind === 'limits' && (typeof limit !== 'object' || limit === null || Array.isArray(limit)
+      || !Object.values(limit).every(entry => isLimit(entry, true)))) {
+      problems.push(`${field} must map symbols to non-negative integer quantities (got ${JSON.stringify(limit)})`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+  return value as RiskPolicy;
+}
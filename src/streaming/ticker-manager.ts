@@ -0,0 +1,347 @@
+import { KiteTicker } from 'kiteconnect';
+import { ConfigManager } from '../config/environment.js';
+import { TokenManager } from '../auth/token-manager.js';
+
+export type TickMode = 'ltp' | 'quote' | 'full';
+
+export type TickerState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
+
+export interface TickSubscription {
+  instrument: string;
+  instrument_token: number;
+  mode: TickMode;
+}
+
+export interface TickRecord {
+  instrument: string;
+  instrument_token: number;
+  received_at: string;
+  tick: any;
+}
+
+export type TickListener = (ticks: TickRecord[]) => void;
+
+export const TICK_MODES: TickMode[] = ['ltp', 'quote', 'full'];
+
+// Kite allows at most this many instruments per WebSocket connection
+export const MAX_TICKER_SUBSCRIPTIONS = 3000;
+
+const INITIAL_RECONNECT_DELAY_SECONDS = 1;
+
+/**
+ * Owns the KiteTicker WebSocket: connects on the first subscription, reconnects with
+ * exponential backoff, restores subscriptions and modes after every reconnect, and keeps
+ * the latest tick per instrument in memory.
+ *
+ * Reconnection is handled here rather than by KiteTicker, whose own mechanism exits the
+ * process once its retries run out.
+ */
+export class TickerManager {
+  private readonly apiKey: string;
+  private readonly tokenManager: TokenManager;
+  private readonly maxRetries: number;
+  private readonly maxDelaySeconds: number;
+  private readonly subscriptions = new Map<number, TickSubscription>();
+  private readonly lastTicks = new Map<number, TickRecord>();
+  private readonly listeners = new Set<TickListener>();
+  private readonly subscriptionListeners = new Set<(subscribed: TickSubscription[]) => void>();
+  private ticker: InstanceType<typeof KiteTicker> | null = null;
+  private accessToken: string | null = null;
+  private state: TickerState = 'idle';
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private lastError: string | null = null;
+  private lastTickAt: string | null = null;
+  private connectedAt: string | null = null;
+
+  constructor(config: ConfigManager, tokenManager: TokenManager) {
+    this.apiKey = config.getApiKey();
+    this.tokenManager = tokenManager;
+    this.maxRetries = config.getTickerMaxRetries();
+    this.maxDelaySeconds = config.getTickerMaxDelaySeconds();
+  }
+
+  /**
+   * Subscribe instruments in the given mode, connecting if needed. Instruments that are
+   * already subscribed switch to the new mode.
+   */
+  subscribe(instruments: Array<{ instrument: string; instrument_token: number }>, mode: TickMode): TickSubscription[] {
+    const newCount = instruments.filter(i => !this.subscriptions.has(i.instrument_token)).length;
+    if (this.subscriptions.size + newCount > MAX_TICKER_SUBSCRIPTIONS) {
+      throw new Error(`Cannot subscribe ${newCount} more instruments: the ticker is limited to ${MAX_TICKER_SUBSCRIPTIONS} (currently ${this.subscriptions.size})`);
+    }
+
+    // The connection opens asynchronously, so subscriptions recorded below are sent with
+    // the rest once it does
+    if (this.state === 'idle' || this.state === 'failed') {
+      this.reconnectAttempts = 0;
+      this.connect();
+    }
+
+    const added: TickSubscription[] = [];
+    for (const { instrument, instrument_token } of instruments) {
+      const subscription = { instrument, instrument_token, mode };
+      this.subscriptions.set(instrument_token, subscription);
+      added.push(subscription);
+    }
+
+    if (this.state === 'connected') {
+      const tokens = added.map(s => s.instrument_token);
+      this.ticker!.subscribe(tokens);
+      this.ticker!.setMode(mode, tokens);
+    }
+
+    this.notifySubscriptionsChanged(added);
+    return added;
+  }
+
+  /**
+   * Unsubscribe instruments by token. The connection is closed once nothing is subscribed.
+   */
+  unsubscribe(instrumentTokens: number[]): TickSubscription[] {
+    const removed: TickSubscription[] = [];
+    for (const token of instrumentTokens) {
+      const subscription = this.subscriptions.get(token);
+      if (subscription) {
+        this.subscriptions.delete(token);
+        this.lastTicks.delete(token);
+        removed.push(subscription);
+      }
+    }
+
+    if (this.state === 'connected' && removed.length > 0) {
+      this.ticker!.unsubscribe(removed.map(s => s.instrument_token));
+    }
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+
+    if (removed.length > 0) {
+      this.notifySubscriptionsChanged([]);
+    }
+    return removed;
+  }
+
+  /**
+   * Get the subscription for an instrument token, if any
+   */
+  getSubscription(instrumentToken: number): TickSubscription | undefined {
+    return this.subscriptions.get(instrumentToken);
+  }
+
+  /**
+   * Get all current subscriptions
+   */
+  getSubscriptions(): TickSubscription[] {
+    return [...this.subscriptions.values()];
+  }
+
+  /**
+   * Latest tick for an instrument token, without an API call
+   */
+  getLastTick(instrumentToken: number): TickRecord | undefined {
+    return this.lastTicks.get(instrumentToken);
+  }
+
+  /**
+   * Latest ticks for the given tokens, or for every subscribed instrument
+   */
+  getLastTicks(instrumentTokens?: number[]): TickRecord[] {
+    const tokens = instrumentTokens ?? [...this.subscriptions.keys()];
+    return tokens
+      .map(token => this.lastTicks.get(token))
+      .filter((record): record is TickRecord => record !== undefined);
+  }
+
+  /**
+   * Register a listener for incoming ticks. Returns a function that removes it.
+   */
+  onTicks(listener: TickListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Register a listener for changes to the set of subscribed instruments. The listener gets
+   * the instruments a subscribe call added or switched mode for (none on unsubscribe).
+   * Returns a function that removes it.
+   */
+  onSubscriptionsChanged(listener: (subscribed: TickSubscription[]) => void): () => void {
+    this.subscriptionListeners.add(listener);
+    return () => this.subscriptionListeners.delete(listener);
+  }
+
+  /**
+   * Get connection status
+   */
+  getStatus(): any {
+    return {
+      state: this.state,
+      connected: this.state === 'connected',
+      connected_at: this.connectedAt,
+      subscriptions: this.subscriptions.size,
+      max_subscriptions: MAX_TICKER_SUBSCRIPTIONS,
+      modes: Object.fromEntries(TICK_MODES.map(mode => [
+        mode,
+        this.getSubscriptions().filter(s => s.mode === mode).length
+      ])),
+      reconnect_attempts: this.reconnectAttempts,
+      last_tick_at: this.lastTickAt,
+      last_error: this.lastError
+    };
+  }
+
+  /**
+   * Close the connection and cancel any pending reconnect. Subscriptions are kept, so the
+   * next subscribe call reconnects with all of them.
+   */
+  stop(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.state = 'idle';
+    this.reconnectAttempts = 0;
+    this.connectedAt = null;
+    this.ticker?.disconnect();
+  }
+
+  private connect(): void {
+    const accessToken = this.tokenManager.getValidToken();
+    if (!accessToken) {
+      throw new Error('Not authenticated. Please run authentication first.');
+    }
+
+    // KiteTicker keeps its socket and event handlers at module level, so one instance is
+    // created and its handlers registered once. A new instance is only needed for a new token.
+    if (!this.ticker || this.accessToken !== accessToken) {
+      const isFirst = this.ticker === null;
+      this.ticker = new KiteTicker({ api_key: this.apiKey, access_token: accessToken, reconnect: false });
+      this.accessToken = accessToken;
+      if (isFirst) {
+        this.registerHandlers();
+      }
+    }
+
+    this.state = 'connecting';
+    this.ticker.connect();
+  }
+
+  private registerHandlers(): void {
+    const ticker = this.ticker!;
+
+    ticker.on('connect', () => {
+      this.state = 'connected';
+      this.reconnectAttempts = 0;
+      this.lastError = null;
+      this.connectedAt = new Date().toISOString();
+      console.error(`Ticker connected (${this.subscriptions.size} subscriptions)`);
+      this.resubscribe();
+    });
+
+    ticker.on('ticks', (ticks: any[]) => this.handleTicks(ticks));
+
+    ticker.on('error', (error: any) => {
+      this.lastError = error?.message ?? String(error);
+      console.error(`Ticker error: ${this.lastError}`);
+    });
+
+    // KiteTicker's 'disconnect' event is skipped for any socket after the first, so
+    // 'close' is the reliable signal
+    ticker.on('close', () => {
+      if (this.state === 'idle' || ticker.connected()) {
+        // Closed deliberately by stop(), or a stale socket closing after a newer one opened
+        return;
+      }
+      this.connectedAt = null;
+      console.error('Ticker disconnected');
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * Restore every subscription and its mode on a fresh connection
+   */
+  private resubscribe(): void {
+    const ticker = this.ticker!;
+    const tokens = [...this.subscriptions.keys()];
+    if (tokens.length === 0) {
+      return;
+    }
+
+    ticker.subscribe(tokens);
+    for (const mode of TICK_MODES) {
+      const modeTokens = this.getSubscriptions().filter(s => s.mode === mode).map(s => s.instrument_token);
+      ticker.setMode(mode, modeTokens);
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    if (this.reconnectAttempts >= this.maxRetries) {
+      this.state = 'failed';
+      this.lastError = `Gave up reconnecting after ${this.reconnectAttempts} attempts`;
+      console.error(`Ticker: ${this.lastError}`);
+      return;
+    }
+
+    const delaySeconds = Math.min(INITIAL_RECONNECT_DELAY_SECONDS * 2 ** this.reconnectAttempts, this.maxDelaySeconds);
+    this.reconnectAttempts++;
+    this.state = 'reconnecting';
+    console.error(`Ticker reconnecting in ${delaySeconds}s (attempt ${this.reconnectAttempts}/${this.maxRetries})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      try {
+        this.connect();
+      } catch (error) {
+        this.state = 'failed';
+        this.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`Ticker reconnect failed: ${this.lastError}`);
+      }
+    }, delaySeconds * 1000);
+  }
+
+  private handleTicks(ticks: any[]): void {
+    const receivedAt = new Date().toISOString();
+    const records: TickRecord[] = [];
+
+    for (const tick of ticks) {
+      const subscription = this.subscriptions.get(tick.instrument_token);
+      if (!subscription) {
+        continue;
+      }
+
+      const record = {
+        instrument: subscription.instrument,
+        instrument_token: subscription.instrument_token,
+        received_at: receivedAt,
+        tick
+      };
+      this.lastTicks.set(subscription.instrument_token, record);
+      records.push(record);
+    }
+
+    if (records.length === 0) {
+      return;
+    }
+
+    this.lastTickAt = receivedAt;
+    for (const listener of this.listeners) {
+      try {
+        listener(records);
+      } catch (error) {
+        console.error(`Tick listener failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private notifySubscriptionsChanged(subscribed: TickSubscription[]): void {
+    for (const listener of this.subscriptionListeners) {
+      listener(subscribed);
+    }
+  }
+}
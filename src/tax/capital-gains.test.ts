@@ -0,0 +1,220 @@
+import { describe, expect, test } from 'bun:test';
+import { capitalGainsToCsv, computeCapitalGains, financialYearOf, financialYearRange } from './capital-gains.js';
+import type { TradebookTrade } from './trade-store.js';
+
+const FY_2024_25 = { from: '2024-04-01', to: '2025-03-31' };
+
+let sequence = 0;
+
+function trade(
+  tradingsymbol: string,
+  transaction_type: 'BUY' | 'SELL',
+  quantity: number,
+  price: number,
+  trade_date: string,
+  overrides: Partial<TradebookTrade> = {}
+): TradebookTrade {
+  sequence++;
+  const segment = overrides.segment ?? (/(FUT|\d(CE|PE))$/.test(tradingsymbol) ? 'FO' : 'EQ');
+  return {
+    account: 'AB1234',
+    trade_id: String(sequence),
+    order_id: String(sequence),
+    exchange: segment === 'FO' ? 'NFO' : 'NSE',
+    segment,
+    tradingsymbol,
+    transaction_type,
+    quantity,
+    price,
+    trade_date,
+    executed_at: `${trade_date}T10:${String(sequence % 60).padStart(2, '0')}:00`,
+    source: 'console',
+    ...overrides
+  };
+}
+
+function report(trades: TradebookTrade[], options: Partial<Parameters<typeof computeCapitalGains>[2]> = {}) {
+  return computeCapitalGains('AB1234', trades, { ...FY_2024_25, ...options });
+}
+
+describe('computeCapitalGains', () => {
+  test('matches delivery sales against the oldest lots first', () => {
+    const { realised, open_positions } = report([
+      trade('INFY', 'BUY', 10, 1000, '2024-05-02'),
+      trade('INFY', 'BUY', 10, 1200, '2024-06-03'),
+      trade('INFY', 'SELL', 15, 1500, '2024-09-02')
+    ]);
+
+    expect(realised.map(row => [row.buy_date, row.quantity, row.pnl])).toEqual([
+      ['2024-05-02', 10, 5000],
+      ['2024-06-03', 5, 1500]
+    ]);
+    expect(realised.every(row => row.category === 'stcg')).toBe(true);
+    expect(open_positions).toEqual([{ tradingsymbol: 'INFY', segment: 'EQ', quantity: 5, average_price: 1200, since: '2024-06-03' }]);
+  });
+
+  test('matches same-day buys and sells as intraday before older holdings', () => {
+    const { realised, open_positions } = report([
+      trade('TCS', 'BUY', 10, 3000, '2024-04-10'),
+      trade('TCS', 'BUY', 5, 4000, '2024-07-01'),
+      trade('TCS', 'SELL', 8, 4100, '2024-07-01')
+    ]);
+
+    expect(realised.map(row => [row.category, row.buy_date, row.quantity, row.pnl])).toEqual([
+      ['intraday_speculative', '2024-07-01', 5, 500],
+      ['stcg', '2024-04-10', 3, 3300]
+    ]);
+    expect(open_positions[0]?.quantity).toBe(7);
+  });
+
+  test('treats a sale exactly 12 months after the buy as short term and a day later as long term', () => {
+    const { realised } = report([
+      trade('HDFCBANK', 'BUY', 2, 1500, '2023-06-15'),
+      trade('HDFCBANK', 'SELL', 1, 1700, '2024-06-15'),
+      trade('HDFCBANK', 'SELL', 1, 1700, '2024-06-16')
+    ]);
+
+    expect(realised.map(row => [row.sell_date, row.category])).toEqual([
+      ['2024-06-15', 'stcg'],
+      ['2024-06-16', 'ltcg']
+    ]);
+  });
+
+  test('grandfathers shares bought before February 2018 at the higher of cost and the lower of fair value and sale price', () => {
+    const trades = [
+      trade('RELIANCE', 'BUY', 30, 800, '2017-03-01', { isin: 'INE002A01018' }),
+      trade('RELIANCE', 'SELL', 10, 1200, '2024-05-02'),
+      trade('RELIANCE', 'SELL', 10, 850, '2024-06-03'),
+      trade('RELIANCE', 'SELL', 10, 700, '2024-07-01')
+    ];
+    const { realised, warnings } = report(trades, { fairMarketValues: { INE002A01018: 900 } });
+
+    // Fair value below the sale price, sale price below fair value, and a sale below cost
+    expect(realised.map(row => [row.cost_price, row.pnl, row.grandfathered])).toEqual([
+      [900, 3000, true],
+      [850, 0, true],
+      [800, -1000, true]
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  test('warns and uses the actual cost when no fair value is given', () => {
+    const { realised, warnings } = report([
+      trade('RELIANCE', 'BUY', 10, 800, '2017-03-01'),
+      trade('RELIANCE', 'SELL', 10, 1200, '2024-05-02')
+    ]);
+
+    expect(realised[0]).toMatchObject({ category: 'ltcg', cost_price: 800, pnl: 4000, grandfathered: false });
+    expect(warnings[0]).toContain('No fair market value on 2018-01-31 for RELIANCE');
+  });
+
+  test('reports only gains closed in the period, matched against earlier years', () => {
+    const { realised, summary } = report([
+      trade('INFY', 'BUY', 10, 1000, '2022-05-02'),
+      trade('INFY', 'SELL', 5, 1100, '2023-05-02'),
+      trade('INFY', 'SELL', 5, 1400, '2024-05-02'),
+      trade('INFY', 'SELL', 1, 1400, '2025-04-02')
+    ]);
+
+    expect(realised).toHaveLength(1);
+    expect(realised[0]).toMatchObject({ buy_date: '2022-05-02', sell_date: '2024-05-02', pnl: 2000 });
+    expect(summary.ltcg.realised_pnl).toBe(2000);
+    expect(summary.total_realised_pnl).toBe(2000);
+  });
+
+  test('warns about sales with no matching buy and leaves them out', () => {
+    const { realised, warnings } = report([trade('WIPRO', 'SELL', 5, 500, '2024-08-01')]);
+
+    expect(realised).toEqual([]);
+    expect(warnings[0]).toContain('Sold 5 WIPRO on 2024-08-01 without a matching buy');
+  });
+
+  test('closes short derivatives positions with a later buy', () => {
+    const { realised, open_positions, summary } = report([
+      trade('NIFTY24JULFUT', 'SELL', 50, 24000, '2024-07-02'),
+      trade('NIFTY24JULFUT', 'BUY', 75, 23800, '2024-07-10'),
+      trade('NIFTY24JULFUT', 'SELL', 25, 23700, '2024-07-12')
+    ]);
+
+    expect(realised.map(row => [row.buy_date, row.sell_date, row.quantity, row.pnl, row.holding_days])).toEqual([
+      ['2024-07-10', '2024-07-02', 50, 10000, 8],
+      ['2024-07-10', '2024-07-12', 25, -2500, 2]
+    ]);
+    expect(open_positions).toEqual([]);
+    expect(summary.fno_business).toEqual({ trades: 2, buy_value: 1785000, sell_value: 1792500, realised_pnl: 7500, turnover: 12500 });
+  });
+
+  test('settles expired contracts: options at 0 or their settlement price, futures only with a settlement price', () => {
+    const { realised, open_positions, warnings } = report([
+      trade('NIFTY24JUL25000CE', 'BUY', 50, 100, '2024-07-01'),
+      trade('NIFTY24O0324000PE', 'SELL', 25, 80, '2024-10-01'),
+      trade('BANKNIFTY24SEP50000CE', 'SELL', 15, 200, '2024-09-02', { expiry: '2024-09-25' }),
+      trade('NIFTY24AUGFUT', 'BUY', 25, 24000, '2024-08-01')
+    ], { settlementPrices: { BANKNIFTY24SEP50000CE: 250 } });
+
+    expect(realised.map(row => [row.tradingsymbol, row.buy_date, row.buy_price, row.sell_date, row.sell_price, row.pnl])).toEqual([
+      ['NIFTY24JUL25000CE', '2024-07-01', 100, '2024-07-31', 0, -5000],
+      ['BANKNIFTY24SEP50000CE', '2024-09-25', 250, '2024-09-02', 200, -750],
+      ['NIFTY24O0324000PE', '2024-10-03', 0, '2024-10-01', 80, 2000]
+    ]);
+    expect(open_positions.map(position => position.tradingsymbol)).toEqual(['NIFTY24AUGFUT']);
+    expect(warnings).toEqual([
+      'Expired options closed at 0 as worthless: NIFTY24JUL25000CE, NIFTY24O0324000PE. Pass settlement_prices for any that expired in the money.',
+      'Expired futures still open for lack of a settlement price: NIFTY24AUGFUT. Pass settlement_prices to close them.',
+      'Expiry dates of NIFTY24JUL25000CE are approximate: the symbol only names the month, so they were settled on its last day. Monthly contracts expire earlier in the last week; import tradebooks with the expiry_date column for the exact dates.'
+    ]);
+  });
+
+  test('settles monthly contracts on their expiry from the instrument master', () => {
+    const { realised, warnings } = report([
+      trade('NIFTY24JUL25000CE', 'BUY', 50, 100, '2024-07-01'),
+      trade('NIFTY24AUGFUT', 'BUY', 25, 24000, '2024-08-01')
+    ], { contractExpiries: { NIFTY24JUL25000CE: '2024-07-25', NIFTY24AUGFUT: '2024-08-29' }, settlementPrices: { NIFTY24AUGFUT: 24100 } });
+
+    expect(realised.map(row => [row.tradingsymbol, row.sell_date])).toEqual([
+      ['NIFTY24JUL25000CE', '2024-07-25'],
+      ['NIFTY24AUGFUT', '2024-08-29']
+    ]);
+    expect(warnings.some(warning => warning.includes('approximate'))).toBe(false);
+  });
+
+  test('leaves contracts expiring after the period open', () => {
+    const { realised, open_positions } = report([trade('NIFTY25APR25000CE', 'BUY', 50, 100, '2025-03-20')]);
+
+    expect(realised).toEqual([]);
+    expect(open_positions[0]?.quantity).toBe(50);
+  });
+});
+
+describe('capitalGainsToCsv', () => {
+  test('writes one row per match and quotes fields that need it', () => {
+    const csv = capitalGainsToCsv(report([
+      trade('M&M,X', 'BUY', 1, 100, '2024-05-02'),
+      trade('M&M,X', 'SELL', 1, 110, '2024-05-03')
+    ]));
+
+    expect(csv.split('\n')).toEqual([
+      'category,tradingsymbol,segment,quantity,buy_date,buy_price,cost_price,sell_date,sell_price,buy_value,sell_value,pnl,holding_days,grandfathered',
+      'stcg,"M&M,X",EQ,1,2024-05-02,100,100,2024-05-03,110,100,110,10,1,false',
+      ''
+    ]);
+  });
+});
+
+describe('financialYearRange', () => {
+  test('accepts short and long forms', () => {
+    expect(financialYearRange('2024-25')).toEqual(FY_2024_25);
+    expect(financialYearRange('2024-2025')).toEqual(FY_2024_25);
+    expect(financialYearRange('1999-00')).toEqual({ from: '1999-04-01', to: '2000-03-31' });
+  });
+
+  test('rejects years that are not consecutive', () => {
+    expect(() => financialYearRange('2024-26')).toThrow('Invalid financial year "2024-26"');
+    expect(() => financialYearRange('FY25')).toThrow();
+  });
+
+  test('finds the year a date falls in', () => {
+    expect(financialYearOf('2025-03-31')).toBe('2024-25');
+    expect(financialYearOf('2025-04-01')).toBe('2025-26');
+  });
+});
@@ -0,0 +1,429 @@
+import type { TradebookTrade, TradeSegment } from './trade-store.js';
+
+/**
+ * Tax treatment of a realised gain: same-day equity trades are speculative business income,
+ * equity delivery sales are short or long term capital gains, and derivatives are
+ * non-speculative business income
+ */
+export type GainCategory = 'intraday_speculative' | 'stcg' | 'ltcg' | 'fno_business';
+
+export const GAIN_CATEGORIES: GainCategory[] = ['intraday_speculative', 'stcg', 'ltcg', 'fno_business'];
+
+// Section 112A: the cost of listed equity bought on or before this date is stepped up to its
+// fair market value on this date when computing long term gains
+export const GRANDFATHERING_DATE = '2018-01-31';
+
+/**
+ * A buy matched against a sell, FIFO
+ */
+export interface RealisedTrade {
+  tradingsymbol: string;
+  segment: TradeSegment;
+  category: GainCategory;
+  quantity: number;
+  buy_date: string;
+  buy_price: number;
+  // Unit cost the gain is computed from: the buy price, or the grandfathered cost
+  cost_price: number;
+  sell_date: string;
+  sell_price: number;
+  buy_value: number;
+  sell_value: number;
+  pnl: number;
+  holding_days: number;
+  grandfathered: boolean;
+}
+
+export interface CategorySummary {
+  trades: number;
+  buy_value: number;
+  sell_value: number;
+  realised_pnl: number;
+  // Sum of absolute profits and losses, the turnover of business income for a tax audit
+  turnover?: number;
+}
+
+export interface OpenPosition {
+  tradingsymbol: string;
+  segment: TradeSegment;
+  // Negative for a short derivatives position
+  quantity: number;
+  average_price: number;
+  since: string;
+}
+
+export interface CapitalGainsReport {
+  account: string;
+  from: string;
+  to: string;
+  summary: Record<GainCategory, CategorySummary> & { total_realised_pnl: number };
+  by_symbol: ({ tradingsymbol: string; segment: TradeSegment; total: number } & Partial<Record<GainCategory, number>>)[];
+  realised: RealisedTrade[];
+  // Positions still open at the end of the period, from the tradebook alone
+  open_positions: OpenPosition[];
+  warnings: string[];
+}
+
+export interface CapitalGainsOptions {
+  // Inclusive IST dates, YYYY-MM-DD
+  from: string;
+  to: string;
+  // Fair market value on the grandfathering date, by trading symbol or ISIN
+  fairMarketValues?: Record<string, number>;
+  // Final settlement price of expired derivatives contracts, by trading symbol
+  settlementPrices?: Record<string, number>;
+  // Expiry dates of derivatives contracts from the instrument master, by trading symbol
+  contractExpiries?: Record<string, string>;
+}
+
+interface Lot {
+  date: string;
+  price: number;
+  // Signed for derivatives: negative lots are short
+  quantity: number;
+}
+
+type Emit = (row: Omit<RealisedTrade, 'buy_value' | 'sell_value' | 'pnl' | 'holding_days' | 'cost_price' | 'grandfathered'>) => void;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+// Month codes of weekly contracts, e.g. NIFTY24O1024000CE expires on 2024-10-10
+const WEEKLY_MONTHS = '123456789OND';
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+/**
+ * Match an account's trades FIFO per symbol and classify the realised gains in the period.
+ * Every trade up to the end of the period is replayed, so sales in the period are matched
+ * against buys from earlier years.
+ */
+export function computeCapitalGains(account: string, trades: TradebookTrade[], options: CapitalGainsOptions): CapitalGainsReport {
+  const fairMarketValues = upperCaseKeys(options.fairMarketValues);
+  const settlementPrices = upperCaseKeys(options.settlementPrices);
+  const contractExpiries = options.contractExpiries ?? {};
+  const warnings: string[] = [];
+  const realised: RealisedTrade[] = [];
+  const openPositions: OpenPosition[] = [];
+  const missingValues = new Set<string>();
+  const worthless = new Set<string>();
+  const unsettled = new Set<string>();
+  const approximateExpiries = new Set<string>();
+
+  const symbols = new Map<string, TradebookTrade[]>();
+  for (const trade of trades.filter(t => t.trade_date <= options.to)) {
+    const key = `${trade.segment === 'EQ' ? 'EQ' : 'DERIVATIVE'}:${trade.tradingsymbol}`;
+    symbols.set(key, [...(symbols.get(key) ?? []), trade]);
+  }
+
+  for (const symbolTrades of symbols.values()) {
+    const { tradingsymbol, segment, isin } = symbolTrades.find(t => t.isin) ?? symbolTrades[0]!;
+
+    const emit: Emit = row => {
+      const closedOn = row.sell_date > row.buy_date ? row.sell_date : row.buy_date;
+      if (closedOn < options.from) {
+        return;
+      }
+
+      let costPrice = row.buy_price;
+      let grandfathered = false;
+      if (row.category === 'ltcg' && row.buy_date <= GRANDFATHERING_DATE) {
+        const fairValue = fairMarketValues[tradingsymbol] ?? (isin ? fairMarketValues[isin.toUpperCase()] : undefined);
+        if (fairValue === undefined) {
+          missingValues.add(tradingsymbol);
+        } else {
+          costPrice = Math.max(row.buy_price, Math.min(fairValue, row.sell_price));
+          grandfathered = true;
+        }
+      }
+
+      realised.push({
+        ...row,
+        cost_price: round(costPrice, 4),
+        buy_value: round(row.buy_price * row.quantity),
+        sell_value: round(row.sell_price * row.quantity),
+        pnl: round((row.sell_price - costPrice) * row.quantity),
+        holding_days: Math.abs(Math.round((Date.parse(row.sell_date) - Date.parse(row.buy_date)) / DAY_MS)),
+        grandfathered
+      });
+    };
+
+    let lots = segment === 'EQ'
+      ? matchEquity(symbolTrades, emit, (date, warning) => date >= options.from && warnings.push(warning))
+      : matchDerivatives(symbolTrades, emit);
+
+    // Contracts that expired have no closing trade: they settle at the settlement price, and
+    // options without one are taken to have expired worthless
+    // An expiry before the last trade means the symbol was not a contract name after all
+    const { date: expiry, approximate } = (segment === 'EQ' ? undefined : contractExpiry(symbolTrades, contractExpiries)) ?? {};
+    if (expiry && expiry >= symbolTrades[symbolTrades.length - 1]!.trade_date && expiry <= options.to && lots.length > 0) {
+      const isOption = /(CE|PE)$/.test(tradingsymbol);
+      const price = settlementPrices[tradingsymbol] ?? (isOption ? 0 : undefined);
+      if (price === undefined) {
+        unsettled.add(tradingsymbol);
+      } else {
+        settleLots(lots, tradingsymbol, segment, { date: expiry, price }, emit);
+        lots = [];
+        if (approximate && expiry >= options.from) {
+          approximateExpiries.add(tradingsymbol);
+        }
+        if (settlementPrices[tradingsymbol] === undefined && expiry >= options.from) {
+          worthless.add(tradingsymbol);
+        }
+      }
+    }
+
+    const quantity = lots.reduce((total, lot) => total + lot.quantity, 0);
+    if (quantity !== 0) {
+      openPositions.push({
+        tradingsymbol,
+        segment,
+        quantity,
+        average_price: round(lots.reduce((total, lot) => total + lot.price * lot.quantity, 0) / quantity, 4),
+        since: lots[0]!.date
+      });
+    }
+  }
+
+  if (missingValues.size > 0) {
+    warnings.push(`No fair market value on ${GRANDFATHERING_DATE} for ${[...missingValues].join(', ')}; long term gains on shares bought before then use the actual cost. Pass fair_market_values to apply grandfathering.`);
+  }
+  if (worthless.size > 0) {
+    warnings.push(`Expired options closed at 0 as worthless: ${[...worthless].join(', ')}. Pass settlement_prices for any that expired in the money.`);
+  }
+  if (unsettled.size > 0) {
+    warnings.push(`Expired futures still open for lack of a settlement price: ${[...unsettled].join(', ')}. Pass settlement_prices to close them.`);
+  }
+  if (approximateExpiries.size > 0) {
+    warnings.push(`Expiry dates of ${[...approximateExpiries].join(', ')} are approximate: the symbol only names the month, so they were settled on its last day. Monthly contracts expire earlier in the last week; import tradebooks with the expiry_date column for the exact dates.`);
+  }
+  if (realised.some(row => row.segment === 'CDS' || row.segment === 'COM')) {
+    warnings.push('Currency and commodity quantities are in lots; their P&L is the price difference times the quantity, without the contract multiplier.');
+  }
+
+  realised.sort((a, b) => a.sell_date.localeCompare(b.sell_date) || a.tradingsymbol.localeCompare(b.tradingsymbol));
+  return {
+    account,
+    from: options.from,
+    to: options.to,
+    summary: summarise(realised),
+    by_symbol: summariseBySymbol(realised),
+    realised,
+    open_positions: openPositions,
+    warnings
+  };
+}
+
+/**
+ * Equity trades, a day at a time. Buys and sells of the same day are matched with each other
+ * first and are intraday; the rest of the day's buys become lots and the rest of its sells
+ * are delivery sales from the oldest lots.
+ */
+function matchEquity(trades: TradebookTrade[], emit: Emit, warn: (date: string, warning: string) => void): Lot[] {
+  const lots: Lot[] = [];
+  const { tradingsymbol, segment } = trades[0]!;
+  const days = new Map<string, TradebookTrade[]>();
+  for (const trade of trades) {
+    days.set(trade.trade_date, [...(days.get(trade.trade_date) ?? []), trade]);
+  }
+
+  for (const [date, dayTrades] of days) {
+    const buys = dayTrades.filter(t => t.transaction_type === 'BUY').map(t => ({ price: t.price, quantity: t.quantity }));
+    const sells = dayTrades.filter(t => t.transaction_type === 'SELL').map(t => ({ price: t.price, quantity: t.quantity }));
+
+    let intraday = Math.min(sumQuantity(buys), sumQuantity(sells));
+    while (intraday > 0) {
+      const buy = buys[0]!;
+      const sell = sells[0]!;
+      const quantity = Math.min(buy.quantity, sell.quantity, intraday);
+      emit({ tradingsymbol, segment, category: 'intraday_speculative', quantity, buy_date: date, buy_price: buy.price, sell_date: date, sell_price: sell.price });
+      buy.quantity -= quantity;
+      sell.quantity -= quantity;
+      intraday -= quantity;
+      if (buy.quantity === 0) buys.shift();
+      if (sell.quantity === 0) sells.shift();
+    }
+
+    lots.push(...buys.map(buy => ({ date, price: buy.price, quantity: buy.quantity })));
+
+    for (const sell of sells) {
+      let remaining = sell.quantity;
+      while (remaining > 0 && lots.length > 0) {
+        const lot = lots[0]!;
+        const quantity = Math.min(remaining, lot.quantity);
+        const category = date > addYears(lot.date, 1) ? 'ltcg' : 'stcg';
+        emit({ tradingsymbol, segment, category, quantity, buy_date: lot.date, buy_price: lot.price, sell_date: date, sell_price: sell.price });
+        lot.quantity -= quantity;
+        remaining -= quantity;
+        if (lot.quantity === 0) lots.shift();
+      }
+      if (remaining > 0) {
+        warn(date, `Sold ${remaining} ${tradingsymbol} on ${date} without a matching buy in the tradebook; import earlier tradebooks to include its cost.`);
+      }
+    }
+  }
+
+  return lots;
+}
+
+/**
+ * Derivatives trades in order. A trade first closes open lots on the other side, oldest first,
+ * and any remainder opens a new long or short lot.
+ */
+function matchDerivatives(trades: TradebookTrade[], emit: Emit): Lot[] {
+  const lots: Lot[] = [];
+  const { tradingsymbol, segment } = trades[0]!;
+
+  for (const trade of trades) {
+    const side = trade.transaction_type === 'BUY' ? 1 : -1;
+    let remaining = trade.quantity;
+
+    while (remaining > 0 && lots.length > 0 && Math.sign(lots[0]!.quantity) === -side) {
+      const lot = lots[0]!;
+      const quantity = Math.min(remaining, Math.abs(lot.quantity));
+      const [buy, sell] = side === 1
+        ? [{ date: trade.trade_date, price: trade.price }, lot]
+        : [lot, { date: trade.trade_date, price: trade.price }];
+      emit({ tradingsymbol, segment, category: 'fno_business', quantity, buy_date: buy.date, buy_price: buy.price, sell_date: sell.date, sell_price: sell.price });
+      lot.quantity += side * quantity;
+      remaining -= quantity;
+      if (lot.quantity === 0) lots.shift();
+    }
+
+    if (remaining > 0) {
+      lots.push({ date: trade.trade_date, price: trade.price, quantity: side * remaining });
+    }
+  }
+
+  return lots;
+}
+
+/**
+ * Close the open lots of an expired contract at its settlement
+ */
+function settleLots(lots: Lot[], tradingsymbol: string, segment: TradeSegment, settlement: { date: string; price: number }, emit: Emit): void {
+  for (const lot of lots) {
+    const [buy, sell] = lot.quantity > 0 ? [lot, settlement] : [settlement, lot];
+    emit({ tradingsymbol, segment, category: 'fno_business', quantity: Math.abs(lot.quantity), buy_date: buy.date, buy_price: buy.price, sell_date: sell.date, sell_price: sell.price });
+  }
+}
+
+/**
+ * Expiry of a derivatives contract: from the tradebook when the export had it, then from the
+ * instrument master, otherwise from the trading symbol. Weekly symbols carry the exact date;
+ * monthly ones only the month, so their expiry is approximated by the end of the month.
+ */
+function contractExpiry(trades: TradebookTrade[], contractExpiries: Record<string, string>): { date: string; approximate: boolean } | undefined {
+  const symbol = trades[0]!.tradingsymbol;
+  const known = trades.find(trade => trade.expiry)?.expiry ?? contractExpiries[symbol];
+  if (known) {
+    return { date: known, approximate: false };
+  }
+
+  const monthly = symbol.match(/(\d{2})(JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)(?:\d+(?:\.\d+)?(?:CE|PE)|FUT)$/);
+  if (monthly) {
+    const year = 2000 + Number(monthly[1]);
+    const month = MONTHS.indexOf(monthly[2]!) + 1;
+    return { date: new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10), approximate: true };
+  }
+
+  const weekly = symbol.match(/(\d{2})([1-9OND])(\d{2})\d+(?:\.\d+)?(?:CE|PE)$/);
+  if (weekly) {
+    const month = WEEKLY_MONTHS.indexOf(weekly[2]!) + 1;
+    const date = `20${weekly[1]}-${String(month).padStart(2, '0')}-${weekly[3]}`;
+    return isNaN(Date.parse(date)) ? undefined : { date, approximate: false };
+  }
+  return undefined;
+}
+
+function upperCaseKeys(values: Record<string, number> | undefined): Record<string, number> {
+  return Object.fromEntries(Object.entries(values ?? {}).map(([key, value]) => [key.toUpperCase(), value]));
+}
+
+function summarise(realised: RealisedTrade[]): CapitalGainsReport['summary'] {
+  const summary = Object.fromEntries(GAIN_CATEGORIES.map(category => {
+    const rows = realised.filter(row => row.category === category);
+    const isBusinessIncome = category === 'intraday_speculative' || category === 'fno_business';
+    return [category, {
+      trades: rows.length,
+      buy_value: round(sum(rows.map(row => row.buy_value))),
+      sell_value: round(sum(rows.map(row => row.sell_value))),
+      realised_pnl: round(sum(rows.map(row => row.pnl))),
+      ...(isBusinessIncome ? { turnover: round(sum(rows.map(row => Math.abs(row.pnl)))) } : {})
+    }];
+  })) as Record<GainCategory, CategorySummary>;
+
+  return { ...summary, total_realised_pnl: round(sum(realised.map(row => row.pnl))) };
+}
+
+function summariseBySymbol(realised: RealisedTrade[]): CapitalGainsReport['by_symbol'] {
+  const symbols = new Map<string, CapitalGainsReport['by_symbol'][number]>();
+  for (const row of realised) {
+    const key = `${row.segment}:${row.tradingsymbol}`;
+    const entry = symbols.get(key) ?? { tradingsymbol: row.tradingsymbol, segment: row.segment, total: 0 };
+    entry[row.category] = round((entry[row.category] ?? 0) + row.pnl);
+    entry.total = round(entry.total + row.pnl);
+    symbols.set(key, entry);
+  }
+  return [...symbols.values()].sort((a, b) => b.total - a.total);
+}
+
+/**
+ * The realised trades as CSV, one row per FIFO match
+ */
+export function capitalGainsToCsv(report: CapitalGainsReport): string {
+  const columns: (keyof RealisedTrade)[] = [
+    'category', 'tradingsymbol', 'segment', 'quantity', 'buy_date', 'buy_price', 'cost_price',
+    'sell_date', 'sell_price', 'buy_value', 'sell_value', 'pnl', 'holding_days', 'grandfathered'
+  ];
+  const escape = (value: unknown) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [columns.join(','), ...report.realised.map(row => columns.map(column => escape(row[column])).join(','))].join('\n') + '\n';
+}
+
+/**
+ * Inclusive date range of an Indian financial year, e.g. 2024-25 is 2024-04-01 to 2025-03-31
+ */
+export function financialYearRange(financialYear: string): { from: string; to: string } {
+  const match = financialYear.trim().match(/^(\d{4})-(\d{2}|\d{4})$/);
+  const start = match ? Number(match[1]) : NaN;
+  const end = match ? Number(match[2]!.length === 2 ? start + 1 - ((start + 1) % 100) + Number(match[2]) : match[2]) : NaN;
+  if (!match || end !== start + 1) {
+    throw new Error(`Invalid financial year "${financialYear}". Use the form 2024-25.`);
+  }
+  return { from: `${start}-04-01`, to: `${end}-03-31` };
+}
+
+/**
+ * The financial year a date falls in, e.g. 2024-25 for any date from April 2024 to March 2025
+ */
+export function financialYearOf(date: string): string {
+  const year = Number(date.slice(0, 4));
+  const start = Number(date.slice(5, 7)) >= 4 ? year : year - 1;
+  return `${start}-${String(start + 1).slice(2)}`;
+}
+
+/**
+ * The financial year in progress in IST
+ */
+export function currentFinancialYear(now: Date = new Date()): string {
+  return financialYearOf(new Date(now.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10));
+}
+
+function addYears(date: string, years: number): string {
+  return `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+}
+
+function sumQuantity(lots: { quantity: number }[]): number {
+  return lots.reduce((total, lot) => total + lot.quantity, 0);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'bun:test';
+import { parseTradebookCsv } from './trade-store.js';
+
+const HEADER = 'symbol,isin,trade_date,exchange,segment,series,trade_type,auction,quantity,price,trade_id,order_id,order_execution_time,expiry_date';
+
+describe('parseTradebookCsv', () => {
+  test('reads a Console tradebook export', () => {
+    const { trades, skipped } = parseTradebookCsv('AB1234', [
+      `\uFEFF${HEADER}`,
+      'INFY,INE009A01021,2024-05-02,NSE,EQ,EQ,buy,false,10.000000,1450.50,100001,1200001,2024-05-02T09:17:02,',
+      'NIFTY24JUL25000CE,,02-07-2024,NSE,FO,,sell,false,-50,112.25,200001,1200002,2024-07-02 10:01:45,25-07-2024',
+      ''
+    ].join('\r\n'));
+
+    expect(skipped).toEqual([]);
+    expect(trades).toEqual([
+      {
+        account: 'AB1234',
+        trade_id: '100001',
+        order_id: '1200001',
+        exchange: 'NSE',
+        segment: 'EQ',
+        tradingsymbol: 'INFY',
+        isin: 'INE009A01021',
+        transaction_type: 'BUY',
+        quantity: 10,
+        price: 1450.5,
+        trade_date: '2024-05-02',
+        executed_at: '2024-05-02T09:17:02',
+        source: 'console'
+      },
+      {
+        account: 'AB1234',
+        trade_id: '200001',
+        order_id: '1200002',
+        exchange: 'NFO',
+        segment: 'FO',
+        tradingsymbol: 'NIFTY24JUL25000CE',
+        transaction_type: 'SELL',
+        quantity: 50,
+        price: 112.25,
+        trade_date: '2024-07-02',
+        executed_at: '2024-07-02T10:01:45',
+        expiry: '2024-07-25',
+        source: 'console'
+      }
+    ]);
+  });
+
+  test('matches headers in any order and handles quoted fields', () => {
+    const { trades } = parseTradebookCsv('AB1234', [
+      'Trade ID,Trade Date,Symbol,Exchange,Type,Qty,Price',
+      '300001,2024-06-03,"M&M, ""A""",NSE,SELL,5,"1000.00"',
+      '300002,2024-06-03,TATAMOTORS,MCX,BUY,1,950'
+    ].join('\n'));
+
+    expect(trades.map(trade => [trade.trade_id, trade.tradingsymbol, trade.segment, trade.executed_at])).toEqual([
+      ['300001', 'M&M, "A"', 'EQ', '2024-06-03T00:00:00'],
+      ['300002', 'TATAMOTORS', 'COM', '2024-06-03T00:00:00']
+    ]);
+    expect(trades[0]?.price).toBe(1000);
+  });
+
+  test('reports rows it cannot read with their line numbers', () => {
+    const { trades, skipped } = parseTradebookCsv('AB1234', [
+      HEADER,
+      'INFY,,2024-13-45,NSE,EQ,EQ,buy,false,10,1450,1,1,,',
+      'INFY,,2024-05-02,NSE,EQ,EQ,hold,false,10,1450,2,2,,',
+      ',,,,,,,,,,,,,',
+      'INFY,,2024-05-02,NSE,EQ,EQ,buy,false,0,1450,3,3,,',
+      'INFY,,2024-05-02,NSE,EQ,EQ,buy,false,10,-1,4,4,,',
+      'INFY,,2024-05-02,NSE,XX,EQ,buy,false,10,1450,5,5,,',
+      'INFY,,2024-05-02,NSE,EQ,EQ,buy,false,10,1450,,6,,',
+      'INFY,,2024-05-02,NSE,EQ,EQ,buy,false,10,1450,7,7,,'
+    ].join('\n'));
+
+    expect(trades.map(trade => trade.trade_id)).toEqual(['7']);
+    expect(skipped).toEqual([
+      { line: 2, reason: 'invalid trade_date "2024-13-45"' },
+      { line: 3, reason: 'invalid trade_type "hold"' },
+      { line: 5, reason: 'invalid quantity "0"' },
+      { line: 6, reason: 'invalid price "-1"' },
+      { line: 7, reason: 'unknown segment "XX"' },
+      { line: 8, reason: 'missing symbol or trade_id' }
+    ]);
+  });
+
+  test('rejects files without the required columns', () => {
+    expect(() => parseTradebookCsv('AB1234', 'symbol,trade_date,exchange,quantity\nINFY,2024-05-02,NSE,10'))
+      .toThrow('Not a tradebook export: missing trade_type, price, trade_id columns');
+  });
+});
@@ -0,0 +1,436 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../config/environment.js';
+import type { Trade } from '../api/models.js';
+
+/**
+ * Console segments: equity cash, equity derivatives, currency derivatives and commodity derivatives
+ */
+export type TradeSegment = 'EQ' | 'FO' | 'CDS' | 'COM';
+
+/**
+ * A fill in the local tradebook, from the trades API or a Console tradebook export
+ */
+export interface TradebookTrade {
+  account: string;
+  trade_id: string;
+  order_id: string;
+  exchange: string;
+  segment: TradeSegment;
+  tradingsymbol: string;
+  isin?: string;
+  transaction_type: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  // IST trade date, YYYY-MM-DD
+  trade_date: string;
+  // IST execution time, YYYY-MM-DDTHH:MM:SS, which orders fills within a day
+  executed_at: string;
+  product?: string;
+  // Expiry of a derivatives contract, YYYY-MM-DD, when the export has it
+  expiry?: string;
+  source: 'api' | 'console';
+}
+
+export interface ImportResult {
+  added: number;
+  duplicates: number;
+  skipped: { line: number; reason: string }[];
+}
+
+/**
+ * Days the tradebook is known to be complete for: a Console import covers the days from its
+ * first to its last trade, and a sync from the trades API covers the day it ran
+ */
+export interface CoveredRange {
+  account: string;
+  from: string;
+  to: string;
+  source: 'api' | 'console';
+}
+
+interface TradebookState {
+  trades: TradebookTrade[];
+  coverage: CoveredRange[];
+}
+
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+const EXCHANGE_SEGMENTS: Record<string, TradeSegment> = {
+  NSE: 'EQ',
+  BSE: 'EQ',
+  NFO: 'FO',
+  BFO: 'FO',
+  CDS: 'CDS',
+  BCD: 'CDS',
+  MCX: 'COM',
+  NCO: 'COM'
+};
+
+// Console column names, with the names used by other exports of the same data
+const CSV_COLUMNS = {
+  tradingsymbol: ['symbol', 'tradingsymbol'],
+  isin: ['isin'],
+  trade_date: ['trade_date', 'date'],
+  exchange: ['exchange'],
+  segment: ['segment'],
+  transaction_type: ['trade_type', 'transaction_type', 'type'],
+  quantity: ['quantity', 'qty'],
+  price: ['price', 'trade_price', 'average_price'],
+  trade_id: ['trade_id'],
+  order_id: ['order_id'],
+  executed_at: ['order_execution_time', 'execution_time', 'trade_time'],
+  expiry: ['expiry_date', 'expiry']
+} as const;
+
+const REQUIRED_COLUMNS: (keyof typeof CSV_COLUMNS)[] = ['tradingsymbol', 'trade_date', 'exchange', 'transaction_type', 'quantity', 'price', 'trade_id'];
+
+/**
+ * Local tradebook of every account's fills. Kite's trades API only returns the current day,
+ * so history comes from Console tradebook exports and from syncing each day's trades.
+ * Trades are identified by exchange and trade ID, so importing overlapping data is safe.
+ */
+export class TradeStore {
+  private readonly stateFile: string;
+  private state: TradebookState;
+
+  constructor(config: ConfigManager) {
+    this.stateFile = config.getTradebookFile();
+    this.state = this.loadState();
+  }
+
+  private loadState(): TradebookState {
+    try {
+      if (fs.existsSync(this.stateFile)) {
+        const state = JSON.parse(fs.readFileSync(this.stateFile, 'utf-8')) as TradebookState;
+        state.coverage ??= [];
+        console.error(`Tradebook loaded from: ${this.stateFile} (${state.trades.length} trades)`);
+        return state;
+      }
+    } catch (error) {
+      throw new Error(`Failed to load tradebook from ${this.stateFile}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return { trades: [], coverage: [] };
+  }
+
+  private saveState(): void {
+    try {
+      const stateDir = path.dirname(this.stateFile);
+      if (!fs.existsSync(stateDir)) {
+        fs.mkdirSync(stateDir, { recursive: true });
+      }
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      throw new Error(`Failed to save tradebook: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add trades, skipping ones already in the tradebook
+   */
+  add(trades: TradebookTrade[]): { added: number; duplicates: number } {
+    const known = new Set(this.state.trades.map(tradeKey));
+    let added = 0;
+
+    for (const trade of trades) {
+      const key = tradeKey(trade);
+      if (known.has(key)) {
+        continue;
+      }
+      known.add(key);
+      this.state.trades.push(trade);
+      added++;
+    }
+
+    if (added > 0) {
+      this.state.trades.sort(compareTrades);
+      this.saveState();
+    }
+    return { added, duplicates: trades.length - added };
+  }
+
+  /**
+   * Record the current day's fills from the trades API
+   */
+  syncDay(account: string, trades: Trade[], now: Date = new Date()): { added: number; duplicates: number } {
+    const today = istDate(now);
+    const result = this.add(trades.map(trade => fromKiteTrade(account, trade, now)));
+    this.cover({ account, from: today, to: today, source: 'api' });
+    return result;
+  }
+
+  /**
+   * Parse a Console tradebook CSV export and add its trades
+   */
+  importCsv(account: string, csv: string): ImportResult {
+    const { trades, skipped } = parseTradebookCsv(account, csv);
+    const result = this.add(trades);
+    if (trades.length > 0) {
+      const dates = trades.map(trade => trade.trade_date).sort();
+      this.cover({ account, from: dates[0]!, to: dates[dates.length - 1]!, source: 'console' });
+    }
+    return { ...result, skipped };
+  }
+
+  /**
+   * Weekdays in the range that no import or sync covers, merged into runs of consecutive days.
+   * Only the days from the first covered day to today are checked, and exchange holidays are
+   * not known, so a gap may be a holiday.
+   */
+  findGaps(account: string, from: string, to: string, now: Date = new Date()): { from: string; to: string }[] {
+    const ranges = this.state.coverage.filter(range => range.account === account);
+    if (ranges.length === 0) {
+      return [];
+    }
+    const start = ranges.reduce((earliest, range) => range.from < earliest ? range.from : earliest, to);
+    const end = [to, istDate(now)].sort()[0]!;
+
+    const gaps: { from: string; to: string }[] = [];
+    for (let day = from > start ? from : start; day <= end; day = nextDay(day)) {
+      const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+      if (weekday === 0 || weekday === 6 || ranges.some(range => range.from <= day && day <= range.to)) {
+        continue;
+      }
+      const last = gaps[gaps.length - 1];
+      if (last && isNextWeekday(last.to, day)) {
+        last.to = day;
+      } else {
+        gaps.push({ from: day, to: day });
+      }
+    }
+    return gaps;
+  }
+
+  private cover(range: CoveredRange): void {
+    const known = this.state.coverage.some(existing =>
+      existing.account === range.account && existing.source === range.source && existing.from === range.from && existing.to === range.to
+    );
+    if (!known) {
+      this.state.coverage.push(range);
+      this.saveState();
+    }
+  }
+
+  /**
+   * An account's trades in execution order
+   */
+  list(account: string): TradebookTrade[] {
+    return this.state.trades.filter(trade => trade.account === account);
+  }
+}
+
+/**
+ * Parse a Console tradebook export. Columns are matched by header name; rows that cannot be
+ * read are reported rather than failing the whole import.
+ */
+export function parseTradebookCsv(account: string, csv: string): { trades: TradebookTrade[]; skipped: ImportResult['skipped'] } {
+  const rows = parseCsv(csv);
+  const header = rows.shift()?.map(name => name.trim().toLowerCase().replace(/\s+/g, '_')) ?? [];
+  const columns = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([field, names]) => [field, header.findIndex(name => (names as readonly string[]).includes(name))])
+  ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+  const missing = REQUIRED_COLUMNS.filter(field => columns[field] < 0);
+  if (missing.length > 0) {
+    throw new Error(`Not a tradebook export: missing ${missing.map(field => CSV_COLUMNS[field][0]).join(', ')} column${missing.length > 1 ? 's' : ''}`);
+  }
+
+  const trades: TradebookTrade[] = [];
+  const skipped: ImportResult['skipped'] = [];
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const cell = (field: keyof typeof CSV_COLUMNS) => columns[field] >= 0 ? (row[columns[field]] ?? '').trim() : '';
+    if (row.every(value => !value.trim())) {
+      return;
+    }
+
+    const tradeDate = parseTradeDate(cell('trade_date'));
+    const transactionType = cell('transaction_type').toUpperCase();
+    const quantity = Math.abs(Number(cell('quantity')));
+    const price = Number(cell('price'));
+    const segment = parseSegment(cell('segment'), cell('exchange').toUpperCase());
+    const exchange = derivativeExchange(cell('exchange').toUpperCase(), segment);
+
+    const problem = !tradeDate ? `invalid trade_date "${cell('trade_date')}"`
+      : transactionType !== 'BUY' && transactionType !== 'SELL' ? `invalid trade_type "${cell('transaction_type')}"`
+      : !Number.isFinite(quantity) || quantity === 0 ? `invalid quantity "${cell('quantity')}"`
+      : !Number.isFinite(price) || price < 0 ? `invalid price "${cell('price')}"`
+      : !segment ? `unknown segment "${cell('segment') || exchange}"`
+      : !cell('tradingsymbol') || !cell('trade_id') ? 'missing symbol or trade_id'
+      : undefined;
+    if (problem) {
+      skipped.push({ line, reason: problem });
+      return;
+    }
+
+    const executedAt = parseExecutionTime(cell('executed_at'));
+    const expiry = segment !== 'EQ' ? parseTradeDate(cell('expiry')) : undefined;
+    trades.push({
+      account,
+      trade_id: cell('trade_id'),
+      order_id: cell('order_id'),
+      exchange,
+      segment: segment!,
+      tradingsymbol: cell('tradingsymbol').toUpperCase(),
+      ...(cell('isin') ? { isin: cell('isin') } : {}),
+      transaction_type: transactionType as 'BUY' | 'SELL',
+      quantity,
+      price,
+      trade_date: tradeDate!,
+      executed_at: executedAt?.startsWith(tradeDate!) ? executedAt : `${tradeDate}T00:00:00`,
+      ...(expiry ? { expiry } : {}),
+      source: 'console'
+    });
+  });
+
+  return { trades, skipped };
+}
+
+/**
+ * Convert a fill from the trades API, which only covers the current IST day
+ */
+function fromKiteTrade(account: string, trade: Trade, now: Date): TradebookTrade {
+  const today = istDate(now);
+  const filledAt = wallClockTime(trade.fill_timestamp ?? trade.exchange_timestamp ?? trade.order_timestamp);
+
+  return {
+    account,
+    trade_id: String(trade.trade_id),
+    order_id: String(trade.order_id),
+    exchange: trade.exchange,
+    segment: EXCHANGE_SEGMENTS[trade.exchange] ?? 'EQ',
+    tradingsymbol: trade.tradingsymbol,
+    transaction_type: trade.transaction_type === 'SELL' ? 'SELL' : 'BUY',
+    quantity: trade.quantity,
+    price: trade.average_price,
+    trade_date: filledAt?.slice(0, 10) ?? today,
+    executed_at: filledAt ?? `${today}T00:00:00`,
+    product: trade.product,
+    source: 'api'
+  };
+}
+
+/**
+ * IST wall-clock time of a Kite timestamp. kiteconnect parses Kite's IST timestamps as local
+ * time, so the local fields of the Date hold the IST wall-clock time.
+ */
+function wallClockTime(value: string | Date | null | undefined): string | undefined {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) {
+      return undefined;
+    }
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}T${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+  }
+  return typeof value === 'string' ? parseExecutionTime(value) : undefined;
+}
+
+function istDate(now: Date): string {
+  return new Date(now.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function nextDay(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether day is the weekday after date, so a Friday gap continues into Monday
+ */
+function isNextWeekday(date: string, day: string): boolean {
+  let next = nextDay(date);
+  while ([0, 6].includes(new Date(`${next}T00:00:00Z`).getUTCDay())) {
+    next = nextDay(next);
+  }
+  return next === day;
+}
+
+function parseTradeDate(value: string): string | undefined {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const dayFirst = value.match(/^(\d{2})[-/](\d{2})[-/](\d{4})$/);
+  const date = iso ? `${iso[1]}-${iso[2]}-${iso[3]}` : dayFirst ? `${dayFirst[3]}-${dayFirst[2]}-${dayFirst[1]}` : undefined;
+  return date && !isNaN(Date.parse(date)) ? date : undefined;
+}
+
+function parseExecutionTime(value: string): string | undefined {
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2})/);
+  return match ? `${match[1]}T${match[2]}` : undefined;
+}
+
+function parseSegment(segment: string, exchange: string): TradeSegment | undefined {
+  const value = segment.toUpperCase();
+  if (value === 'EQ' || value === 'FO' || value === 'CDS' || value === 'COM') {
+    return value;
+  }
+  return value ? undefined : EXCHANGE_SEGMENTS[exchange];
+}
+
+/**
+ * Split CSV text into rows, handling quoted fields with commas, quotes and line breaks
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // A byte order mark from spreadsheet exports would otherwise be part of the first header
+  if (rows[0]?.[0]) {
+    rows[0][0] = rows[0][0].replace(/^\uFEFF/, '');
+  }
+  return rows;
+}
+
+/**
+ * Console reports derivatives under the parent exchange (NSE for an NFO contract); use the
+ * exchange the trades API reports so both sources identify a trade the same way
+ */
+function derivativeExchange(exchange: string, segment: TradeSegment | undefined): string {
+  const exchanges: Partial<Record<TradeSegment, Record<string, string>>> = {
+    FO: { NSE: 'NFO', BSE: 'BFO' },
+    CDS: { NSE: 'CDS', BSE: 'BCD' }
+  };
+  return (segment && exchanges[segment]?.[exchange]) ?? exchange;
+}
+
+function tradeKey(trade: TradebookTrade): string {
+  return `${trade.account}:${trade.segment}:${trade.exchange}:${trade.trade_id}`;
+}
+
+function compareTrades(a: TradebookTrade, b: TradebookTrade): number {
+  return a.executed_at.localeCompare(b.executed_at) || a.trade_id.localeCompare(b.trade_id);
+}
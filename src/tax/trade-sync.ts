@@ -0,0 +1,87 @@
+import { ConfigManager } from '../config/environment.js';
+import { AccountManager } from '../accounts/account-manager.js';
+import type { KiteClient } from '../api/kite-client.js';
+import { TradeStore } from './trade-store.js';
+
+const SYNC_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+// Minutes after IST midnight from which the day's trades are synced: after the equity close,
+// and repeated until midnight so the commodity evening session is included
+const SYNC_FROM_MINUTES = 15 * 60 + 40;
+
+export interface TradeSyncResult {
+  account: string;
+  trade_date: string;
+  added: number;
+  duplicates: number;
+}
+
+/**
+ * Keeps the tradebook complete without anyone asking for a report. Kite's trades API only
+ * returns the current day, so each authenticated live account is synced every few minutes
+ * from the equity close until midnight IST.
+ */
+export class TradeSyncer {
+  private readonly tradeStore: TradeStore;
+  private readonly accountManager: AccountManager;
+  private readonly enabled: boolean;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(config: ConfigManager, tradeStore: TradeStore, accountManager: AccountManager) {
+    this.tradeStore = tradeStore;
+    this.accountManager = accountManager;
+    this.enabled = config.getTradebookAutoSync();
+  }
+
+  /**
+   * Start the daily sync
+   */
+  start(): void {
+    if (!this.enabled || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.syncAfterClose(), SYNC_CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Add an account's trades for the day from the trades API
+   */
+  async sync(account: string, kiteClient: KiteClient, now: Date = new Date()): Promise<TradeSyncResult> {
+    if (kiteClient.isSimulated()) {
+      throw new Error('Paper trading is on, so there are no real trades to sync.');
+    }
+    const result = this.tradeStore.syncDay(account, await kiteClient.getTrades(), now);
+    return { account, trade_date: new Date(now.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10), ...result };
+  }
+
+  private async syncAfterClose(now: Date = new Date()): Promise<void> {
+    const ist = new Date(now.getTime() + IST_OFFSET_MS);
+    const weekday = ist.getUTCDay();
+    if (weekday === 0 || weekday === 6 || ist.getUTCHours() * 60 + ist.getUTCMinutes() < SYNC_FROM_MINUTES) {
+      return;
+    }
+
+    for (const account of this.accountManager.getAccountIds()) {
+      const { kiteClient } = this.accountManager.get(account);
+      if (!kiteClient.isReady() || kiteClient.isSimulated()) {
+        continue;
+      }
+      try {
+        const result = await this.sync(account, kiteClient, now);
+        if (result.added > 0) {
+          console.error(`Tradebook: ${result.added} trades of ${result.trade_date} synced for ${account}`);
+        }
+      } catch (error) {
+        console.error(`Tradebook sync failed for ${account}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+}